@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  AbortError,
+  convertRaw,
+  convertRawAsync,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  setBackend,
+  type ConverterBackend,
+  type OutputImage,
+} from './index.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AbortSignal cancellation', () => {
+  afterEach(() => {
+    setBackend(undefined);
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+    const controller = new AbortController();
+    controller.abort(new Error('navigated away'));
+
+    const promise = convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      signal: controller.signal,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    await expect(promise).rejects.toMatchObject({
+      name: 'AbortError',
+      code: 'ABORTED',
+      cause: new Error('navigated away'),
+    });
+    await wait(5);
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should throw synchronously when the signal is already aborted', () => {
+    setBackend(createStubBackend());
+
+    expect(() =>
+      convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+        inputFormat: 'arw',
+        signal: AbortSignal.abort(),
+      })
+    ).toThrow(AbortError);
+  });
+
+  it('should cancel a queued conversion when the signal fires', async () => {
+    const stub = createStubBackend({ delayMs: 20 });
+    setBackend(stub);
+    const controller = new AbortController();
+
+    const promise = convertRawAsync(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({
+      code: 'ABORTED',
+      format: 'png',
+      inputFormat: 'arw',
+    });
+    // The stub's timer was cleared, so the conversion never ran
+    await wait(40);
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should discard late results from backends without cancellation', async () => {
+    let complete: ((result: OutputImage) => void) | undefined;
+    const backend: ConverterBackend = {
+      convertRaw() {
+        throw new Error('not used');
+      },
+      convertRawAsync(_input, _format, _options, callback) {
+        complete = (result) => callback(null, result);
+      },
+    };
+    const converter = createConverter({ backend });
+    const controller = new AbortController();
+
+    const promise = converter.convertRawAsync(
+      Buffer.from('raw'),
+      OutputFormat.JPEG,
+      { inputFormat: 'arw', signal: controller.signal }
+    );
+    controller.abort();
+    complete!({ buffer: Buffer.from('late') });
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should resolve normally and not pass the signal to the backend', async () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+    const controller = new AbortController();
+
+    const result = await convertRawAsync(
+      Buffer.from('raw'),
+      OutputFormat.JPEG,
+      { inputFormat: 'arw', signal: controller.signal }
+    );
+    // Aborting after completion has no effect
+    controller.abort();
+
+    expect(result.buffer[0]).toBe(0xff);
+    expect(stub.calls[0].options).toEqual({ inputFormat: 'arw' });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeDraft,
+  estimateExposure,
+  estimateWhiteBalance,
+} from './auto-adjust.js';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+} from './index.js';
+import type { OutputImage } from './types.js';
+
+// The stub renders RGB output as 0x80 grey
+const STUB_GREY_EXPOSURE = Math.log2(
+  0.18 / Math.pow((128 / 255 + 0.055) / 1.055, 2.4)
+);
+
+// An RGB draft one pixel high
+function draft(...pixels: [number, number, number][]): OutputImage {
+  return {
+    buffer: Buffer.from(pixels.flat()),
+    raw: {
+      width: pixels.length,
+      height: 1,
+      stride: pixels.length * 3,
+      channels: 3,
+      bitDepth: 8,
+      sampleFormat: 'uint',
+      colorSpace: 'srgb',
+    },
+  };
+}
+
+describe('analyzeDraft', () => {
+  it('should leave clipped pixels out of the neutral', () => {
+    const analysis = analyzeDraft(
+      draft([128, 100, 80], [255, 255, 255]),
+      'grey-world'
+    );
+    expect(analysis.neutral[0]).toBeGreaterThan(analysis.neutral[2]);
+
+    const warm = estimateWhiteBalance(analysis.neutral);
+    expect(warm.temperature).toBeLessThan(6500);
+  });
+
+  it('should average only the brightest pixels for white-patch', () => {
+    const image = draft(
+      ...Array.from({ length: 90 }, (): [number, number, number] => [
+        90, 100, 120,
+      ]),
+      ...Array.from({ length: 10 }, (): [number, number, number] => [
+        200, 200, 200,
+      ])
+    );
+
+    const greyWorld = estimateWhiteBalance(
+      analyzeDraft(image, 'grey-world').neutral
+    );
+    const whitePatch = estimateWhiteBalance(
+      analyzeDraft(image, 'white-patch').neutral
+    );
+    expect(greyWorld.temperature).toBeGreaterThan(6500);
+    expect(whitePatch.temperature).toBeCloseTo(6500, 0);
+    expect(whitePatch.tint).toBeCloseTo(0, 1);
+  });
+});
+
+describe('estimateExposure', () => {
+  it('should bring the log-average luminance to middle grey', () => {
+    expect(estimateExposure(0.09)).toBeCloseTo(1);
+    expect(estimateExposure(0.36)).toBeCloseTo(-1);
+    expect(estimateExposure(0)).toBe(3);
+    expect(estimateExposure(1000)).toBe(-3);
+  });
+});
+
+describe('autoAdjust option', () => {
+  it('should render a draft and convert with the estimates', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      exposure: 0.5,
+      resize: { width: 2 },
+      whiteBalance: 'tungsten',
+      autoAdjust: { whiteBalance: true, exposure: true },
+    });
+
+    expect(stub.calls.map((call) => call.format)).toEqual(['rgb', 'jpeg']);
+    expect(stub.calls[0].options).toEqual({
+      inputFormat: 'arw',
+      exposure: 0.5,
+      neutralTemperature: 6500,
+      neutralTint: 0,
+      allowDraftMode: true,
+      scaleFactor: 0.125,
+      preserveExifData: false,
+    });
+
+    const { autoAdjust, neutralTemperature, neutralTint, exposure, ...rest } =
+      stub.calls[1].options;
+    expect(autoAdjust).toBeUndefined();
+    expect(rest).toEqual({ inputFormat: 'arw', resize: { width: 2 } });
+    expect(neutralTemperature).toBeCloseTo(6500, 0);
+    expect(neutralTint).toBeCloseTo(0, 1);
+    expect(exposure).toBeCloseTo(0.5 + STUB_GREY_EXPOSURE);
+  });
+
+  it('should keep the white balance when only exposure is estimated', async () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    await converter.convertRawAsync(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      neutralTemperature: 4000,
+      autoAdjust: { exposure: true },
+    });
+
+    expect(stub.calls[0].options.neutralTemperature).toBe(4000);
+    expect(stub.calls[1].options.neutralTemperature).toBe(4000);
+    expect(stub.calls[1].options.exposure).toBeCloseTo(STUB_GREY_EXPOSURE);
+  });
+
+  it('should estimate from the draft before the tone curve and LUT', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+    const autoAdjust = { whiteBalance: true, exposure: true };
+    // Warm 1D LUT that lifts red and cuts blue
+    const lut = { buffer: Buffer.from('LUT_1D_SIZE 2\n0.1 0 0\n1 1 0.8\n') };
+    const toneCurve: [number, number][] = [
+      [0, 0],
+      [0.5, 0.8],
+      [1, 1],
+    ];
+
+    converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      autoAdjust,
+    });
+    converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      toneCurve,
+      lut,
+      autoAdjust,
+    });
+
+    const [, plain, graded, final] = stub.calls;
+    expect(graded.options).not.toHaveProperty('toneCurve');
+    expect(graded.options).not.toHaveProperty('lut');
+    expect(final.options).toMatchObject({
+      toneCurve,
+      lut,
+      neutralTemperature: plain.options.neutralTemperature,
+      neutralTint: plain.options.neutralTint,
+      exposure: plain.options.exposure,
+    });
+  });
+
+  it('should report a backend that throws when the final conversion starts', async () => {
+    const stub = createStubBackend();
+    const converter = createConverter({
+      backend: {
+        ...stub,
+        convertRawAsync(input, format, options, callback) {
+          if (format !== 'rgb') {
+            throw new Error('Failed to create image destination');
+          }
+          return stub.convertRawAsync(input, format, options, callback);
+        },
+      },
+    });
+
+    await expect(
+      converter.convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, {
+        inputFormat: 'arw',
+        autoAdjust: { exposure: true },
+      })
+    ).rejects.toMatchObject({ code: 'ENCODE_FAILED' });
+  });
+
+  it('should validate the settings', () => {
+    expect(
+      validateOptions(OutputFormat.JPEG, {
+        autoAdjust: { whiteBalance: 'white-patch', exposure: false },
+      })
+    ).toEqual([]);
+
+    const issues = validateOptions(OutputFormat.JPEG, {
+      autoAdjust: { whiteBalance: 'auto', exposure: 1 },
+    } as never);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'autoAdjust.whiteBalance must be one of: true, false, grey-world, white-patch',
+      'autoAdjust.exposure must be a boolean',
+    ]);
+  });
+});
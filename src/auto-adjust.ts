@@ -0,0 +1,372 @@
+import type { ConversionHandle, ConverterBackend } from './backend.js';
+import type {
+  AutoWhiteBalanceMethod,
+  InternalConversionOptions,
+  OutputImage,
+  WhiteBalanceSetting,
+} from './types.js';
+
+/**
+ * Measurements of a draft render used to estimate adjustments
+ */
+export interface DraftAnalysis {
+  /** Linear sRGB color of what the estimate takes to be neutral */
+  neutral: [number, number, number];
+  /** Log-average linear luminance of the whole draft */
+  luminance: number;
+}
+
+// Scale of the draft relative to the full-size image
+export const DRAFT_SCALE = 0.125;
+
+// White balance the draft is rendered with, so casts are measured against it
+const REFERENCE_WHITE_BALANCE: Required<WhiteBalanceSetting> = {
+  temperature: 6500,
+  tint: 0,
+};
+
+// Linear luminance mid-tones are brought to
+export const MIDDLE_GREY = 0.18;
+
+// Largest exposure change in EV, so a nearly black or white draft does not
+// push the render to an extreme
+const MAX_EXPOSURE_CHANGE = 3;
+
+// 8-bit samples at or above this are treated as clipped
+const CLIPPED = 250;
+
+// Fraction of the brightest pixels averaged by white-patch
+const WHITE_PATCH_FRACTION = 0.02;
+
+// Tint units per unit of distance from the Planckian locus (Duv)
+const TINT_SCALE = 3000;
+
+/**
+ * Decode an 8-bit sRGB sample to linear light
+ */
+function toLinear(sample: number): number {
+  const value = sample / 255;
+  return value <= 0.04045
+    ? value / 12.92
+    : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Work out the correlated color temperature and distance from the Planckian
+ * locus of a linear sRGB color
+ */
+function chromaticity(rgb: [number, number, number]): {
+  temperature: number;
+  duv: number;
+} {
+  const [r, g, b] = rgb;
+  const X = 0.4124 * r + 0.3576 * g + 0.1805 * b;
+  const Y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const Z = 0.0193 * r + 0.1192 * g + 0.9505 * b;
+  const x = X / (X + Y + Z);
+  const y = Y / (X + Y + Z);
+
+  // McCamy's approximation
+  const n = (x - 0.332) / (0.1858 - y);
+  const temperature = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+
+  // CIE 1960 UCS coordinates of the color and of the locus (Krystek)
+  const u = (4 * x) / (-2 * x + 12 * y + 3);
+  const v = (6 * y) / (-2 * x + 12 * y + 3);
+  const t = temperature;
+  const uLocus =
+    (0.860117757 + 1.54118254e-4 * t + 1.28641212e-7 * t * t) /
+    (1 + 8.42420235e-4 * t + 7.08145163e-7 * t * t);
+  const vLocus =
+    (0.317398726 + 4.22806245e-5 * t + 4.20481691e-8 * t * t) /
+    (1 - 2.89741816e-5 * t + 1.61456053e-7 * t * t);
+  const distance = Math.hypot(u - uLocus, v - vLocus);
+
+  // Above the locus is green
+  return { temperature, duv: v >= vLocus ? distance : -distance };
+}
+
+/**
+ * Measure a draft render in the RGB format
+ * @param draft - 8-bit sRGB bitmap of the image
+ * @param method - How the neutral color is estimated
+ * @returns The neutral color and log-average luminance
+ */
+export function analyzeDraft(
+  draft: OutputImage,
+  method: AutoWhiteBalanceMethod
+): DraftAnalysis {
+  const { buffer } = draft;
+  const width = draft.raw?.width ?? Math.floor(buffer.length / 3);
+  const height = draft.raw?.height ?? 1;
+  const stride = draft.raw?.stride ?? width * 3;
+
+  // Linear samples and luminance of each pixel; clipped and black pixels
+  // carry no color, so their luminance is stored as -1 to leave them out of
+  // the neutral
+  const linear = new Float32Array(width * height * 3);
+  const luminance = new Float32Array(width * height);
+  let logSum = 0;
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const offset = row * stride + column * 3;
+      const pixel = row * width + column;
+      const r = toLinear(buffer[offset]);
+      const g = toLinear(buffer[offset + 1]);
+      const b = toLinear(buffer[offset + 2]);
+      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      logSum += Math.log(y + 1e-4);
+      linear[pixel * 3] = r;
+      linear[pixel * 3 + 1] = g;
+      linear[pixel * 3 + 2] = b;
+      const clipped =
+        Math.max(buffer[offset], buffer[offset + 1], buffer[offset + 2]) >=
+        CLIPPED;
+      luminance[pixel] = clipped || y === 0 ? -1 : y;
+    }
+  }
+
+  // White-patch averages the brightest pixels that carry color
+  let threshold = 0;
+  if (method === 'white-patch') {
+    const sorted = luminance.filter((y) => y >= 0).sort();
+    if (sorted.length > 0) {
+      threshold =
+        sorted[Math.floor((sorted.length - 1) * (1 - WHITE_PATCH_FRACTION))];
+    }
+  }
+
+  const neutral: [number, number, number] = [0, 0, 0];
+  let count = 0;
+  luminance.forEach((y, pixel) => {
+    if (y >= 0 && y >= threshold) {
+      neutral[0] += linear[pixel * 3];
+      neutral[1] += linear[pixel * 3 + 1];
+      neutral[2] += linear[pixel * 3 + 2];
+      count++;
+    }
+  });
+
+  return {
+    neutral:
+      count > 0
+        ? [neutral[0] / count, neutral[1] / count, neutral[2] / count]
+        : [1, 1, 1],
+    luminance: Math.exp(logSum / Math.max(1, width * height)),
+  };
+}
+
+/**
+ * Work out the white balance that renders the neutral of a draft, rendered
+ * with REFERENCE_WHITE_BALANCE, as grey. Shifts from the sRGB white point are
+ * applied to the reference in mireds, which track perceived shifts in
+ * temperature evenly.
+ * @param neutral - Linear sRGB neutral color measured in the draft
+ * @returns Temperature in Kelvin and tint
+ */
+export function estimateWhiteBalance(
+  neutral: [number, number, number]
+): Required<WhiteBalanceSetting> {
+  const white = chromaticity([1, 1, 1]);
+  const measured = chromaticity(neutral);
+
+  const mireds =
+    1e6 / REFERENCE_WHITE_BALANCE.temperature +
+    1e6 / measured.temperature -
+    1e6 / white.temperature;
+  const tint =
+    REFERENCE_WHITE_BALANCE.tint + (measured.duv - white.duv) * TINT_SCALE;
+
+  return {
+    temperature: Math.min(50000, Math.max(2000, 1e6 / mireds)),
+    tint: Math.min(150, Math.max(-150, tint)),
+  };
+}
+
+/**
+ * Work out the exposure change that brings the log-average luminance of a
+ * draft to middle grey
+ * @param luminance - Log-average linear luminance of the draft
+ * @returns Exposure change in EV
+ */
+export function estimateExposure(luminance: number): number {
+  const change = Math.log2(MIDDLE_GREY / luminance);
+  return Math.min(MAX_EXPOSURE_CHANGE, Math.max(-MAX_EXPOSURE_CHANGE, change));
+}
+
+/**
+ * Options for a draft render measured by analyzeDraft, for autoAdjust and
+ * deflickerSequence: a small, fast sRGB decode with the same settings, and the
+ * reference white balance when it is estimated. The tone curve and LUT are
+ * left out, so the estimates are made from ungraded pixels and the grade is
+ * not cancelled out.
+ */
+export function draftOptions(
+  options: InternalConversionOptions
+): InternalConversionOptions {
+  const {
+    autoAdjust,
+    resize,
+    colorSpace,
+    toneCurve,
+    lut,
+    extractMetadata,
+    preserveExifData,
+    ...draft
+  } = options;
+  return {
+    ...draft,
+    ...(autoAdjust?.whiteBalance && {
+      neutralTemperature: REFERENCE_WHITE_BALANCE.temperature,
+      neutralTint: REFERENCE_WHITE_BALANCE.tint,
+    }),
+    allowDraftMode: true,
+    scaleFactor: DRAFT_SCALE,
+    preserveExifData: false,
+  };
+}
+
+/**
+ * Work out the options of the final render from the draft
+ * @returns A function that applies the estimates to a set of options
+ */
+function adjuster(
+  options: InternalConversionOptions,
+  draft: OutputImage
+): (options: InternalConversionOptions) => InternalConversionOptions {
+  const { whiteBalance, exposure } = options.autoAdjust ?? {};
+  const analysis = analyzeDraft(
+    draft,
+    whiteBalance === 'white-patch' ? 'white-patch' : 'grey-world'
+  );
+  const adjustments: InternalConversionOptions = {};
+  if (whiteBalance) {
+    const estimate = estimateWhiteBalance(analysis.neutral);
+    adjustments.neutralTemperature = estimate.temperature;
+    adjustments.neutralTint = estimate.tint;
+  }
+  if (exposure) {
+    adjustments.exposure =
+      (options.exposure ?? 0) + estimateExposure(analysis.luminance);
+  }
+
+  return ({ autoAdjust, ...rest }) => ({ ...rest, ...adjustments });
+}
+
+/**
+ * Wrap a backend so conversions with the autoAdjust option first render a
+ * draft, estimate white balance and exposure from it, and then convert with
+ * the estimates. Other conversions are passed through.
+ * @param backend - Backend that renders the draft and the final image
+ * @returns A backend with the same capabilities
+ */
+export function withAutoAdjust(backend: ConverterBackend): ConverterBackend {
+  // Run the draft asynchronously, then the conversion; cancelling stops
+  // whichever is running
+  const chain = <T>(
+    input: Buffer | string,
+    options: InternalConversionOptions,
+    callback: (error: Error | null, result?: T) => void,
+    start: (
+      adjust: (options: InternalConversionOptions) => InternalConversionOptions,
+      callback: (error: Error | null, result?: T) => void
+    ) => ConversionHandle | void
+  ): ConversionHandle => {
+    let cancelled = false;
+    let handle = backend.convertRawAsync(
+      input,
+      'rgb',
+      draftOptions(options),
+      (error, draft) => {
+        if (cancelled) {
+          return;
+        }
+        if (error || !draft) {
+          callback(error);
+          return;
+        }
+        let adjust: ReturnType<typeof adjuster>;
+        try {
+          adjust = adjuster(options, draft);
+        } catch (analysisError) {
+          callback(analysisError as Error);
+          return;
+        }
+        try {
+          handle = start(adjust, callback);
+        } catch (startError) {
+          callback(startError as Error);
+        }
+      }
+    );
+    return {
+      cancel: () => {
+        cancelled = true;
+        handle?.cancel();
+      },
+    };
+  };
+
+  const { convertRawMulti, convertRawMultiAsync } = backend;
+  return {
+    convertRaw: (input, format, options) => {
+      if (!options.autoAdjust) {
+        return backend.convertRaw(input, format, options);
+      }
+      const draft = backend.convertRaw(input, 'rgb', draftOptions(options));
+      const adjust = adjuster(options, draft);
+      return backend.convertRaw(input, format, adjust(options));
+    },
+    convertRawAsync: (input, format, options, callback) => {
+      if (!options.autoAdjust) {
+        return backend.convertRawAsync(input, format, options, callback);
+      }
+      return chain(input, options, callback, (adjust, done) =>
+        backend.convertRawAsync(input, format, adjust(options), done)
+      );
+    },
+    convertRawMulti:
+      convertRawMulti &&
+      ((input, renditions, options) => {
+        if (!options.autoAdjust) {
+          return convertRawMulti.call(backend, input, renditions, options);
+        }
+        const draft = backend.convertRaw(input, 'rgb', draftOptions(options));
+        const adjust = adjuster(options, draft);
+        return convertRawMulti.call(
+          backend,
+          input,
+          renditions.map((rendition) => ({
+            ...rendition,
+            options: adjust(rendition.options),
+          })),
+          adjust(options)
+        );
+      }),
+    convertRawMultiAsync:
+      convertRawMultiAsync &&
+      ((input, renditions, options, callback) => {
+        if (!options.autoAdjust) {
+          return convertRawMultiAsync.call(
+            backend,
+            input,
+            renditions,
+            options,
+            callback
+          );
+        }
+        return chain(input, options, callback, (adjust, done) =>
+          convertRawMultiAsync.call(
+            backend,
+            input,
+            renditions.map((rendition) => ({
+              ...rendition,
+              options: adjust(rendition.options),
+            })),
+            adjust(options),
+            done
+          )
+        );
+      }),
+  };
+}
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  convertRaw,
+  convertRawAsync,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  setBackend,
+  type StubBackend,
+} from './index.js';
+
+describe('Conversion backends', () => {
+  let stub: StubBackend;
+
+  beforeEach(() => {
+    stub = createStubBackend({
+      width: 6,
+      height: 4,
+      metadata: { cameraMake: 'SONY' },
+    });
+    setBackend(stub);
+  });
+
+  afterEach(() => {
+    setBackend(undefined);
+  });
+
+  describe('stub backend via setBackend', () => {
+    it('should convert to each encoded format with the right signature', () => {
+      const jpeg = convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+        inputFormat: 'arw',
+      });
+      expect(jpeg.buffer[0]).toBe(0xff);
+      expect(jpeg.buffer[1]).toBe(0xd8);
+
+      const png = convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+        inputFormat: 'arw',
+      });
+      expect(png.buffer.toString('ascii', 1, 4)).toBe('PNG');
+
+      const tiff = convertRaw(Buffer.from('raw'), OutputFormat.TIFF, {
+        inputFormat: 'arw',
+      });
+      expect(['II', 'MM']).toContain(tiff.buffer.toString('ascii', 0, 2));
+    });
+
+    it('should return an RGB bitmap sized from the simulated dimensions', () => {
+      const rgb = convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+        inputFormat: 'dng',
+        scaleFactor: 0.5,
+      });
+      expect(rgb.buffer.length).toBe(3 * 2 * 3);
+      expect(rgb.metadata).toBeUndefined();
+    });
+
+    it('should return metadata only when extractMetadata is enabled', async () => {
+      const result = await convertRawAsync(
+        Buffer.from('raw'),
+        OutputFormat.JPEG,
+        { inputFormat: 'arw', extractMetadata: true }
+      );
+      expect(result.metadata).toEqual({
+        cameraMake: 'SONY',
+        width: 6,
+        height: 4,
+        colorSpace: 'srgb',
+      });
+    });
+
+    it('should report the requested color space in metadata', () => {
+      const result = convertRaw(Buffer.from('raw'), OutputFormat.TIFF, {
+        inputFormat: 'arw',
+        extractMetadata: true,
+        colorSpace: 'adobe-rgb',
+      });
+      expect(result.metadata?.colorSpace).toBe('adobe-rgb');
+
+      expect(() =>
+        convertRaw(Buffer.from('raw'), OutputFormat.TIFF, {
+          inputFormat: 'arw',
+          colorSpace: 'cmyk' as any,
+        })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_OPTIONS',
+          message: expect.stringContaining('Unsupported color space: cmyk'),
+        })
+      );
+    });
+
+    it('should pass normalized format and options to the backend', () => {
+      convertRaw(
+        Buffer.from('raw'),
+        ' JPEG ' as OutputFormat,
+        {
+          inputFormat: 'arw',
+          quality: 0.5,
+        } as any
+      );
+      expect(stub.calls).toHaveLength(1);
+      expect(stub.calls[0].format).toBe('jpeg');
+      expect(stub.calls[0].options).toEqual({
+        inputFormat: 'arw',
+        quality: 0.5,
+      });
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid input synchronously', () => {
+      expect(() => convertRaw(123 as any, OutputFormat.JPEG)).toThrow(
+        'Input must be a Buffer or file path string'
+      );
+      expect(() =>
+        convertRaw(Buffer.alloc(0), OutputFormat.JPEG, { inputFormat: 'arw' })
+      ).toThrow('Input buffer is empty');
+      expect(() => convertRaw('  ', OutputFormat.JPEG)).toThrow(
+        'File path cannot be empty'
+      );
+      expect(() =>
+        convertRaw(Buffer.from('raw'), 'bmp' as OutputFormat, {
+          inputFormat: 'arw',
+        })
+      ).toThrow('Unsupported output format');
+      expect(() =>
+        convertRaw(Buffer.from('raw'), '' as OutputFormat, {
+          inputFormat: 'arw',
+        })
+      ).toThrow('Output format must be a non-empty string');
+      expect(() => convertRaw(Buffer.from('raw'), OutputFormat.JPEG)).toThrow(
+        'inputFormat is required when input is a Buffer'
+      );
+      expect(() =>
+        convertRaw('/path/to/file.arw', OutputFormat.JPEG, 'invalid' as any)
+      ).toThrow('Options must be an object');
+      expect(stub.calls).toHaveLength(0);
+    });
+
+    it('should reject invalid input asynchronously', async () => {
+      await expect(
+        convertRawAsync(123 as any, OutputFormat.JPEG)
+      ).rejects.toThrow('Input must be a Buffer or file path string');
+      await expect(
+        convertRawAsync(Buffer.from('raw'), 'bmp' as OutputFormat, {
+          inputFormat: 'arw',
+        })
+      ).rejects.toThrow('Unsupported output format');
+      await expect(
+        convertRawAsync('/nonexistent/file.arw', OutputFormat.JPEG)
+      ).rejects.toThrow('Failed to read file from path');
+    });
+  });
+
+  describe('createConverter', () => {
+    it('should use its own backend instead of the active one', async () => {
+      const other = createStubBackend({ width: 2, height: 2 });
+      const converter = createConverter({ backend: other });
+
+      const result = await converter.convertRawAsync(
+        Buffer.from('raw'),
+        OutputFormat.RGB,
+        { inputFormat: 'arw' }
+      );
+
+      expect(result.buffer.length).toBe(2 * 2 * 3);
+      expect(other.calls).toHaveLength(1);
+      expect(stub.calls).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { createRequire } from 'module';
+import { RawConvertError } from './errors.js';
+import type {
+  InternalConversionOptions,
+  InternalRendition,
+  OutputImage,
+} from './types.js';
+
+/**
+ * A conversion backend performs the actual RAW decode and encode.
+ *
+ * The default backend is the Core Image native addon, which is loaded lazily
+ * on first use so that this module can be imported on platforms where the
+ * addon is not available.
+ */
+export interface ConverterBackend {
+  convertRaw(
+    input: Buffer | string,
+    format: string,
+    options: InternalConversionOptions
+  ): OutputImage;
+  /**
+   * Start an asynchronous conversion. Backends that support cancellation
+   * return a handle; the callback must not be called after cancel().
+   */
+  convertRawAsync(
+    input: Buffer | string,
+    format: string,
+    options: InternalConversionOptions,
+    callback: (error: Error | null, result?: OutputImage) => void
+  ): ConversionHandle | void;
+  /**
+   * Decode the input once and encode one output per rendition, in order.
+   * The options apply to the decode; each rendition carries its own options.
+   * Optional: without it, converters run one conversion per rendition.
+   */
+  convertRawMulti?(
+    input: Buffer | string,
+    renditions: InternalRendition[],
+    options: InternalConversionOptions
+  ): OutputImage[];
+  /**
+   * Start an asynchronous multi-output conversion, with the same cancellation
+   * contract as convertRawAsync. Optional, like convertRawMulti.
+   */
+  convertRawMultiAsync?(
+    input: Buffer | string,
+    renditions: InternalRendition[],
+    options: InternalConversionOptions,
+    callback: (error: Error | null, results?: OutputImage[]) => void
+  ): ConversionHandle | void;
+}
+
+/**
+ * Handle to an asynchronous conversion in progress
+ */
+export interface ConversionHandle {
+  /** Stop the conversion and release its resources */
+  cancel(): void;
+}
+
+/**
+ * Functions exported by the Core Image native addon
+ */
+interface NativeAddon {
+  convertRaw(
+    input: Buffer | string,
+    format: string,
+    options: InternalConversionOptions
+  ): OutputImage;
+  /** Queue a conversion and return its id for cancelConversion */
+  convertRawAsync(
+    input: Buffer | string,
+    format: string,
+    options: InternalConversionOptions,
+    callback: (error: Error | null, result?: OutputImage) => void
+  ): number;
+  convertRawMulti(
+    input: Buffer | string,
+    renditions: InternalRendition[],
+    options: InternalConversionOptions
+  ): OutputImage[];
+  /** Queue a multi-output conversion and return its id for cancelConversion */
+  convertRawMultiAsync(
+    input: Buffer | string,
+    renditions: InternalRendition[],
+    options: InternalConversionOptions,
+    callback: (error: Error | null, results?: OutputImage[]) => void
+  ): number;
+  /** Flag a queued or running conversion as cancelled */
+  cancelConversion(id: number): void;
+}
+
+let nativeBackend: ConverterBackend | undefined;
+let currentBackend: ConverterBackend | undefined;
+
+/**
+ * Queue a native async job and return a handle that cancels it
+ * @param addon - Native addon that runs the job
+ * @param callback - Callback of the conversion
+ * @param start - Queues the job with the given callback and returns its id
+ * @returns ConversionHandle for the job
+ */
+function startNativeJob<T>(
+  addon: NativeAddon,
+  callback: (error: Error | null, result?: T) => void,
+  start: (callback: (error: Error | null, result?: T) => void) => number
+): ConversionHandle {
+  let cancelled = false;
+  // The worker still calls back once it stops, which is dropped here
+  // so the callback is not called after cancel()
+  const id = start((...args) => {
+    if (!cancelled) {
+      callback(...args);
+    }
+  });
+  return {
+    cancel: () => {
+      cancelled = true;
+      addon.cancelConversion(id);
+    },
+  };
+}
+
+/**
+ * Load the Core Image native addon
+ * @throws {RawConvertError} BACKEND_UNAVAILABLE if the addon has not been built or cannot be loaded on this platform
+ * @returns The native addon as a ConverterBackend
+ */
+export function loadNativeBackend(): ConverterBackend {
+  if (!nativeBackend) {
+    let addon: NativeAddon;
+    try {
+      addon = createRequire(import.meta.url)(
+        '../build/Release/raw_converter'
+      ) as NativeAddon;
+    } catch (error) {
+      throw new RawConvertError(
+        'BACKEND_UNAVAILABLE',
+        `Failed to load the Core Image native addon (${(error as Error).message}). ` +
+          'The native backend requires macOS; use setBackend() to supply an alternative backend.',
+        { cause: error }
+      );
+    }
+
+    nativeBackend = {
+      convertRaw: (input, format, options) =>
+        addon.convertRaw(input, format, options),
+      convertRawAsync: (input, format, options, callback) =>
+        startNativeJob(addon, callback, (guarded) =>
+          addon.convertRawAsync(input, format, options, guarded)
+        ),
+      convertRawMulti: (input, renditions, options) =>
+        addon.convertRawMulti(input, renditions, options),
+      convertRawMultiAsync: (input, renditions, options, callback) =>
+        startNativeJob(addon, callback, (guarded) =>
+          addon.convertRawMultiAsync(input, renditions, options, guarded)
+        ),
+    };
+  }
+
+  return nativeBackend;
+}
+
+/**
+ * Set the backend used by the top-level conversion functions
+ * @param backend - Backend to use, or undefined to restore the native addon
+ */
+export function setBackend(backend: ConverterBackend | undefined): void {
+  currentBackend = backend;
+}
+
+/**
+ * Get the backend used by the top-level conversion functions, loading the
+ * native addon if no other backend has been set
+ * @returns The active ConverterBackend
+ */
+export function getBackend(): ConverterBackend {
+  return currentBackend ?? loadNativeBackend();
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertBatch,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+  type BatchFileFailure,
+  type BatchFileResult,
+  type BatchProgress,
+} from './index.js';
+
+function createBatchConverter(delayMs = 1) {
+  const stub = createStubBackend({ delayMs });
+  return { stub, converter: createConverter({ backend: stub }) };
+}
+
+describe('convertBatch', () => {
+  it('should emit per-file events and finish with a summary', async () => {
+    const { converter } = createBatchConverter();
+    const inputs = [Buffer.from('raw-1'), '/missing.arw', Buffer.from('raw-2')];
+
+    const batch = convertBatch(
+      inputs,
+      OutputFormat.JPEG,
+      { inputFormat: 'arw' },
+      { concurrency: 2, converter }
+    );
+    const done: BatchFileResult[] = [];
+    const failed: BatchFileFailure[] = [];
+    const progress: BatchProgress[] = [];
+    batch.on('fileDone', (file) => done.push(file));
+    batch.on('fileFailed', (file) => failed.push(file));
+    batch.on('progress', (update) => progress.push(update));
+
+    const summary = await batch.done;
+
+    expect(done.map((file) => file.index).sort()).toEqual([0, 2]);
+    expect(done[0].result.buffer[0]).toBe(0xff);
+    expect(failed).toHaveLength(1);
+    expect(failed[0].index).toBe(1);
+    expect(failed[0].error).toBeInstanceOf(RawConvertError);
+    expect(failed[0].error.code).toBe('FILE_NOT_FOUND');
+
+    expect(progress.map((update) => update.completed)).toEqual([1, 2, 3]);
+    expect(progress[2]).toEqual({
+      completed: 3,
+      succeeded: 2,
+      failed: 1,
+      total: 3,
+    });
+
+    expect(summary).toMatchObject({
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+      bytesIn: 10,
+      bytesOut: 12,
+    });
+    expect(summary.durationMs).toBeGreaterThanOrEqual(0);
+    expect(summary.files.map((file) => file.status)).toEqual([
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+    ]);
+    // The summary does not hold on to output buffers
+    expect(summary.files[0]).not.toHaveProperty('result');
+  });
+
+  it('should emit done with the same summary', async () => {
+    const { converter } = createBatchConverter();
+    const batch = convertBatch(
+      [Buffer.from('raw')],
+      OutputFormat.PNG,
+      {
+        inputFormat: 'arw',
+      },
+      { converter }
+    );
+
+    const emitted = new Promise((resolve) => batch.once('done', resolve));
+
+    expect(await emitted).toBe(await batch.done);
+  });
+
+  it('should not run more conversions than the concurrency', async () => {
+    const { stub, converter } = createBatchConverter(5);
+    let running = 0;
+    let maxRunning = 0;
+    const tracked = {
+      ...converter,
+      convertRawAsync: ((
+        ...args: Parameters<typeof converter.convertRawAsync>
+      ) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        return converter.convertRawAsync(...args).finally(() => running--);
+      }) as typeof converter.convertRawAsync,
+    };
+
+    const inputs = Array.from({ length: 7 }, () => Buffer.from('raw'));
+    await convertBatch(
+      inputs,
+      OutputFormat.JPEG,
+      { inputFormat: 'arw' },
+      { concurrency: 3, converter: tracked }
+    ).done;
+
+    expect(maxRunning).toBe(3);
+    expect(stub.calls).toHaveLength(7);
+  });
+
+  it('should finish an empty batch', async () => {
+    const summary = await convertBatch([], OutputFormat.JPEG).done;
+
+    expect(summary).toMatchObject({ total: 0, succeeded: 0, failed: 0 });
+    expect(summary.files).toEqual([]);
+  });
+
+  it('should reject an invalid concurrency', () => {
+    expect(() =>
+      convertBatch([], OutputFormat.JPEG, {}, { concurrency: 0 })
+    ).toThrow('concurrency must be a positive integer');
+  });
+});
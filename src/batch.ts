@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { convertRawAsync, type Converter } from './convert.js';
+import { describeInput, RawConvertError, toRawConvertError } from './errors.js';
+import type {
+  ConversionOptions,
+  FormatQualityOptions,
+  OutputFormat,
+  OutputImage,
+} from './types.js';
+
+/**
+ * Options for convertBatch
+ */
+export interface BatchOptions {
+  /** Maximum number of conversions running at once (default: 4) */
+  concurrency?: number;
+  /** Converter that runs the conversions (default: the top-level convertRawAsync) */
+  converter?: Converter;
+}
+
+/**
+ * A file converted by a batch
+ */
+export interface BatchFileResult {
+  /** Position of the file in the batch's inputs */
+  index: number;
+  input: Buffer | string;
+  result: OutputImage;
+  /** Size of the RAW input in bytes */
+  bytesIn: number;
+  /** Size of the converted output in bytes */
+  bytesOut: number;
+  /** Time spent converting the file, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * A file that a batch failed to convert
+ */
+export interface BatchFileFailure {
+  /** Position of the file in the batch's inputs */
+  index: number;
+  input: Buffer | string;
+  error: RawConvertError;
+  /** Time spent before the conversion failed, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Outcome of one file, as listed in the batch summary
+ */
+export type BatchFileOutcome =
+  | ({ status: 'fulfilled' } & Omit<BatchFileResult, 'result'>)
+  | ({ status: 'rejected' } & BatchFileFailure);
+
+/**
+ * Progress of a batch, emitted after each file settles
+ */
+export interface BatchProgress {
+  /** Files settled so far, successful or not */
+  completed: number;
+  succeeded: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Summary of a finished batch. Output buffers are only delivered through
+ * fileDone events, so the summary does not keep every image in memory.
+ */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Total size of the successfully converted inputs in bytes */
+  bytesIn: number;
+  /** Total size of the outputs in bytes */
+  bytesOut: number;
+  /** Wall-clock time of the whole batch, in milliseconds */
+  durationMs: number;
+  /** Outcome of every file, in input order */
+  files: BatchFileOutcome[];
+}
+
+/**
+ * Events emitted by a BatchConversion
+ */
+export interface BatchEvents {
+  progress: [progress: BatchProgress];
+  fileDone: [file: BatchFileResult];
+  fileFailed: [file: BatchFileFailure];
+  done: [summary: BatchSummary];
+}
+
+/**
+ * A running batch conversion
+ */
+export class BatchConversion extends EventEmitter<BatchEvents> {
+  /** Resolves with the summary once every file has settled; failed files do not reject it */
+  readonly done: Promise<BatchSummary>;
+
+  /** Created by convertBatch, which supplies the function that runs the batch */
+  constructor(run: (batch: BatchConversion) => Promise<BatchSummary>) {
+    super();
+    this.done = run(this);
+  }
+}
+
+/**
+ * Get the size of a RAW input in bytes
+ */
+async function inputSize(input: Buffer | string): Promise<number> {
+  if (Buffer.isBuffer(input)) {
+    return input.length;
+  }
+  try {
+    return (await fs.stat(input)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Convert many RAW images with bounded concurrency. Every file settles
+ * independently: a failure is reported through fileFailed and does not stop
+ * the batch.
+ * @param inputs - Buffers containing RAW image data or file paths to RAW images
+ * @param outputFormat - Output format (enum value)
+ * @param options - Format-specific conversion options applied to every file
+ * @param batchOptions - Concurrency limit and converter
+ * @throws {RawConvertError} INVALID_OPTIONS if concurrency is not a positive integer
+ * @returns BatchConversion emitting progress, fileDone, fileFailed and done events
+ */
+export function convertBatch<F extends OutputFormat>(
+  inputs: readonly (Buffer | string)[],
+  outputFormat: F,
+  options?: ConversionOptions & FormatQualityOptions[F],
+  batchOptions: BatchOptions = {}
+): BatchConversion {
+  const concurrency = batchOptions.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RawConvertError(
+      'INVALID_OPTIONS',
+      `concurrency must be a positive integer, got ${concurrency}`
+    );
+  }
+  const convert = batchOptions.converter?.convertRawAsync ?? convertRawAsync;
+
+  return new BatchConversion(async (batch) => {
+    const start = performance.now();
+    const files: BatchFileOutcome[] = new Array(inputs.length);
+    const progress: BatchProgress = {
+      completed: 0,
+      succeeded: 0,
+      failed: 0,
+      total: inputs.length,
+    };
+
+    const convertFile = async (index: number) => {
+      const input = inputs[index];
+      const fileStart = performance.now();
+
+      let result: OutputImage;
+      try {
+        result = await convert(input, outputFormat, options);
+      } catch (error) {
+        const file: BatchFileFailure = {
+          index,
+          input,
+          error: toRawConvertError(error, { input: describeInput(input) }),
+          durationMs: performance.now() - fileStart,
+        };
+        files[index] = { status: 'rejected', ...file };
+        progress.failed++;
+        progress.completed++;
+        batch.emit('fileFailed', file);
+        batch.emit('progress', { ...progress });
+        return;
+      }
+
+      const outcome = {
+        index,
+        input,
+        bytesIn: await inputSize(input),
+        bytesOut: result.buffer.length,
+        durationMs: performance.now() - fileStart,
+      };
+      files[index] = { status: 'fulfilled', ...outcome };
+      progress.succeeded++;
+      progress.completed++;
+      batch.emit('fileDone', { ...outcome, result });
+      batch.emit('progress', { ...progress });
+    };
+
+    // Each worker takes the next unstarted file until none are left
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < inputs.length) {
+        await convertFile(nextIndex++);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, inputs.length) }, worker)
+    );
+
+    let bytesIn = 0;
+    let bytesOut = 0;
+    for (const file of files) {
+      if (file.status === 'fulfilled') {
+        bytesIn += file.bytesIn;
+        bytesOut += file.bytesOut;
+      }
+    }
+
+    const summary: BatchSummary = {
+      total: inputs.length,
+      succeeded: progress.succeeded,
+      failed: progress.failed,
+      bytesIn,
+      bytesOut,
+      durationMs: performance.now() - start,
+      files,
+    };
+    batch.emit('done', summary);
+    return summary;
+  });
+}
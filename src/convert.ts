@@ -0,0 +1,690 @@
+import { withAutoAdjust } from './auto-adjust.js';
+import {
+  getBackend,
+  type ConversionHandle,
+  type ConverterBackend,
+} from './backend.js';
+import { detectRawFormat } from './detect.js';
+import {
+  AbortError,
+  describeInput,
+  RawConvertError,
+  TimeoutError,
+  toRawConvertError,
+  type RawConvertErrorOptions,
+} from './errors.js';
+import { attachPixels } from './raw-output.js';
+import { recordTimeout } from './stats.js';
+import {
+  OutputFormat,
+  type ConversionOptions,
+  type FormatQualityOptions,
+  type InternalConversionOptions,
+  type InternalRendition,
+  type OutputImage,
+  type Rendition,
+} from './types.js';
+import {
+  isRenditionOption,
+  MAX_TIMEOUT_MS,
+  validateOptions,
+  validateRenditions,
+  type OptionIssue,
+} from './validate.js';
+import { resolveWhiteBalance } from './white-balance.js';
+
+/**
+ * Options for creating a converter
+ */
+export interface ConverterOptions {
+  /** Backend that performs the conversion (default: the active backend, see setBackend) */
+  backend?: ConverterBackend;
+}
+
+/**
+ * Conversion functions bound to a backend
+ */
+export interface Converter {
+  convertRaw<F extends OutputFormat>(
+    input: Buffer | string,
+    outputFormat: F,
+    options?: ConversionOptions & FormatQualityOptions[F]
+  ): OutputImage<F>;
+  convertRawAsync<F extends OutputFormat>(
+    input: Buffer | string,
+    outputFormat: F,
+    options?: ConversionOptions & FormatQualityOptions[F]
+  ): Promise<OutputImage<F>>;
+  convertRawMulti(
+    input: Buffer | string,
+    renditions: readonly Rendition[],
+    options?: ConversionOptions
+  ): OutputImage[];
+  convertRawMultiAsync(
+    input: Buffer | string,
+    renditions: readonly Rendition[],
+    options?: ConversionOptions
+  ): Promise<OutputImage[]>;
+}
+
+/**
+ * Check that the input is a non-empty Buffer or file path
+ * @throws {RawConvertError} INVALID_INPUT
+ * @returns The RawConvertError context for the input
+ */
+function checkInput(input: Buffer | string): RawConvertErrorOptions {
+  if (!Buffer.isBuffer(input) && typeof input !== 'string') {
+    throw new RawConvertError(
+      'INVALID_INPUT',
+      'Input must be a Buffer or file path string'
+    );
+  }
+
+  const context = { input: describeInput(input) };
+
+  if (Buffer.isBuffer(input) && input.length === 0) {
+    throw new RawConvertError(
+      'INVALID_INPUT',
+      'Input buffer is empty',
+      context
+    );
+  }
+
+  if (typeof input === 'string' && input.trim() === '') {
+    throw new RawConvertError(
+      'INVALID_INPUT',
+      'File path cannot be empty',
+      context
+    );
+  }
+
+  return context;
+}
+
+/**
+ * Normalize an output format to a supported OutputFormat
+ * @throws {RawConvertError} UNSUPPORTED_FORMAT
+ */
+function normalizeFormat(
+  outputFormat: unknown,
+  context: RawConvertErrorOptions
+): OutputFormat {
+  if (typeof outputFormat !== 'string' || outputFormat.trim() === '') {
+    throw new RawConvertError(
+      'UNSUPPORTED_FORMAT',
+      'Output format must be a non-empty string',
+      context
+    );
+  }
+
+  const normalizedFormat = outputFormat.toLowerCase().trim() as OutputFormat;
+  const supportedFormats = Object.values(OutputFormat);
+
+  if (!supportedFormats.includes(normalizedFormat)) {
+    throw new RawConvertError(
+      'UNSUPPORTED_FORMAT',
+      `Unsupported output format: ${outputFormat}. Supported formats: ${supportedFormats.join(', ')}`,
+      { ...context, format: outputFormat }
+    );
+  }
+
+  return normalizedFormat;
+}
+
+/**
+ * Throw or warn about option issues, depending on options.strict
+ * @throws {RawConvertError} INVALID_OPTIONS if options.strict is set
+ */
+function reportIssues(
+  issues: OptionIssue[],
+  options: InternalConversionOptions,
+  context: RawConvertErrorOptions
+): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const message = `Invalid conversion options: ${issues.map((issue) => issue.message).join('; ')}`;
+  if (options.strict === true) {
+    throw new RawConvertError('INVALID_OPTIONS', message, {
+      ...context,
+      issues,
+    });
+  }
+  process.emitWarning(message, {
+    type: 'RawConvertWarning',
+    code: 'INVALID_OPTIONS',
+  });
+}
+
+/**
+ * Separate the options handled by the converter from those for the backend,
+ * resolve whiteBalance, and resolve inputFormat for Buffer inputs
+ * @throws {RawConvertError} UNSUPPORTED_FORMAT if the RAW format of a Buffer cannot be detected
+ * @throws {AbortError} If options.signal is already aborted
+ */
+function resolveOptions(
+  input: Buffer | string,
+  options: InternalConversionOptions,
+  context: RawConvertErrorOptions
+): {
+  options: InternalConversionOptions;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+} {
+  const { signal, timeoutMs, ...backendOptions } = options;
+  if (signal?.aborted) {
+    throw new AbortError({ ...context, cause: signal.reason });
+  }
+  let mergedOptions = resolveWhiteBalance(backendOptions);
+
+  // Resolve inputFormat for Buffer inputs from the data itself
+  if (Buffer.isBuffer(input)) {
+    const detectedFormat = detectRawFormat(input);
+
+    if (!mergedOptions.inputFormat) {
+      if (!detectedFormat) {
+        throw new RawConvertError(
+          'UNSUPPORTED_FORMAT',
+          'inputFormat is required when input is a Buffer whose RAW format cannot be detected',
+          context
+        );
+      }
+      mergedOptions = { ...mergedOptions, inputFormat: detectedFormat };
+    } else if (
+      detectedFormat &&
+      mergedOptions.inputFormat !== 'raw' &&
+      mergedOptions.inputFormat !== detectedFormat
+    ) {
+      process.emitWarning(
+        `inputFormat '${mergedOptions.inputFormat}' does not match the detected RAW format '${detectedFormat}'`,
+        { type: 'RawConvertWarning', code: 'RAW_FORMAT_MISMATCH' }
+      );
+    }
+  }
+
+  return { options: mergedOptions, signal, timeoutMs };
+}
+
+/**
+ * Check that options are an object
+ * @throws {RawConvertError} INVALID_OPTIONS
+ */
+function checkOptions(
+  options: ConversionOptions | undefined,
+  context: RawConvertErrorOptions
+): InternalConversionOptions {
+  const checked: InternalConversionOptions = options || {};
+
+  if (checked !== null && typeof checked !== 'object') {
+    throw new RawConvertError(
+      'INVALID_OPTIONS',
+      'Options must be an object',
+      context
+    );
+  }
+
+  return checked;
+}
+
+/**
+ * Validate conversion arguments and normalize them for the backend
+ * @throws {RawConvertError} INVALID_INPUT, UNSUPPORTED_FORMAT or INVALID_OPTIONS
+ * @throws {AbortError} If options.signal is already aborted
+ * @returns The normalized output format, the options for the backend, and the
+ * abort signal and timeout handled by the converter
+ */
+function prepareConversion(
+  input: Buffer | string,
+  outputFormat: OutputFormat,
+  options: ConversionOptions | undefined
+): {
+  format: OutputFormat;
+  options: InternalConversionOptions;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+} {
+  const context = checkInput(input);
+  const format = normalizeFormat(outputFormat, context);
+  const formatContext = { ...context, format };
+  const checkedOptions = checkOptions(options, formatContext);
+
+  reportIssues(
+    validateOptions(format, checkedOptions),
+    checkedOptions,
+    formatContext
+  );
+
+  return { format, ...resolveOptions(input, checkedOptions, formatContext) };
+}
+
+/**
+ * Pick the quality options of a rendition. Other options were reported by
+ * validateRenditions and are dropped, so every backend renders each rendition
+ * from the shared decode in the same way.
+ */
+function qualityOptions(rendition: Rendition): InternalConversionOptions {
+  return Object.fromEntries(
+    Object.entries(rendition.options ?? {}).filter(([key]) =>
+      isRenditionOption(key)
+    )
+  );
+}
+
+/**
+ * Validate multi-output conversion arguments and normalize them for the backend
+ * @throws {RawConvertError} INVALID_INPUT, UNSUPPORTED_FORMAT or INVALID_OPTIONS
+ * @throws {AbortError} If options.signal is already aborted
+ * @returns The renditions with the shared options merged in, the shared
+ * options for the decode, and the abort signal and timeout handled by the converter
+ */
+function prepareMultiConversion(
+  input: Buffer | string,
+  renditions: readonly Rendition[],
+  options: ConversionOptions | undefined
+): {
+  format: string;
+  renditions: InternalRendition[];
+  options: InternalConversionOptions;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+} {
+  const context = checkInput(input);
+
+  if (!Array.isArray(renditions) || renditions.length === 0) {
+    throw new RawConvertError(
+      'INVALID_OPTIONS',
+      'renditions must be a non-empty array',
+      context
+    );
+  }
+
+  const normalized = renditions.map((rendition) => {
+    if (rendition === null || typeof rendition !== 'object') {
+      throw new RawConvertError(
+        'INVALID_OPTIONS',
+        'Each rendition must be an object',
+        context
+      );
+    }
+    return {
+      ...rendition,
+      format: normalizeFormat(rendition.format, context),
+    } as Rendition;
+  });
+
+  const format = normalized.map((rendition) => rendition.format).join(',');
+  const formatContext = { ...context, format };
+  const checkedOptions = checkOptions(options, formatContext);
+
+  reportIssues(
+    validateRenditions(normalized, checkedOptions),
+    checkedOptions,
+    formatContext
+  );
+
+  const resolved = resolveOptions(input, checkedOptions, formatContext);
+  return {
+    format,
+    renditions: normalized.map((rendition) => ({
+      format: rendition.format,
+      options: { ...resolved.options, ...qualityOptions(rendition) },
+      scale: rendition.scale ?? 1.0,
+    })),
+    ...resolved,
+  };
+}
+
+/**
+ * Build the RawConvertError context of a validated conversion
+ */
+function errorContext(
+  input: Buffer | string,
+  prepared: { format: string; options: InternalConversionOptions }
+): RawConvertErrorOptions {
+  return {
+    input: describeInput(input),
+    format: prepared.format,
+    inputFormat: prepared.options.inputFormat,
+  };
+}
+
+/**
+ * Options for a single conversion run by a backend without multi-output
+ * support, with the rendition's scale folded into scaleFactor
+ */
+function renditionOptions(
+  rendition: InternalRendition
+): InternalConversionOptions {
+  return {
+    ...rendition.options,
+    scaleFactor: (rendition.options.scaleFactor ?? 1.0) * rendition.scale,
+  };
+}
+
+/**
+ * Settle a backend async call, honouring the abort signal and timeout
+ * @param start - Starts the backend call with the given callback
+ * @param context - RawConvertError context of the conversion
+ * @param prepared - Abort signal and timeout of the conversion
+ * @param resolve - Called with the result
+ * @param reject - Called with a RawConvertError
+ */
+function settleBackendCall<T>(
+  start: (
+    callback: (error: Error | null, result?: T) => void
+  ) => ConversionHandle | void,
+  context: RawConvertErrorOptions,
+  { signal, timeoutMs }: { signal?: AbortSignal; timeoutMs?: number },
+  resolve: (result: T) => void,
+  reject: (error: unknown) => void
+): void {
+  let onAbort: (() => void) | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let settled = false;
+
+  const cleanup = () => {
+    clearTimeout(timer);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  // Call backend async function; it may also throw before it starts
+  let handle: ConversionHandle | void;
+  try {
+    handle = start((error, result) => {
+      settled = true;
+      cleanup();
+      if (error) {
+        reject(toRawConvertError(error, context));
+      } else if (result) {
+        resolve(result);
+      } else {
+        reject(
+          new RawConvertError(
+            'UNKNOWN',
+            'Unknown error occurred during conversion',
+            context
+          )
+        );
+      }
+    });
+  } catch (error) {
+    reject(toRawConvertError(error, context));
+    return;
+  }
+
+  // A backend that called back synchronously needs no abort listener or timer
+  if (settled) {
+    return;
+  }
+
+  if (signal) {
+    onAbort = () => {
+      // Stop the backend and drop the result; the promise settles now
+      cleanup();
+      handle?.cancel();
+      reject(new AbortError({ ...context, cause: signal.reason }));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (timeoutMs !== undefined) {
+    // Longer timeouts are reported by validation; without strict they are
+    // clamped rather than firing at once
+    timer = setTimeout(
+      () => {
+        cleanup();
+        handle?.cancel();
+        recordTimeout();
+        reject(new TimeoutError(timeoutMs, context));
+      },
+      Math.min(timeoutMs, MAX_TIMEOUT_MS)
+    );
+  }
+}
+
+/**
+ * Run one async conversion per rendition on a backend without multi-output
+ * support. The first failure cancels the remaining conversions.
+ */
+function convertEachAsync(
+  backend: ConverterBackend,
+  input: Buffer | string,
+  renditions: InternalRendition[],
+  callback: (error: Error | null, results?: OutputImage[]) => void
+): ConversionHandle {
+  const results: OutputImage[] = new Array(renditions.length);
+  const handles: (ConversionHandle | void)[] = [];
+  let remaining = renditions.length;
+  let settled = false;
+
+  const cancel = () => {
+    settled = true;
+    handles.forEach((handle) => handle?.cancel());
+  };
+
+  try {
+    renditions.forEach((rendition, index) => {
+      handles.push(
+        backend.convertRawAsync(
+          input,
+          rendition.format,
+          renditionOptions(rendition),
+          (error, result) => {
+            if (settled) {
+              return;
+            }
+            if (error || !result) {
+              cancel();
+              callback(error);
+              return;
+            }
+            results[index] = result;
+            if (--remaining === 0) {
+              settled = true;
+              callback(null, results);
+            }
+          }
+        )
+      );
+    });
+  } catch (error) {
+    // Stop the conversions already started before reporting the error
+    cancel();
+    throw error;
+  }
+
+  return { cancel };
+}
+
+/**
+ * Create conversion functions that use a specific backend
+ * @param converterOptions - Converter configuration
+ * @returns Converter whose functions call the given backend
+ */
+export function createConverter(
+  converterOptions: ConverterOptions = {}
+): Converter {
+  const resolveBackend = () =>
+    withAutoAdjust(converterOptions.backend ?? getBackend());
+
+  return {
+    convertRaw(input, outputFormat, options) {
+      const prepared = prepareConversion(input, outputFormat, options);
+      const backend = resolveBackend();
+
+      try {
+        return attachPixels(
+          backend.convertRaw(input, prepared.format, prepared.options),
+          outputFormat
+        );
+      } catch (error) {
+        throw toRawConvertError(error, errorContext(input, prepared));
+      }
+    },
+
+    convertRawAsync(input, outputFormat, options) {
+      return new Promise((resolve, reject) => {
+        let prepared: ReturnType<typeof prepareConversion>;
+        let backend: ConverterBackend;
+        try {
+          prepared = prepareConversion(input, outputFormat, options);
+          backend = resolveBackend();
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        // The native extension now returns OutputImage object for all formats
+        settleBackendCall<OutputImage>(
+          (callback) =>
+            backend.convertRawAsync(
+              input,
+              prepared.format,
+              prepared.options,
+              callback
+            ),
+          errorContext(input, prepared),
+          prepared,
+          (result) => resolve(attachPixels(result, outputFormat)),
+          reject
+        );
+      });
+    },
+
+    convertRawMulti(input, renditions, options) {
+      const prepared = prepareMultiConversion(input, renditions, options);
+      const backend = resolveBackend();
+
+      try {
+        const results = backend.convertRawMulti
+          ? backend.convertRawMulti(
+              input,
+              prepared.renditions,
+              prepared.options
+            )
+          : prepared.renditions.map((rendition) =>
+              backend.convertRaw(
+                input,
+                rendition.format,
+                renditionOptions(rendition)
+              )
+            );
+        return results.map((result, index) =>
+          attachPixels(result, prepared.renditions[index].format)
+        );
+      } catch (error) {
+        throw toRawConvertError(error, errorContext(input, prepared));
+      }
+    },
+
+    convertRawMultiAsync(input, renditions, options) {
+      return new Promise((resolve, reject) => {
+        let prepared: ReturnType<typeof prepareMultiConversion>;
+        let backend: ConverterBackend;
+        try {
+          prepared = prepareMultiConversion(input, renditions, options);
+          backend = resolveBackend();
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        settleBackendCall<OutputImage[]>(
+          (callback) =>
+            backend.convertRawMultiAsync
+              ? backend.convertRawMultiAsync(
+                  input,
+                  prepared.renditions,
+                  prepared.options,
+                  callback
+                )
+              : convertEachAsync(backend, input, prepared.renditions, callback),
+          errorContext(input, prepared),
+          prepared,
+          (results) =>
+            resolve(
+              results.map((result, index) =>
+                attachPixels(result, prepared.renditions[index].format)
+              )
+            ),
+          reject
+        );
+      });
+    },
+  };
+}
+
+const defaultConverter = createConverter();
+
+/**
+ * Convert a RAW image to the specified format with type-safe options
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @param format - Output format (enum value)
+ * @param options - Format-specific conversion options
+ * @throws {RawConvertError} If the input or options are invalid, or the conversion fails
+ * @returns OutputImage containing buffer and optional metadata
+ */
+export function convertRaw<F extends OutputFormat>(
+  input: Buffer | string,
+  outputFormat: F,
+  options?: ConversionOptions & FormatQualityOptions[F]
+): OutputImage<F> {
+  return defaultConverter.convertRaw(input, outputFormat, options);
+}
+
+/**
+ * Convert a RAW image to the specified format asynchronously with type-safe options
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @param format - Output format (enum value)
+ * @param options - Format-specific conversion options
+ * @throws {RawConvertError} If the input or options are invalid, or the conversion fails
+ * @throws {AbortError} If options.signal is aborted before the conversion completes
+ * @throws {TimeoutError} If options.timeoutMs expires before the conversion completes
+ * @returns Promise<OutputImage> containing buffer and optional metadata
+ */
+export function convertRawAsync<F extends OutputFormat>(
+  input: Buffer | string,
+  outputFormat: F,
+  options?: ConversionOptions & FormatQualityOptions[F]
+): Promise<OutputImage<F>> {
+  return defaultConverter.convertRawAsync(input, outputFormat, options);
+}
+
+/**
+ * Convert a RAW image to several outputs from a single decode. The options
+ * apply to the decode and are shared by every output; each rendition adds its
+ * own quality options and a scale relative to the decoded image.
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @param renditions - Output format, quality options and scale of each output
+ * @param options - Conversion options shared by every output
+ * @throws {RawConvertError} If the input, renditions or options are invalid, or the conversion fails
+ * @returns One OutputImage per rendition, in the same order
+ */
+export function convertRawMulti(
+  input: Buffer | string,
+  renditions: readonly Rendition[],
+  options?: ConversionOptions
+): OutputImage[] {
+  return defaultConverter.convertRawMulti(input, renditions, options);
+}
+
+/**
+ * Convert a RAW image to several outputs from a single decode, asynchronously
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @param renditions - Output format, quality options and scale of each output
+ * @param options - Conversion options shared by every output
+ * @throws {RawConvertError} If the input, renditions or options are invalid, or the conversion fails
+ * @throws {AbortError} If options.signal is aborted before the conversion completes
+ * @throws {TimeoutError} If options.timeoutMs expires before the conversion completes
+ * @returns Promise resolving to one OutputImage per rendition, in the same order
+ */
+export function convertRawMultiAsync(
+  input: Buffer | string,
+  renditions: readonly Rendition[],
+  options?: ConversionOptions
+): Promise<OutputImage[]> {
+  return defaultConverter.convertRawMultiAsync(input, renditions, options);
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCrop } from './crop.js';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+} from './index.js';
+
+// Fractions are compared loosely because they go through floating-point sums
+const region = (left: number, top: number, width: number, height: number) => ({
+  left: expect.closeTo(left),
+  top: expect.closeTo(top),
+  width: expect.closeTo(width),
+  height: expect.closeTo(height),
+});
+
+describe('resolveCrop', () => {
+  it('should convert a pixel region to fractions of the image', () => {
+    expect(
+      resolveCrop(600, 400, { left: 150, top: 100, width: 300, height: 200 })
+    ).toEqual({ left: 0.25, top: 0.25, width: 0.5, height: 0.5 });
+  });
+
+  it('should measure pixel regions in full-size source pixels', () => {
+    expect(
+      resolveCrop(
+        300,
+        200,
+        { left: 150, top: 100, width: 300, height: 200 },
+        0.5
+      )
+    ).toEqual({ left: 0.25, top: 0.25, width: 0.5, height: 0.5 });
+  });
+
+  it('should use normalized regions as they are', () => {
+    expect(
+      resolveCrop(600, 400, {
+        left: 0.1,
+        top: 0.2,
+        width: 0.5,
+        height: 0.5,
+        normalized: true,
+      })
+    ).toEqual(region(0.1, 0.2, 0.5, 0.5));
+  });
+
+  it('should clamp regions to the image', () => {
+    expect(
+      resolveCrop(600, 400, { left: 300, top: 0, width: 600, height: 800 })
+    ).toEqual({ left: 0.5, top: 0, width: 0.5, height: 1 });
+    expect(
+      resolveCrop(600, 400, { left: 700, top: 0, width: 10, height: 10 })
+    ).toMatchObject({ width: 0 });
+  });
+
+  it('should centre an aspect ratio crop', () => {
+    expect(resolveCrop(600, 400, { aspectRatio: 1 })).toEqual(
+      region(1 / 6, 0, 2 / 3, 1)
+    );
+    expect(resolveCrop(600, 400, { aspectRatio: 3 })).toEqual(
+      region(0, 0.25, 1, 0.5)
+    );
+  });
+});
+
+describe('crop option', () => {
+  it('should report the cropped dimensions in the output metadata', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 600, height: 400 }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+      inputFormat: 'arw',
+      extractMetadata: true,
+      crop: { aspectRatio: 16 / 9 },
+    });
+
+    expect(result.metadata).toMatchObject({ width: 600, height: 338 });
+    expect(result.buffer.length).toBe(600 * 338 * 3);
+  });
+
+  it('should crop before resizing', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 600, height: 400 }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      extractMetadata: true,
+      crop: { left: 0, top: 0, width: 0.5, height: 1, normalized: true },
+      resize: { width: 150 },
+    });
+
+    expect(result.metadata).toMatchObject({ width: 150, height: 200 });
+  });
+
+  it('should fail when the region is outside the image', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 600, height: 400 }),
+    });
+
+    expect(() =>
+      converter.convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+        inputFormat: 'arw',
+        crop: { left: 1000, top: 0, width: 100, height: 100 },
+      })
+    ).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_OPTIONS',
+        message: 'Crop region is outside the image',
+      })
+    );
+  });
+
+  it('should validate crop options', () => {
+    const messages = (crop: unknown) =>
+      validateOptions(OutputFormat.JPEG, { crop }).map(
+        (issue) => issue.message
+      );
+
+    expect(messages({ left: -1, top: 0, width: 0, height: 10 })).toEqual([
+      'crop.left must be at least 0, got -1',
+      'crop.width must be greater than 0, got 0',
+    ]);
+    expect(messages({ left: 0, top: 0, width: 10 })).toEqual([
+      'crop must set left, top, width and height, or aspectRatio',
+    ]);
+    expect(messages({ aspectRatio: 1, left: 0 })).toEqual([
+      'crop must set either aspectRatio or a region, not both',
+    ]);
+    expect(
+      messages({
+        left: 0.5,
+        top: 0.7,
+        width: 0.6,
+        height: 0.3,
+        normalized: true,
+      })
+    ).toEqual([
+      'crop.left + crop.width must be at most 1 when normalized, got 1.1',
+    ]);
+    expect(messages({ aspectRatio: 4 / 3 })).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import type { CropOptions } from './types.js';
+
+/**
+ * A crop region as fractions of the decoded image, from its top-left corner
+ */
+export interface CropFractions {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Work out the region of the decoded image to keep, clamped to the image. The
+ * native addon implements the same rules in ResolveCrop.
+ * @param decodedWidth - Width of the image decoded at scaleFactor, in pixels
+ * @param decodedHeight - Height of the image decoded at scaleFactor, in pixels
+ * @param crop - Crop region or aspect ratio
+ * @param scaleFactor - Scale the image was decoded at, so pixel regions can be
+ * given in full-size source pixels
+ * @returns The region to keep; width or height is 0 when the region lies
+ * outside the image
+ */
+export function resolveCrop(
+  decodedWidth: number,
+  decodedHeight: number,
+  crop: CropOptions,
+  scaleFactor = 1.0
+): CropFractions {
+  if ('aspectRatio' in crop) {
+    // Largest centred region with the requested aspect ratio
+    const imageRatio = decodedWidth / decodedHeight;
+    const width = Math.min(1, crop.aspectRatio / imageRatio);
+    const height = Math.min(1, imageRatio / crop.aspectRatio);
+    return { left: (1 - width) / 2, top: (1 - height) / 2, width, height };
+  }
+
+  const sourceWidth = crop.normalized ? 1 : decodedWidth / scaleFactor;
+  const sourceHeight = crop.normalized ? 1 : decodedHeight / scaleFactor;
+  const left = Math.max(0, crop.left / sourceWidth);
+  const top = Math.max(0, crop.top / sourceHeight);
+  const right = Math.min(1, (crop.left + crop.width) / sourceWidth);
+  const bottom = Math.min(1, (crop.top + crop.height) / sourceHeight);
+  return {
+    left,
+    top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  deflickerSequence,
+  type ConverterBackend,
+  type OutputImage,
+} from './index.js';
+import { buildExposureRaw } from './test-fixtures.js';
+
+// Backend that renders each frame as a flat grey draft of the given level
+function greyBackend(levels: Map<Buffer | string, number>): ConverterBackend {
+  const render = (input: Buffer | string): OutputImage => ({
+    buffer: Buffer.alloc(4 * 3 * 3, levels.get(input)),
+    raw: {
+      width: 4,
+      height: 3,
+      channels: 3,
+      bitDepth: 8,
+      sampleFormat: 'uint',
+      stride: 12,
+      colorSpace: 'srgb',
+    },
+  });
+  return {
+    convertRaw: (input) => render(input),
+    convertRawAsync: (input, _format, _options, callback) => {
+      const timer = setTimeout(() => callback(null, render(input)));
+      return { cancel: () => clearTimeout(timer) };
+    },
+  };
+}
+
+describe('deflickerSequence', () => {
+  it('should bring flickering frames to the smoothed brightness', async () => {
+    const frames = [100, 120, 100, 120, 100].map(() =>
+      buildExposureRaw({ shutterSpeed: 1 / 125, fNumber: 8, iso: 100 })
+    );
+    const levels = new Map(
+      frames.map((frame, index) => [frame, index % 2 ? 120 : 100])
+    );
+    const converter = createConverter({ backend: greyBackend(levels) });
+
+    const result = await deflickerSequence(frames, {
+      windowSize: 3,
+      converter,
+    });
+
+    expect(result.map((frame) => frame.input)).toEqual(frames);
+    expect(result[1].brightness).toBeGreaterThan(result[0].brightness);
+    expect(result[1].exposure).toBeLessThan(0);
+    expect(result[2].exposure).toBeGreaterThan(0);
+    // Each corrected frame lands on the average of its window
+    for (const [index, frame] of result.entries()) {
+      const window = result.slice(Math.max(0, index - 1), index + 2);
+      const average =
+        window.reduce((sum, other) => sum + other.brightness, 0) /
+        window.length;
+      expect(frame.brightness + frame.exposure).toBeCloseTo(average);
+    }
+  });
+
+  it('should compensate drafts for the camera exposure from EXIF', async () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+    const frames = [
+      buildExposureRaw({ shutterSpeed: 1 / 100, fNumber: 8, iso: 100 }),
+      buildExposureRaw({ shutterSpeed: 1 / 50, fNumber: 8, iso: 100 }),
+    ];
+
+    const result = await deflickerSequence(frames, {
+      windowSize: 3,
+      converter,
+      options: {
+        exposure: 0.5,
+        resize: { width: 100 },
+        colorSpace: 'linear-srgb',
+        toneCurve: [
+          [0, 0.2],
+          [1, 1],
+        ],
+        lut: { buffer: Buffer.from('LUT_1D_SIZE 2\n0 0 0\n0.5 0.5 0.5\n') },
+        extractMetadata: true,
+      },
+    });
+
+    expect(stub.calls.map((call) => call.format)).toEqual(['rgb', 'rgb']);
+    // Drafts are rendered like auto adjust drafts: sRGB and ungraded
+    expect(stub.calls[0].options).toEqual({
+      inputFormat: 'arw',
+      exposure: 1,
+      allowDraftMode: true,
+      scaleFactor: 0.125,
+      preserveExifData: false,
+    });
+    expect(stub.calls[1].options.exposure).toBeCloseTo(0);
+    // The stub renders the same grey whatever the exposure, so the second
+    // frame, which gathered a stop more light, measures one stop brighter
+    expect(result[0].brightness - result[1].brightness).toBeCloseTo(-1);
+    expect(result[0].exposure).toBeCloseTo(0.5);
+    expect(result[1].exposure).toBeCloseTo(-0.5);
+  });
+
+  it('should leave frames unchanged with a window of one', async () => {
+    const converter = createConverter({ backend: createStubBackend() });
+    const frames = [1, 2, 3].map(() => buildExposureRaw({}));
+
+    const result = await deflickerSequence(frames, {
+      windowSize: 1,
+      converter,
+    });
+
+    expect(result.map((frame) => frame.exposure)).toEqual([0, 0, 0]);
+  });
+
+  it('should reject an invalid window size', async () => {
+    await expect(
+      deflickerSequence([buildExposureRaw({})], { windowSize: 0 })
+    ).rejects.toMatchObject({
+      code: 'INVALID_OPTIONS',
+      message: 'windowSize must be a positive integer, got 0',
+    });
+  });
+});
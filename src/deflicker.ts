@@ -0,0 +1,108 @@
+import { analyzeDraft, draftOptions, MIDDLE_GREY } from './auto-adjust.js';
+import { convertRawAsync, type Converter } from './convert.js';
+import { describeInput, RawConvertError, toRawConvertError } from './errors.js';
+import { readMetadata } from './metadata.js';
+import { captureStops } from './sync.js';
+import { OutputFormat, type ConversionOptions } from './types.js';
+
+/**
+ * Options for deflickerSequence
+ */
+export interface DeflickerOptions {
+  /**
+   * Number of frames averaged into the smoothed brightness of each frame,
+   * centred on it (default: 5)
+   */
+  windowSize?: number;
+  /** Options the frames will be converted with (default: none) */
+  options?: ConversionOptions;
+  /** Converter that renders the drafts (default: the top-level convertRawAsync) */
+  converter?: Converter;
+}
+
+/**
+ * Exposure offset for one frame of a sequence
+ */
+export interface DeflickerFrame {
+  input: Buffer | string;
+  /** Measured brightness of the frame in stops, relative to middle grey */
+  brightness: number;
+  /** Exposure change in EV that brings the frame to the smoothed brightness */
+  exposure: number;
+}
+
+/**
+ * Work out exposure offsets that remove flicker from a time-lapse sequence.
+ *
+ * Each frame is rendered as a small draft and its brightness measured from
+ * the log-average luminance. Changes the camera made to shutter speed,
+ * aperture and ISO, read from EXIF, are compensated in the drafts, so they are
+ * measured at a similar exposure even when the camera's settings swing by
+ * several stops; the compensation is taken back out of the measurement. The
+ * brightness curve is smoothed with a moving average, and each frame's offset
+ * is the difference between the smoothed and the measured brightness. Add the
+ * offsets to the exposure each frame is converted with.
+ * @param files - Buffers or file paths of the frames, in sequence order
+ * @param deflickerOptions - Smoothing window, conversion options and converter
+ * @throws {RawConvertError} INVALID_OPTIONS if windowSize is not a positive
+ * integer, or the error of the first frame that cannot be read or rendered
+ * @returns A promise resolving to the offset of every frame, in input order
+ */
+export async function deflickerSequence(
+  files: readonly (Buffer | string)[],
+  deflickerOptions: DeflickerOptions = {}
+): Promise<DeflickerFrame[]> {
+  const windowSize = deflickerOptions.windowSize ?? 5;
+  if (!Number.isInteger(windowSize) || windowSize < 1) {
+    throw new RawConvertError(
+      'INVALID_OPTIONS',
+      `windowSize must be a positive integer, got ${windowSize}`
+    );
+  }
+  const convert =
+    deflickerOptions.converter?.convertRawAsync ?? convertRawAsync;
+  const { autoAdjust, ...options } = deflickerOptions.options ?? {};
+
+  // Camera exposure of each frame, relative to the average of the sequence
+  const stops = files.map((file) => captureStops(readMetadata(file)));
+  const recorded = stops.filter((value) => value !== undefined);
+  const averageStops =
+    recorded.reduce((sum, value) => sum + value, 0) /
+    Math.max(1, recorded.length);
+
+  const brightness: number[] = [];
+  for (const [index, file] of files.entries()) {
+    const compensation = averageStops - (stops[index] ?? averageStops);
+    let draft;
+    try {
+      draft = await convert(
+        file,
+        OutputFormat.RGB,
+        draftOptions({
+          ...options,
+          exposure: (options.exposure ?? 0) + compensation,
+        })
+      );
+    } catch (error) {
+      throw toRawConvertError(error, { input: describeInput(file) });
+    }
+    const { luminance } = analyzeDraft(draft, 'grey-world');
+    brightness.push(Math.log2(luminance / MIDDLE_GREY) - compensation);
+  }
+
+  // Centred moving average, narrowed at the ends of the sequence
+  const half = Math.floor(windowSize / 2);
+  return files.map((input, index) => {
+    const window = brightness.slice(
+      Math.max(0, index - half),
+      Math.min(files.length, index + windowSize - half)
+    );
+    const smoothed =
+      window.reduce((sum, value) => sum + value, 0) / window.length;
+    return {
+      input,
+      brightness: brightness[index],
+      exposure: smoothed - brightness[index],
+    };
+  });
+}
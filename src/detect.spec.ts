@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  convertRaw,
+  createStubBackend,
+  detectRawFormat,
+  OutputFormat,
+  setBackend,
+} from './index.js';
+import { buildTiff } from './test-fixtures.js';
+import { TiffTag } from './tiff.js';
+
+function tiffWithMake(make: string, extra: { dng?: boolean } = {}) {
+  return buildTiff([
+    {
+      entries: [
+        { tag: TiffTag.Make, type: 2, values: make },
+        ...(extra.dng
+          ? [{ tag: TiffTag.DNGVersion, type: 1, values: [1, 4, 0, 0] }]
+          : []),
+      ],
+    },
+  ]);
+}
+
+function withHeader(header: string, offset: number = 0) {
+  const buffer = Buffer.alloc(64);
+  buffer.write(header, offset, 'latin1');
+  return buffer;
+}
+
+describe('detectRawFormat', () => {
+  it.each([
+    ['SONY', 'arw'],
+    ['NIKON CORPORATION', 'nef'],
+    ['Canon', 'cr2'],
+    ['PENTAX Corporation', 'pef'],
+    ['RICOH IMAGING COMPANY, LTD.', 'pef'],
+    ['SAMSUNG', 'srw'],
+    ['OLYMPUS IMAGING CORP.', 'orf'],
+    ['Panasonic', 'rw2'],
+  ])('should map Make %s to %s', (make, format) => {
+    expect(detectRawFormat(tiffWithMake(make))).toBe(format);
+  });
+
+  it('should prefer DNGVersion over Make', () => {
+    expect(detectRawFormat(tiffWithMake('Hasselblad', { dng: true }))).toBe(
+      'dng'
+    );
+    expect(detectRawFormat(tiffWithMake('PENTAX', { dng: true }))).toBe('dng');
+  });
+
+  it('should recognise TIFF variants by their headers', () => {
+    const cr2 = buildTiff([{ entries: [] }], {
+      afterHeader: Buffer.from([0x43, 0x52, 0x02, 0x00, 0, 0, 0, 0]),
+    });
+    expect(detectRawFormat(cr2)).toBe('cr2');
+    expect(
+      detectRawFormat(buildTiff([{ entries: [] }], { magic: 0x4f52 }))
+    ).toBe('orf');
+    expect(detectRawFormat(buildTiff([{ entries: [] }], { magic: 0x55 }))).toBe(
+      'rw2'
+    );
+  });
+
+  it('should recognise non-TIFF containers by their magic bytes', () => {
+    expect(detectRawFormat(withHeader('FUJIFILMCCD-RAW 0201'))).toBe('raf');
+    expect(detectRawFormat(withHeader('FOVb'))).toBe('x3f');
+    expect(detectRawFormat(withHeader('ftypcrx ', 4))).toBe('cr3');
+  });
+
+  it('should return undefined for unknown data', () => {
+    expect(detectRawFormat(Buffer.from('definitely not a raw file'))).toBe(
+      undefined
+    );
+    expect(detectRawFormat(tiffWithMake('Hasselblad'))).toBeUndefined();
+    expect(detectRawFormat(Buffer.alloc(0))).toBeUndefined();
+  });
+});
+
+describe('inputFormat resolution', () => {
+  afterEach(() => {
+    setBackend(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('should pass the detected format to the backend when omitted', () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+
+    convertRaw(tiffWithMake('SONY'), OutputFormat.JPEG);
+
+    expect(stub.calls[0].options.inputFormat).toBe('arw');
+  });
+
+  it('should require inputFormat when the format cannot be detected', () => {
+    setBackend(createStubBackend());
+
+    expect(() =>
+      convertRaw(Buffer.from('definitely not a raw file'), OutputFormat.JPEG)
+    ).toThrow('inputFormat is required when input is a Buffer');
+  });
+
+  it('should warn when the declared format does not match the data', () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+    const emitWarning = vi
+      .spyOn(process, 'emitWarning')
+      .mockImplementation(() => {});
+
+    convertRaw(tiffWithMake('SONY'), OutputFormat.JPEG, { inputFormat: 'nef' });
+
+    expect(emitWarning).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "'nef' does not match the detected RAW format 'arw'"
+      ),
+      expect.objectContaining({ code: 'RAW_FORMAT_MISMATCH' })
+    );
+    // The declared format is still used
+    expect(stub.calls[0].options.inputFormat).toBe('nef');
+  });
+});
@@ -0,0 +1,77 @@
+import { isTiff, TiffReader, TiffTag } from './tiff.js';
+import type { RawInputFormat } from './types.js';
+
+// Camera makers whose TIFF-based RAW format is identified by the Make tag
+const FORMATS_BY_MAKE: [prefix: string, format: RawInputFormat][] = [
+  ['SONY', 'arw'],
+  ['NIKON', 'nef'],
+  ['CANON', 'cr2'],
+  ['PENTAX', 'pef'],
+  ['ASAHI', 'pef'],
+  ['RICOH', 'pef'],
+  ['SAMSUNG', 'srw'],
+  ['OLYMPUS', 'orf'],
+  ['OM DIGITAL', 'orf'],
+  ['PANASONIC', 'rw2'],
+];
+
+/**
+ * Detect the RAW format of a buffer from its magic bytes and, for TIFF-based
+ * formats, the DNGVersion and Make tags of IFD0
+ * @param buffer - Buffer containing RAW image data
+ * @returns The detected format, or undefined if it is not recognised
+ */
+export function detectRawFormat(buffer: Buffer): RawInputFormat | undefined {
+  if (!Buffer.isBuffer(buffer) || buffer.length < 12) {
+    return undefined;
+  }
+
+  if (buffer.toString('latin1', 0, 15) === 'FUJIFILMCCD-RAW') {
+    return 'raf';
+  }
+  if (buffer.toString('latin1', 0, 4) === 'FOVb') {
+    return 'x3f';
+  }
+  if (buffer.toString('latin1', 4, 12) === 'ftypcrx ') {
+    return 'cr3';
+  }
+
+  if (!isTiff(buffer)) {
+    return undefined;
+  }
+
+  const reader = new TiffReader(buffer);
+  // ORF uses "RO"/"RS" and RW2 uses 0x55 in place of the TIFF magic number
+  if (reader.magic === 0x4f52 || reader.magic === 0x5352) {
+    return 'orf';
+  }
+  if (reader.magic === 0x55) {
+    return 'rw2';
+  }
+  if (buffer.toString('latin1', 8, 10) === 'CR') {
+    return 'cr2';
+  }
+
+  let ifd0;
+  try {
+    ifd0 = reader.readIfd(reader.firstIfdOffset);
+  } catch {
+    return undefined;
+  }
+
+  // Checked before Make: many cameras write DNG natively
+  if (ifd0.entries.has(TiffTag.DNGVersion)) {
+    return 'dng';
+  }
+
+  const make = reader.getString(ifd0, TiffTag.Make)?.toUpperCase();
+  if (make) {
+    for (const [prefix, format] of FORMATS_BY_MAKE) {
+      if (make.startsWith(prefix)) {
+        return format;
+      }
+    }
+  }
+
+  return undefined;
+}
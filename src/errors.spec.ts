@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { toRawConvertError } from './errors.js';
+import {
+  convertRaw,
+  convertRawAsync,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+  readMetadata,
+  setBackend,
+  type ConverterBackend,
+  type RawConvertErrorCode,
+} from './index.js';
+import { buildTiff } from './test-fixtures.js';
+
+/**
+ * Run a function and return the RawConvertError it throws
+ */
+function catchError(fn: () => unknown): RawConvertError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(RawConvertError);
+    return error as RawConvertError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+/**
+ * A backend that fails every conversion with the given message
+ */
+function failingBackend(message: string): ConverterBackend {
+  return {
+    convertRaw() {
+      throw new Error(message);
+    },
+    convertRawAsync(_input, _format, _options, callback) {
+      setTimeout(() => callback(new Error(message)), 0);
+    },
+  };
+}
+
+describe('RawConvertError', () => {
+  afterEach(() => {
+    setBackend(undefined);
+  });
+
+  describe('validation errors', () => {
+    it('should report INVALID_INPUT for bad inputs', () => {
+      setBackend(createStubBackend());
+
+      const notInput = catchError(() =>
+        convertRaw(123 as any, OutputFormat.JPEG)
+      );
+      expect(notInput.code).toBe('INVALID_INPUT');
+      expect(notInput.message).toBe(
+        'Input must be a Buffer or file path string'
+      );
+
+      const empty = catchError(() =>
+        convertRaw(Buffer.alloc(0), OutputFormat.JPEG)
+      );
+      expect(empty.code).toBe('INVALID_INPUT');
+      expect(empty.input).toBe('Buffer(0 bytes)');
+
+      const emptyPath = catchError(() => convertRaw('  ', OutputFormat.JPEG));
+      expect(emptyPath.code).toBe('INVALID_INPUT');
+    });
+
+    it('should report UNSUPPORTED_FORMAT with the requested format', () => {
+      setBackend(createStubBackend());
+
+      const error = catchError(() =>
+        convertRaw('/photos/a.arw', 'bmp' as OutputFormat)
+      );
+      expect(error.code).toBe('UNSUPPORTED_FORMAT');
+      expect(error.format).toBe('bmp');
+      expect(error.input).toBe('/photos/a.arw');
+
+      const undetected = catchError(() =>
+        convertRaw(Buffer.from('not a raw file'), OutputFormat.JPEG)
+      );
+      expect(undetected.code).toBe('UNSUPPORTED_FORMAT');
+    });
+
+    it('should report INVALID_OPTIONS for non-object options', () => {
+      setBackend(createStubBackend());
+
+      const error = catchError(() =>
+        convertRaw('/photos/a.arw', OutputFormat.JPEG, 'bad' as any)
+      );
+      expect(error.code).toBe('INVALID_OPTIONS');
+      expect(error.format).toBe('jpeg');
+    });
+
+    it('should reject async conversions with the same codes', async () => {
+      setBackend(createStubBackend());
+
+      await expect(
+        convertRawAsync(Buffer.alloc(0), OutputFormat.JPEG)
+      ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    });
+  });
+
+  describe('backend errors', () => {
+    const cases: [string, RawConvertErrorCode][] = [
+      ['Failed to read file from path', 'FILE_NOT_FOUND'],
+      ['Failed to write temp file: /tmp/x.arw', 'TEMP_FILE_FAILED'],
+      ['Failed to create CIRAWFilter from image data', 'DECODE_FAILED'],
+      ['Failed to get output image from RAW filter', 'DECODE_FAILED'],
+      ['Output image has empty extent', 'EMPTY_EXTENT'],
+      ['Failed to create CGImage from CIImage', 'RENDER_FAILED'],
+      ['Failed to extract RGB data from image', 'RENDER_FAILED'],
+      ['Failed to apply LUT to the rendered image', 'RENDER_FAILED'],
+      ['Failed to create image destination', 'ENCODE_FAILED'],
+      ['Failed to finalize image destination', 'ENCODE_FAILED'],
+      ['Something unexpected', 'UNKNOWN'],
+    ];
+
+    it.each(cases)('should map "%s" to %s', (message, code) => {
+      const converter = createConverter({ backend: failingBackend(message) });
+
+      const error = catchError(() =>
+        converter.convertRaw('/photos/a.arw', OutputFormat.PNG)
+      );
+      expect(error.code).toBe(code);
+      expect(error.message).toBe(message);
+      expect(error.format).toBe('png');
+      expect(error.input).toBe('/photos/a.arw');
+      expect((error.cause as Error).message).toBe(message);
+    });
+
+    it('should map async backend errors and keep the input format', async () => {
+      const converter = createConverter({
+        backend: failingBackend('Output image has empty extent'),
+      });
+
+      const error = await converter
+        .convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, {
+          inputFormat: 'nef',
+        })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RawConvertError);
+      expect(error).toMatchObject({
+        code: 'EMPTY_EXTENT',
+        input: 'Buffer(3 bytes)',
+        format: 'jpeg',
+        inputFormat: 'nef',
+      });
+    });
+
+    it('should map errors thrown when an async conversion starts', async () => {
+      const converter = createConverter({
+        backend: {
+          ...failingBackend('unused'),
+          convertRawAsync() {
+            throw new Error('Failed to read file from path');
+          },
+        },
+      });
+
+      const error = await converter
+        .convertRawAsync('/photos/a.arw', OutputFormat.JPEG)
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RawConvertError);
+      expect(error).toMatchObject({
+        code: 'FILE_NOT_FOUND',
+        input: '/photos/a.arw',
+        format: 'jpeg',
+      });
+    });
+
+    it('should map stub backend file errors', () => {
+      const converter = createConverter({ backend: createStubBackend() });
+
+      const error = catchError(() =>
+        converter.convertRaw('/nonexistent/file.arw', OutputFormat.JPEG)
+      );
+      expect(error.code).toBe('FILE_NOT_FOUND');
+    });
+
+    it('should return RawConvertErrors unchanged', () => {
+      const original = new RawConvertError('DECODE_FAILED', 'bad data');
+      expect(toRawConvertError(original, { format: 'jpeg' })).toBe(original);
+    });
+  });
+
+  describe('parser errors', () => {
+    it('should report codes from readMetadata', () => {
+      expect(catchError(() => readMetadata(Buffer.alloc(0))).code).toBe(
+        'INVALID_INPUT'
+      );
+      expect(catchError(() => readMetadata('/nonexistent/file.arw')).code).toBe(
+        'FILE_NOT_FOUND'
+      );
+      expect(
+        catchError(() => readMetadata(Buffer.from('not a raw file'))).code
+      ).toBe('UNSUPPORTED_FORMAT');
+    });
+
+    it('should report DECODE_FAILED for a corrupt TIFF structure', () => {
+      const tiff = buildTiff([{ entries: [] }]);
+      // Point IFD0 past the end of the file
+      tiff.writeUInt32LE(tiff.length + 100, 4);
+
+      const error = catchError(() => readMetadata(tiff));
+      expect(error.code).toBe('DECODE_FAILED');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { OptionIssue } from './validate.js';
+
+/**
+ * Stable error codes carried by RawConvertError
+ */
+export type RawConvertErrorCode =
+  /** Input is not a Buffer or path, or is empty */
+  | 'INVALID_INPUT'
+  /** Options are malformed or out of range */
+  | 'INVALID_OPTIONS'
+  /** Output format is unsupported, or the RAW format is unsupported or undetectable */
+  | 'UNSUPPORTED_FORMAT'
+  /** Input file path could not be read */
+  | 'FILE_NOT_FOUND'
+  /** Temporary file for the RAW decoder could not be written */
+  | 'TEMP_FILE_FAILED'
+  /** RAW data could not be decoded */
+  | 'DECODE_FAILED'
+  /** Decoded image has no pixels, usually because the data is not a RAW file */
+  | 'EMPTY_EXTENT'
+  /** Decoded image could not be rendered to a bitmap */
+  | 'RENDER_FAILED'
+  /** Rendered image could not be encoded to the output format */
+  | 'ENCODE_FAILED'
+  /** Native addon could not be loaded */
+  | 'BACKEND_UNAVAILABLE'
+  /** Conversion was cancelled through its AbortSignal */
+  | 'ABORTED'
+  /** Async conversion did not complete within options.timeoutMs */
+  | 'TIMEOUT'
+  /** Any other failure */
+  | 'UNKNOWN';
+
+/**
+ * Context attached to a RawConvertError
+ */
+export interface RawConvertErrorOptions {
+  /** File path of the input, or a description of a Buffer input */
+  input?: string;
+  /** Requested output format */
+  format?: string;
+  /** Input RAW format */
+  inputFormat?: string;
+  /** Problems found in the options, for INVALID_OPTIONS errors */
+  issues?: OptionIssue[];
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by every conversion and parsing function, with a stable code
+ * that can be matched instead of the message
+ */
+export class RawConvertError extends Error {
+  readonly code: RawConvertErrorCode;
+  readonly input?: string;
+  readonly format?: string;
+  readonly inputFormat?: string;
+  readonly issues?: OptionIssue[];
+
+  constructor(
+    code: RawConvertErrorCode,
+    message: string,
+    options: RawConvertErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'RawConvertError';
+    this.code = code;
+    this.input = options.input;
+    this.format = options.format;
+    this.inputFormat = options.inputFormat;
+    this.issues = options.issues;
+  }
+}
+
+/**
+ * Error thrown when a conversion is cancelled through options.signal
+ */
+export class AbortError extends RawConvertError {
+  constructor(options: RawConvertErrorOptions = {}) {
+    super('ABORTED', 'The conversion was aborted', options);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Error thrown when an async conversion exceeds options.timeoutMs
+ */
+export class TimeoutError extends RawConvertError {
+  /** Timeout that expired, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: RawConvertErrorOptions = {}) {
+    super('TIMEOUT', `Conversion timed out after ${timeoutMs} ms`, options);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Message prefixes reported by the native addon and the stub backend
+const NATIVE_ERROR_CODES: [prefix: string, code: RawConvertErrorCode][] = [
+  ['Input buffer is empty', 'INVALID_INPUT'],
+  ['File path cannot be empty', 'INVALID_INPUT'],
+  ['Invalid buffer data', 'INVALID_INPUT'],
+  ['First argument must be', 'INVALID_INPUT'],
+  ['Second argument must be', 'INVALID_INPUT'],
+  ['Failed to read file from path', 'FILE_NOT_FOUND'],
+  ['Failed to write temp file', 'TEMP_FILE_FAILED'],
+  ['Failed to create CIRAWFilter', 'DECODE_FAILED'],
+  ['Failed to get output image from RAW filter', 'DECODE_FAILED'],
+  ['Output image has empty extent', 'EMPTY_EXTENT'],
+  ['Crop region is outside the image', 'INVALID_OPTIONS'],
+  ['Unsupported color space', 'INVALID_OPTIONS'],
+  ['Invalid LUT', 'INVALID_OPTIONS'],
+  ['Failed to read LUT file', 'FILE_NOT_FOUND'],
+  ['Failed to apply LUT', 'RENDER_FAILED'],
+  ['Failed to create CGImage', 'RENDER_FAILED'],
+  ['Failed to extract RGB data', 'RENDER_FAILED'],
+  ['Unsupported output format', 'UNSUPPORTED_FORMAT'],
+  ['Failed to create image destination', 'ENCODE_FAILED'],
+  ['Failed to finalize image destination', 'ENCODE_FAILED'],
+  ['Conversion was cancelled', 'ABORTED'],
+];
+
+/**
+ * Describe an input for error context without embedding Buffer contents
+ */
+export function describeInput(input: unknown): string | undefined {
+  if (typeof input === 'string') {
+    return input;
+  }
+  if (Buffer.isBuffer(input)) {
+    return `Buffer(${input.length} bytes)`;
+  }
+  return undefined;
+}
+
+/**
+ * Convert an error from a backend or parser into a RawConvertError, mapping
+ * known native messages onto stable codes
+ * @param error - Error to convert; RawConvertErrors are returned unchanged
+ * @param options - Context to attach
+ * @returns The converted error, keeping the original message
+ */
+export function toRawConvertError(
+  error: unknown,
+  options: Omit<RawConvertErrorOptions, 'cause'> = {}
+): RawConvertError {
+  if (error instanceof RawConvertError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code =
+    NATIVE_ERROR_CODES.find(([prefix]) => message.startsWith(prefix))?.[1] ??
+    'UNKNOWN';
+
+  return new RawConvertError(code, message, { ...options, cause: error });
+}
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 import { promises as fs } from 'fs';
 import path from 'path';
-import { convertRaw, convertRawAsync, OutputFormat } from '../index.js';
+import { convertBatch, convertRaw, OutputFormat } from '../index.js';
 
 const convertOptions = {
   lensCorrection: false,
@@ -48,56 +48,42 @@ async function batchConvertRawsToJpeg(
 
     if (useAsync) {
       // Async processing with concurrency control
-      const semaphore = new Array(maxConcurrent).fill(0);
-      let activeCount = 0;
-      let completedCount = 0;
+      const inputPaths = rawFiles.map((file) => path.join(folderPath, file));
+      const batch = convertBatch(
+        inputPaths,
+        OutputFormat.JPEG,
+        convertOptions,
+        {
+          concurrency: maxConcurrent,
+        }
+      );
+      const writes: Promise<void>[] = [];
 
-      const processFile = async (file: string): Promise<void> => {
-        const inputPath = path.join(folderPath, file);
+      batch.on('fileDone', ({ index, result }) => {
+        const file = rawFiles[index];
         const outputPath = path.join(
           folderPath,
           path.basename(file, path.extname(file)) + '.jpg'
         );
-
-        try {
-          console.log(`Converting ${file}... (async)`);
-
-          // Use file path directly for better performance
-          const jpegBuffer = await convertRawAsync(
-            inputPath,
-            OutputFormat.JPEG,
-            convertOptions
-          );
-
-          await fs.writeFile(outputPath, jpegBuffer.buffer);
-          console.log(`✓ Converted ${file} → ${path.basename(outputPath)}`);
-        } catch (error) {
-          console.error(
-            `✗ Failed to convert ${file}:`,
-            (error as Error).message
-          );
-        }
-      };
-
-      // Process files with concurrency control
-      const promises: Promise<void>[] = [];
-
-      for (const file of rawFiles) {
-        // Wait for available slot
-        while (activeCount >= maxConcurrent) {
-          await Promise.race(promises.filter((p) => p));
-        }
-
-        activeCount++;
-        const promise = processFile(file).finally(() => {
-          activeCount--;
-          completedCount++;
-        });
-        promises.push(promise);
-      }
-
-      // Wait for all conversions to complete
-      await Promise.all(promises);
+        writes.push(
+          fs.writeFile(outputPath, result.buffer).then(() => {
+            console.log(`✓ Converted ${file} → ${path.basename(outputPath)}`);
+          })
+        );
+      });
+      batch.on('fileFailed', ({ index, error }) => {
+        console.error(`✗ Failed to convert ${rawFiles[index]}:`, error.message);
+      });
+      batch.on('progress', ({ completed, total }) => {
+        console.log(`Progress: ${completed}/${total}`);
+      });
+
+      const summary = await batch.done;
+      await Promise.all(writes);
+      console.log(
+        `Converted ${summary.succeeded}/${summary.total} files (${summary.failed} failed), ` +
+          `${(summary.bytesIn / 1024 / 1024).toFixed(1)} MB → ${(summary.bytesOut / 1024 / 1024).toFixed(1)} MB`
+      );
     } else {
       // Synchronous processing (original method)
       for (const file of rawFiles) {
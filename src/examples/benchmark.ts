@@ -171,6 +171,9 @@ function getFormatDisplayName(format: OutputFormat): string {
     [OutputFormat.HEIF]: 'HEIF',
     [OutputFormat.HEIC]: 'HEIF',
     [OutputFormat.RGB]: 'RGB',
+    [OutputFormat.RGBA]: 'RGBA',
+    [OutputFormat.RGB16]: 'RGB 16-bit',
+    [OutputFormat.RGBF32]: 'RGB float',
   };
   return displayNames[format];
 }
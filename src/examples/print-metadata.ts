@@ -1,6 +1,4 @@
-import fs from 'node:fs';
-import path from 'node:path';
-import { convertRaw, OutputFormat } from '../index.js';
+import { readMetadata } from '../index.js';
 
 const filePath = process.argv[2];
 
@@ -9,12 +7,7 @@ if (!filePath) {
   process.exit(1);
 }
 
-const buffer = fs.readFileSync(filePath);
-const inputFormat = path.extname(filePath).slice(1).toLowerCase() as any;
+// Reads the TIFF/EXIF tags directly, without decoding the image
+const metadata = readMetadata(filePath);
 
-const result = convertRaw(buffer, OutputFormat.JPEG, {
-  extractMetadata: true,
-  inputFormat,
-});
-
-console.log(JSON.stringify(result.metadata, null, 2));
+console.log(JSON.stringify(metadata, null, 2));
@@ -1,6 +1,10 @@
 #!/usr/bin/env node
-import PQueue from 'p-queue';
-import { convertRaw, convertRawAsync, OutputFormat } from '../index.js';
+import {
+  ConversionQueue,
+  convertRaw,
+  convertRawAsync,
+  OutputFormat,
+} from '../index.js';
 import { loadSampleImage } from './load-image.js';
 
 interface ThroughputOptions {
@@ -90,14 +94,13 @@ async function runConcurrentTest(
   const format = OutputFormat.JPEG;
   const options = { quality: 0.8, lensCorrection: true, scaleFactor: 0.5 };
 
-  const queue = new PQueue({ concurrency });
+  const queue = new ConversionQueue({ concurrency });
   let completed = 0;
 
   const start = process.hrtime.bigint();
 
   const tasks = Array.from({ length: conversions }, () =>
-    queue.add(async () => {
-      const result = await convertRawAsync(buffer, format, options);
+    queue.add(buffer, format, options).then((result) => {
       completed++;
       if (completed % Math.max(1, Math.floor(conversions / 10)) === 0) {
         process.stdout.write(`.`);
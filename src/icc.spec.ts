@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import zlib from 'zlib';
+import { readIccProfile } from './index.js';
+import { buildIccProfile, buildJpeg, buildTiff } from './test-fixtures.js';
+import { TiffTag } from './tiff.js';
+
+const adobeRgb = buildIccProfile({
+  description: 'Adobe RGB (1998)',
+  renderingIntent: 1,
+  primaries: [
+    [0.6097, 0.3111, 0.0195],
+    [0.2053, 0.6257, 0.0609],
+    [0.1492, 0.0632, 0.7446],
+  ],
+});
+
+/**
+ * Insert APP2 segments carrying a profile in chunks, last chunk first
+ */
+function jpegWithProfile(profile: Buffer, chunkSize: number): Buffer {
+  const jpeg = buildJpeg(8, 8);
+  const count = Math.ceil(profile.length / chunkSize);
+  const segments: Buffer[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const chunk = profile.subarray(i * chunkSize, (i + 1) * chunkSize);
+    const header = Buffer.alloc(18);
+    header.writeUInt16BE(0xffe2, 0);
+    header.writeUInt16BE(16 + chunk.length, 2);
+    header.write('ICC_PROFILE\0', 4, 'latin1');
+    header[16] = i + 1;
+    header[17] = count;
+    segments.push(header, chunk);
+  }
+  return Buffer.concat([jpeg.subarray(0, 2), ...segments, jpeg.subarray(2)]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  // The reader does not check the CRC
+  return Buffer.concat([header, data, Buffer.alloc(4)]);
+}
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  const payload = Buffer.concat(children);
+  header.writeUInt32BE(8 + payload.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, payload]);
+}
+
+describe('readIccProfile', () => {
+  it('should read a profile split across JPEG APP2 segments', () => {
+    const profile = readIccProfile(jpegWithProfile(adobeRgb, 100));
+
+    expect(profile).toMatchObject({
+      description: 'Adobe RGB (1998)',
+      colorSpace: 'RGB',
+      pcs: 'XYZ',
+      renderingIntent: 'relative-colorimetric',
+      version: '2.1.0',
+    });
+    expect(profile?.data.equals(adobeRgb)).toBe(true);
+    expect(profile?.primaries?.red.x).toBeCloseTo(0.6097, 4);
+    expect(profile?.primaries?.blue.z).toBeCloseTo(0.7446, 4);
+    expect(profile?.whitePoint?.y).toBe(1);
+  });
+
+  it('should inflate the profile of a PNG iCCP chunk', () => {
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', Buffer.alloc(13)),
+      pngChunk(
+        'iCCP',
+        Buffer.concat([
+          Buffer.from('ICC Profile\0\0', 'latin1'),
+          zlib.deflateSync(adobeRgb),
+        ])
+      ),
+      pngChunk('IDAT', Buffer.alloc(4)),
+      pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+
+    expect(readIccProfile(png)?.description).toBe('Adobe RGB (1998)');
+  });
+
+  it('should read the ICC profile tag of a TIFF', () => {
+    const tiff = buildTiff(
+      [
+        {
+          entries: [
+            { tag: TiffTag.ImageWidth, type: 4, values: [8] },
+            { tag: TiffTag.ICCProfile, type: 7, values: adobeRgb },
+          ],
+        },
+      ],
+      { bigEndian: true }
+    );
+
+    expect(readIccProfile(tiff)?.data.equals(adobeRgb)).toBe(true);
+  });
+
+  it('should read the colr property of a HEIF with a v4 profile', () => {
+    const displayP3 = buildIccProfile({
+      description: 'Display P3',
+      version4: true,
+      primaries: [
+        [0.5151, 0.2412, -0.0011],
+        [0.292, 0.6922, 0.0419],
+        [0.1571, 0.0666, 0.7841],
+      ],
+    });
+    const nclx = Buffer.from('nclx\0\x01\0\x0d\0\x06\x80', 'latin1');
+    const heif = Buffer.concat([
+      box('ftyp', Buffer.from('heic\0\0\0\0mif1heic', 'latin1')),
+      box(
+        'meta',
+        Buffer.alloc(4),
+        box('hdlr', Buffer.alloc(24)),
+        box(
+          'iprp',
+          box(
+            'ipco',
+            box('colr', nclx),
+            box('colr', Buffer.from('prof', 'latin1'), displayP3)
+          )
+        )
+      ),
+      box('mdat', Buffer.alloc(16)),
+    ]);
+
+    expect(readIccProfile(heif)).toMatchObject({
+      description: 'Display P3',
+      version: '4.0.0',
+      renderingIntent: 'perceptual',
+    });
+  });
+
+  it('should return undefined for images without a profile', () => {
+    expect(readIccProfile(buildJpeg(8, 8))).toBeUndefined();
+  });
+
+  it('should reject unsupported formats and corrupt profiles', () => {
+    expect(() => readIccProfile(Buffer.from('GIF89a'))).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_FORMAT' })
+    );
+
+    const corrupt = Buffer.from(adobeRgb);
+    corrupt.write('xxxx', 36, 'latin1');
+    expect(() => readIccProfile(jpegWithProfile(corrupt, 1000))).toThrow(
+      expect.objectContaining({
+        code: 'DECODE_FAILED',
+        message: 'Invalid ICC profile: missing profile signature',
+      })
+    );
+  });
+});
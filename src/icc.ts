@@ -0,0 +1,376 @@
+import zlib from 'zlib';
+import { RawConvertError } from './errors.js';
+import { readBoxes, readRawInput, type Box } from './raw-file.js';
+import { isTiff, TiffReader, TiffTag } from './tiff.js';
+
+/**
+ * How a color management module maps colors outside the destination gamut
+ */
+export type IccRenderingIntent =
+  | 'perceptual'
+  | 'relative-colorimetric'
+  | 'saturation'
+  | 'absolute-colorimetric';
+
+/**
+ * CIE XYZ tristimulus values
+ */
+export interface XyzValue {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * An ICC profile embedded in an encoded image
+ */
+export interface IccProfile {
+  /** Profile description, e.g. 'Adobe RGB (1998)' */
+  description?: string;
+  /** Data color space signature, e.g. 'RGB' or 'GRAY' */
+  colorSpace: string;
+  /** Profile connection space signature: 'XYZ' or 'Lab' */
+  pcs: string;
+  /** Default rendering intent from the profile header */
+  renderingIntent: IccRenderingIntent;
+  /** Profile version, e.g. '4.0.0' */
+  version: string;
+  /**
+   * Red, green and blue colorants, adapted to the D50 connection space, from
+   * the rXYZ, gXYZ and bXYZ tags of matrix-based RGB profiles
+   */
+  primaries?: { red: XyzValue; green: XyzValue; blue: XyzValue };
+  /** Media white point from the wtpt tag */
+  whitePoint?: XyzValue;
+  /** The complete profile */
+  data: Buffer;
+}
+
+const RENDERING_INTENTS: IccRenderingIntent[] = [
+  'perceptual',
+  'relative-colorimetric',
+  'saturation',
+  'absolute-colorimetric',
+];
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const JPEG_ICC_MARKER = 'ICC_PROFILE\0';
+
+// Brands of HEIF still images and image collections
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Join the ICC profile chunks of a JPEG's APP2 segments in sequence order
+ */
+function readJpegProfile(buffer: Buffer): Buffer | undefined {
+  const chunks: { sequence: number; data: Buffer }[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Stop at start of scan or end of image
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const dataStart = offset + 4 + JPEG_ICC_MARKER.length;
+    if (
+      marker === 0xe2 &&
+      buffer.toString('latin1', offset + 4, dataStart) === JPEG_ICC_MARKER
+    ) {
+      chunks.push({
+        sequence: buffer[dataStart],
+        data: buffer.subarray(
+          dataStart + 2,
+          Math.min(offset + 2 + length, buffer.length)
+        ),
+      });
+    }
+    offset += 2 + length;
+  }
+
+  if (chunks.length === 0) {
+    return undefined;
+  }
+  chunks.sort((a, b) => a.sequence - b.sequence);
+  return Buffer.concat(chunks.map((chunk) => chunk.data));
+}
+
+/**
+ * Inflate the profile of a PNG's iCCP chunk
+ */
+function readPngProfile(buffer: Buffer): Buffer | undefined {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    // The profile must come before the image data
+    if (type === 'IDAT' || type === 'IEND') {
+      break;
+    }
+    if (type === 'iCCP') {
+      const data = buffer.subarray(offset + 8, offset + 8 + length);
+      // Profile name, a NUL separator, then the compression method
+      const nameEnd = data.indexOf(0);
+      if (nameEnd < 0) {
+        throw new Error('PNG iCCP chunk has no profile name');
+      }
+      return zlib.inflateSync(data.subarray(nameEnd + 2));
+    }
+    offset += 12 + length;
+  }
+  return undefined;
+}
+
+/**
+ * Read the ICC profile tag of a TIFF's first IFD
+ */
+function readTiffProfile(buffer: Buffer): Buffer | undefined {
+  const reader = new TiffReader(buffer);
+  return reader.getBytes(
+    reader.readIfd(reader.firstIfdOffset),
+    TiffTag.ICCProfile
+  );
+}
+
+/**
+ * Find a box by type among the children of a box
+ */
+function findBox(buffer: Buffer, parent: Box, type: string): Box | undefined {
+  return readBoxes(buffer, parent.dataStart, parent.end).find(
+    (box) => box.type === type
+  );
+}
+
+/**
+ * Read the first ICC colr property of a HEIF's meta box
+ */
+function readHeifProfile(buffer: Buffer): Buffer | undefined {
+  const meta = readBoxes(buffer).find((box) => box.type === 'meta');
+  if (!meta) {
+    return undefined;
+  }
+
+  // meta is a full box, with a version and flags before its children
+  const properties = findBox(
+    buffer,
+    { ...meta, dataStart: meta.dataStart + 4 },
+    'iprp'
+  );
+  const container = properties && findBox(buffer, properties, 'ipco');
+  if (!container) {
+    return undefined;
+  }
+
+  for (const box of readBoxes(buffer, container.dataStart, container.end)) {
+    const colourType = buffer.toString(
+      'latin1',
+      box.dataStart,
+      box.dataStart + 4
+    );
+    if (
+      box.type === 'colr' &&
+      (colourType === 'prof' || colourType === 'rICC')
+    ) {
+      return buffer.subarray(box.dataStart + 4, box.end);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a buffer starts with a HEIF file type box
+ */
+function isHeif(buffer: Buffer): boolean {
+  const ftyp = readBoxes(buffer, 0, Math.min(buffer.length, 4096))[0];
+  if (!ftyp || ftyp.type !== 'ftyp') {
+    return false;
+  }
+
+  // Major brand, minor version, then compatible brands
+  const brands = [
+    buffer.toString('latin1', ftyp.dataStart, ftyp.dataStart + 4),
+  ];
+  for (let offset = ftyp.dataStart + 8; offset + 4 <= ftyp.end; offset += 4) {
+    brands.push(buffer.toString('latin1', offset, offset + 4));
+  }
+  return brands.some((brand) => HEIF_BRANDS.includes(brand));
+}
+
+/**
+ * Read a four-character signature, without trailing padding
+ */
+function readSignature(data: Buffer, offset: number): string {
+  return data.toString('latin1', offset, offset + 4).trimEnd();
+}
+
+/**
+ * Read an XYZ tag as s15Fixed16Number values
+ */
+function readXyz(
+  data: Buffer,
+  offset: number | undefined
+): XyzValue | undefined {
+  if (
+    offset === undefined ||
+    offset + 20 > data.length ||
+    readSignature(data, offset) !== 'XYZ'
+  ) {
+    return undefined;
+  }
+  return {
+    x: data.readInt32BE(offset + 8) / 65536,
+    y: data.readInt32BE(offset + 12) / 65536,
+    z: data.readInt32BE(offset + 16) / 65536,
+  };
+}
+
+/**
+ * Read a v2 textDescription or v4 multiLocalizedUnicode tag, preferring
+ * English for the latter
+ */
+function readDescription(
+  data: Buffer,
+  offset: number | undefined
+): string | undefined {
+  if (offset === undefined) {
+    return undefined;
+  }
+
+  const type = readSignature(data, offset);
+  let text: string | undefined;
+
+  if (type === 'desc' && offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset + 8);
+    text = data.toString('latin1', offset + 12, offset + 12 + length);
+  } else if (type === 'mluc' && offset + 16 <= data.length) {
+    const count = data.readUInt32BE(offset + 8);
+    const recordSize = data.readUInt32BE(offset + 12);
+    const records: { language: string; start: number; end: number }[] = [];
+    for (let i = 0; i < count; i++) {
+      const record = offset + 16 + i * recordSize;
+      if (record + 12 > data.length) {
+        break;
+      }
+      const start = offset + data.readUInt32BE(record + 8);
+      records.push({
+        language: data.toString('latin1', record, record + 2),
+        start,
+        end: start + (data.readUInt32BE(record + 4) & ~1),
+      });
+    }
+    const record =
+      records.find((candidate) => candidate.language === 'en') ?? records[0];
+    if (record && record.end <= data.length) {
+      // UTF-16BE; swap to the little-endian order Node decodes
+      text = Buffer.from(data.subarray(record.start, record.end))
+        .swap16()
+        .toString('utf16le');
+    }
+  }
+
+  text = text?.replace(/\0.*$/s, '').trim();
+  return text === '' ? undefined : text;
+}
+
+/**
+ * Parse the header and tags of an ICC profile
+ * @throws {Error} If the data is not an ICC profile
+ */
+function parseIccProfile(data: Buffer): IccProfile {
+  if (data.length < 132 || data.toString('latin1', 36, 40) !== 'acsp') {
+    throw new Error('Invalid ICC profile: missing profile signature');
+  }
+
+  const tags = new Map<string, number>();
+  const count = data.readUInt32BE(128);
+  for (let i = 0; i < count; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > data.length) {
+      throw new Error('Invalid ICC profile: tag table is truncated');
+    }
+    const offset = data.readUInt32BE(entry + 4);
+    if (offset + data.readUInt32BE(entry + 8) > data.length) {
+      continue;
+    }
+    tags.set(data.toString('latin1', entry, entry + 4), offset);
+  }
+
+  const version = data.readUInt32BE(8);
+  const profile: IccProfile = {
+    colorSpace: readSignature(data, 16),
+    pcs: readSignature(data, 20),
+    renderingIntent:
+      RENDERING_INTENTS[data.readUInt32BE(64) & 0xffff] ?? 'perceptual',
+    version: `${version >>> 24}.${(version >>> 20) & 0xf}.${(version >>> 16) & 0xf}`,
+    data,
+  };
+
+  const description = readDescription(data, tags.get('desc'));
+  if (description !== undefined) {
+    profile.description = description;
+  }
+
+  const [red, green, blue] = ['rXYZ', 'gXYZ', 'bXYZ'].map((tag) =>
+    readXyz(data, tags.get(tag))
+  );
+  if (red && green && blue) {
+    profile.primaries = { red, green, blue };
+  }
+
+  const whitePoint = readXyz(data, tags.get('wtpt'));
+  if (whitePoint) {
+    profile.whitePoint = whitePoint;
+  }
+
+  return profile;
+}
+
+/**
+ * Read the ICC profile embedded in an encoded image, such as the output of
+ * convertRaw, without decoding the image or loading the native addon.
+ *
+ * Supports JPEG (APP2 segments), PNG (iCCP chunk), TIFF (tag 34675) and HEIF
+ * (colr property).
+ * @param input - Buffer containing an encoded image or path to an image file
+ * @throws {RawConvertError} INVALID_INPUT or FILE_NOT_FOUND if the input cannot
+ * be read, UNSUPPORTED_FORMAT if it is not a JPEG, PNG, TIFF or HEIF image,
+ * DECODE_FAILED if the embedded profile is corrupt
+ * @returns The profile, or undefined if the image has none
+ */
+export function readIccProfile(input: Buffer | string): IccProfile | undefined {
+  const buffer = readRawInput(input);
+
+  let read: ((buffer: Buffer) => Buffer | undefined) | undefined;
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    read = readJpegProfile;
+  } else if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    read = readPngProfile;
+  } else if (isTiff(buffer)) {
+    read = readTiffProfile;
+  } else if (isHeif(buffer)) {
+    read = readHeifProfile;
+  }
+
+  if (!read) {
+    throw new RawConvertError(
+      'UNSUPPORTED_FORMAT',
+      'Unsupported image format: expected JPEG, PNG, TIFF or HEIF'
+    );
+  }
+
+  try {
+    const data = read(buffer);
+    // Copy so the profile does not keep the whole image alive
+    return data && parseIccProfile(Buffer.from(data));
+  } catch (error) {
+    throw new RawConvertError(
+      'DECODE_FAILED',
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+}
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  type RawConvertError,
+  validateOptions,
+} from './index.js';
+import { applyLut, parseCubeLut, type Rgb } from './lut.js';
+
+/**
+ * Build a 3D .cube file of the given size from a function of the input color
+ */
+function cube(size: number, grade: (rgb: Rgb) => Rgb, header = ''): string {
+  const lines = [header, `LUT_3D_SIZE ${size}`];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const input: Rgb = [r, g, b].map((value) => value / (size - 1)) as Rgb;
+        lines.push(grade(input).join(' '));
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+const INVERT = cube(2, ([r, g, b]) => [1 - r, 1 - g, 1 - b]);
+
+describe('parseCubeLut', () => {
+  it('should parse a 3D LUT', () => {
+    const lut = parseCubeLut(
+      cube(2, (rgb) => rgb, '# Identity\nTITLE "Identity"\nLUT_IN_VIDEO_RANGE')
+    );
+
+    expect(lut.title).toBe('Identity');
+    expect(lut.table1D).toBeUndefined();
+    expect(lut.table3D).toMatchObject({
+      size: 2,
+      domainMin: [0, 0, 0],
+      domainMax: [1, 1, 1],
+    });
+    // Red varies fastest
+    expect([...lut.table3D!.data.subarray(3, 6)]).toEqual([1, 0, 0]);
+  });
+
+  it('should parse a 1D shaper before a 3D table', () => {
+    const lut = parseCubeLut(
+      [
+        'LUT_1D_SIZE 2',
+        'LUT_1D_INPUT_RANGE 0 4',
+        'LUT_3D_INPUT_RANGE 0 1',
+        '0 0 0',
+        '1 1 1',
+        cube(2, (rgb) => rgb),
+      ].join('\n')
+    );
+
+    expect(lut.table1D).toMatchObject({ size: 2, domainMax: [4, 4, 4] });
+    expect(lut.table3D).toMatchObject({ size: 2, domainMax: [1, 1, 1] });
+    expect(applyLut(lut, [2, 1, 0])).toEqual([0.5, 0.25, 0]);
+  });
+
+  it('should reject malformed files', () => {
+    const errors = [
+      '0 0 0',
+      'LUT_3D_SIZE 1',
+      'LUT_1D_SIZE 2\n0 0\n1 1 1',
+      'LUT_1D_SIZE 2\n0 0 0',
+      'DOMAIN_MIN 0 0\nLUT_1D_SIZE 2\n0 0 0\n1 1 1',
+      'DOMAIN_MIN 1 1 1\nLUT_1D_SIZE 2\n0 0 0\n1 1 1',
+    ].map((text) => {
+      try {
+        parseCubeLut(text);
+        return undefined;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+
+    expect(errors).toEqual([
+      'Invalid LUT: missing LUT_1D_SIZE or LUT_3D_SIZE',
+      'Invalid LUT: LUT_3D_SIZE must be between 2 and 256',
+      'Invalid LUT: line 2 must have 3 numbers',
+      'Invalid LUT: expected 2 entries, got 1',
+      'Invalid LUT: DOMAIN_MIN must have 3 numbers',
+      'Invalid LUT: DOMAIN_MIN must be less than DOMAIN_MAX',
+    ]);
+  });
+});
+
+describe('applyLut', () => {
+  it('should leave colors unchanged through an identity LUT', () => {
+    const lut = parseCubeLut(cube(5, (rgb) => rgb));
+    for (const interpolation of ['trilinear', 'tetrahedral'] as const) {
+      const [r, g, b] = applyLut(lut, [0.3, 0.62, 0.9], interpolation);
+      expect(r).toBeCloseTo(0.3);
+      expect(g).toBeCloseTo(0.62);
+      expect(b).toBeCloseTo(0.9);
+    }
+  });
+
+  it('should keep greys neutral with tetrahedral interpolation', () => {
+    // Only the red-only corner of the cell is graded, which trilinear
+    // interpolation bleeds into the grey diagonal
+    const lut = parseCubeLut(
+      cube(2, ([r, g, b]) =>
+        r === 1 && g === 0 && b === 0 ? [1, 1, 0] : [r, g, b]
+      )
+    );
+
+    expect(applyLut(lut, [0.5, 0.5, 0.5], 'tetrahedral')).toEqual([
+      0.5, 0.5, 0.5,
+    ]);
+    expect(applyLut(lut, [0.5, 0.5, 0.5], 'trilinear')[1]).toBeGreaterThan(0.5);
+  });
+
+  it('should blend with the original color by strength', () => {
+    const lut = parseCubeLut(INVERT);
+
+    for (const value of applyLut(lut, [0.2, 0.4, 1], 'tetrahedral', 0.5)) {
+      expect(value).toBeCloseTo(0.5);
+    }
+    expect(applyLut(lut, [0.2, 0.4, 1], 'tetrahedral', 0)).toEqual([
+      0.2, 0.4, 1,
+    ]);
+  });
+
+  it('should clamp colors outside the domain', () => {
+    const lut = parseCubeLut(INVERT);
+    expect(applyLut(lut, [-1, 2, 0.5])).toEqual([1, 0, 0.5]);
+  });
+});
+
+describe('lut option', () => {
+  it('should apply the LUT to RGB output', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+      inputFormat: 'arw',
+      lut: { buffer: Buffer.from(INVERT) },
+    });
+
+    expect([...result.buffer.subarray(0, 3)]).toEqual([0x7f, 0x7f, 0x7f]);
+  });
+
+  it('should read the LUT from a file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lut-'));
+    const lutPath = path.join(dir, 'invert.cube');
+    fs.writeFileSync(lutPath, INVERT);
+    const converter = createConverter({ backend: createStubBackend() });
+
+    try {
+      const result = converter.convertRaw(
+        Buffer.from('raw'),
+        OutputFormat.RGB,
+        { inputFormat: 'arw', lut: { path: lutPath, strength: 0 } }
+      );
+      expect([...result.buffer.subarray(0, 3)]).toEqual([0x80, 0x80, 0x80]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report unreadable and malformed LUTs', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+    const convert = (lut: { path?: string; buffer?: Buffer }) => {
+      try {
+        converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+          inputFormat: 'arw',
+          lut,
+        });
+        return undefined;
+      } catch (error) {
+        return error as RawConvertError;
+      }
+    };
+
+    expect(convert({ path: '/nonexistent/grade.cube' })).toMatchObject({
+      code: 'FILE_NOT_FOUND',
+      message: 'Failed to read LUT file: /nonexistent/grade.cube',
+    });
+    expect(convert({ buffer: Buffer.from('0 0 0') })).toMatchObject({
+      code: 'INVALID_OPTIONS',
+      message: 'Invalid LUT: missing LUT_1D_SIZE or LUT_3D_SIZE',
+    });
+  });
+
+  it('should validate the options', () => {
+    expect(
+      validateOptions(OutputFormat.JPEG, {
+        lut: { path: 'grade.cube', strength: 0.5, interpolation: 'trilinear' },
+      })
+    ).toEqual([]);
+
+    const issues = [
+      { lut: {} },
+      { lut: { path: 'grade.cube', buffer: Buffer.from('') } },
+      { lut: { path: 3 } },
+      { lut: { buffer: 'LUT_3D_SIZE 2' } },
+      { lut: { path: 'grade.cube', strength: 2, interpolation: 'cubic' } },
+    ].flatMap((options) =>
+      validateOptions(OutputFormat.JPEG, options as never)
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'lut must set path or buffer',
+      'lut must set either path or buffer, not both',
+      'lut.path must be a string',
+      'lut.buffer must be a Buffer',
+      'lut.strength must be between 0 and 1, got 2',
+      'lut.interpolation must be one of: trilinear, tetrahedral',
+    ]);
+  });
+});
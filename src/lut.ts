@@ -0,0 +1,333 @@
+import fs from 'fs';
+import type { LutInterpolation, LutOptions } from './types.js';
+
+/**
+ * An RGB triple
+ */
+export type Rgb = [number, number, number];
+
+/**
+ * A 1D or 3D table of a .cube file
+ */
+export interface LutTable {
+  /** Entries per channel (1D) or per axis (3D) */
+  size: number;
+  /** RGB entries; 3D tables vary red fastest, then green, then blue */
+  data: Float32Array;
+  /** Input values mapped to the first entry */
+  domainMin: Rgb;
+  /** Input values mapped to the last entry */
+  domainMax: Rgb;
+}
+
+/**
+ * A parsed .cube file. Files with both tables apply the 1D table first, as a
+ * shaper for the 3D table.
+ */
+export interface CubeLut {
+  title?: string;
+  table1D?: LutTable;
+  table3D?: LutTable;
+}
+
+/**
+ * Read the numbers after a keyword
+ */
+function readNumbers(values: string[], count: number, keyword: string) {
+  const numbers = values.map(Number);
+  if (numbers.length !== count || !numbers.every(Number.isFinite)) {
+    throw new Error(`Invalid LUT: ${keyword} must have ${count} numbers`);
+  }
+  return numbers;
+}
+
+/**
+ * Read a table size keyword
+ */
+function readSize(values: string[], keyword: string, max: number): number {
+  const size = values.length === 1 ? Number(values[0]) : NaN;
+  if (!Number.isInteger(size) || size < 2 || size > max) {
+    throw new Error(`Invalid LUT: ${keyword} must be between 2 and ${max}`);
+  }
+  return size;
+}
+
+/**
+ * Parse an Adobe or Resolve .cube LUT. Mirrors ParseCubeLut in
+ * raw_converter.mm.
+ * @param text - Contents of the .cube file
+ * @throws {Error} If the file is malformed
+ * @returns The 1D and 3D tables the file declares
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | undefined;
+  let size1D = 0;
+  let size3D = 0;
+  let domain: [Rgb, Rgb] | undefined;
+  let range1D: [Rgb, Rgb] | undefined;
+  let range3D: [Rgb, Rgb] | undefined;
+  const entries: number[] = [];
+
+  for (const [index, rawLine] of text.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const [keyword, ...values] = line.split(/\s+/);
+    if (/^[-+.\d]/.test(keyword)) {
+      const entry = [keyword, ...values].map(Number);
+      if (entry.length !== 3 || !entry.every(Number.isFinite)) {
+        throw new Error(`Invalid LUT: line ${index + 1} must have 3 numbers`);
+      }
+      entries.push(...entry);
+      continue;
+    }
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line
+          .slice(keyword.length)
+          .trim()
+          .replace(/^"(.*)"$/, '$1');
+        break;
+      case 'LUT_1D_SIZE':
+        size1D = readSize(values, keyword, 65536);
+        break;
+      case 'LUT_3D_SIZE':
+        size3D = readSize(values, keyword, 256);
+        break;
+      case 'DOMAIN_MIN':
+      case 'DOMAIN_MAX': {
+        const bound = readNumbers(values, 3, keyword) as Rgb;
+        domain ??= [
+          [0, 0, 0],
+          [1, 1, 1],
+        ];
+        domain[keyword === 'DOMAIN_MIN' ? 0 : 1] = bound;
+        break;
+      }
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        const [min, max] = readNumbers(values, 2, keyword);
+        const range: [Rgb, Rgb] = [
+          [min, min, min],
+          [max, max, max],
+        ];
+        if (keyword === 'LUT_1D_INPUT_RANGE') {
+          range1D = range;
+        } else {
+          range3D = range;
+        }
+        break;
+      }
+      // Other keywords, such as LUT_IN_VIDEO_RANGE, do not change the table
+    }
+  }
+
+  if (!size1D && !size3D) {
+    throw new Error('Invalid LUT: missing LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+  const expected = size1D + size3D ** 3;
+  if (entries.length !== expected * 3) {
+    throw new Error(
+      `Invalid LUT: expected ${expected} entries, got ${entries.length / 3}`
+    );
+  }
+
+  const table = (
+    size: number,
+    start: number,
+    count: number,
+    [domainMin, domainMax]: [Rgb, Rgb] = [
+      [0, 0, 0],
+      [1, 1, 1],
+    ]
+  ): LutTable => {
+    if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+      throw new Error('Invalid LUT: DOMAIN_MIN must be less than DOMAIN_MAX');
+    }
+    return {
+      size,
+      data: Float32Array.from(entries.slice(start * 3, (start + count) * 3)),
+      domainMin,
+      domainMax,
+    };
+  };
+
+  const lut: CubeLut = {};
+  if (title !== undefined) {
+    lut.title = title;
+  }
+  if (size1D) {
+    lut.table1D = table(size1D, 0, size1D, range1D ?? domain);
+  }
+  if (size3D) {
+    lut.table3D = table(size3D, size1D, size3D ** 3, range3D ?? domain);
+  }
+  return lut;
+}
+
+/**
+ * Read and parse the .cube file of the lut option
+ * @throws {Error} If the file cannot be read or is malformed
+ */
+export function readLut(options: LutOptions): CubeLut {
+  if (options.buffer) {
+    return parseCubeLut(options.buffer.toString('utf8'));
+  }
+  let text: string;
+  try {
+    text = fs.readFileSync(options.path ?? '', 'utf8');
+  } catch {
+    throw new Error(`Failed to read LUT file: ${options.path}`);
+  }
+  return parseCubeLut(text);
+}
+
+/**
+ * Position of a value in a table, from 0 to size - 1
+ */
+function position(table: LutTable, value: number, channel: number): number {
+  const min = table.domainMin[channel];
+  const max = table.domainMax[channel];
+  const normalized = Math.min(1, Math.max(0, (value - min) / (max - min)));
+  return normalized * (table.size - 1);
+}
+
+/**
+ * Look up each channel in a 1D table, interpolating linearly
+ */
+function apply1D(table: LutTable, rgb: Rgb): Rgb {
+  return rgb.map((value, channel) => {
+    const at = position(table, value, channel);
+    const index = Math.min(Math.floor(at), table.size - 2);
+    const fraction = at - index;
+    const low = table.data[index * 3 + channel];
+    const high = table.data[(index + 1) * 3 + channel];
+    return low + (high - low) * fraction;
+  }) as Rgb;
+}
+
+/**
+ * Look up a color in a 3D table
+ */
+function apply3D(
+  table: LutTable,
+  rgb: Rgb,
+  interpolation: LutInterpolation
+): Rgb {
+  const { size, data } = table;
+  const cell: number[] = [];
+  const fractions: number[] = [];
+  for (const [channel, value] of rgb.entries()) {
+    const at = position(table, value, channel);
+    cell.push(Math.min(Math.floor(at), size - 2));
+    fractions.push(at - cell[channel]);
+  }
+  const [fr, fg, fb] = fractions;
+
+  // Entry at a corner of the cell, given as red, green and blue offsets
+  const corner = (r: number, g: number, b: number, channel: number) =>
+    data[
+      ((cell[2] + b) * size * size + (cell[1] + g) * size + cell[0] + r) * 3 +
+        channel
+    ];
+
+  return [0, 1, 2].map((channel) => {
+    const c = (r: number, g: number, b: number) => corner(r, g, b, channel);
+    if (interpolation === 'trilinear') {
+      const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+      return lerp(
+        lerp(
+          lerp(c(0, 0, 0), c(1, 0, 0), fr),
+          lerp(c(0, 1, 0), c(1, 1, 0), fr),
+          fg
+        ),
+        lerp(
+          lerp(c(0, 0, 1), c(1, 0, 1), fr),
+          lerp(c(0, 1, 1), c(1, 1, 1), fr),
+          fg
+        ),
+        fb
+      );
+    }
+
+    // Tetrahedral: split the cell into six tetrahedra along its diagonal and
+    // interpolate within the one containing the color
+    const origin = c(0, 0, 0);
+    const end = c(1, 1, 1);
+    if (fr > fg) {
+      if (fg > fb) {
+        return (
+          origin +
+          fr * (c(1, 0, 0) - origin) +
+          fg * (c(1, 1, 0) - c(1, 0, 0)) +
+          fb * (end - c(1, 1, 0))
+        );
+      }
+      if (fr > fb) {
+        return (
+          origin +
+          fr * (c(1, 0, 0) - origin) +
+          fb * (c(1, 0, 1) - c(1, 0, 0)) +
+          fg * (end - c(1, 0, 1))
+        );
+      }
+      return (
+        origin +
+        fb * (c(0, 0, 1) - origin) +
+        fr * (c(1, 0, 1) - c(0, 0, 1)) +
+        fg * (end - c(1, 0, 1))
+      );
+    }
+    if (fb > fg) {
+      return (
+        origin +
+        fb * (c(0, 0, 1) - origin) +
+        fg * (c(0, 1, 1) - c(0, 0, 1)) +
+        fr * (end - c(0, 1, 1))
+      );
+    }
+    if (fb > fr) {
+      return (
+        origin +
+        fg * (c(0, 1, 0) - origin) +
+        fb * (c(0, 1, 1) - c(0, 1, 0)) +
+        fr * (end - c(0, 1, 1))
+      );
+    }
+    return (
+      origin +
+      fg * (c(0, 1, 0) - origin) +
+      fr * (c(1, 1, 0) - c(0, 1, 0)) +
+      fb * (end - c(1, 1, 0))
+    );
+  }) as Rgb;
+}
+
+/**
+ * Grade a color with a LUT. Mirrors kCubeLutKernel in raw_converter.mm.
+ * @param lut - Parsed .cube file
+ * @param rgb - Color to grade, as encoded in the output color space
+ * @param interpolation - Interpolation of the 3D table
+ * @param strength - Blend from the original (0) to the graded color (1)
+ * @returns The graded color
+ */
+export function applyLut(
+  lut: CubeLut,
+  rgb: Rgb,
+  interpolation: LutInterpolation = 'tetrahedral',
+  strength = 1
+): Rgb {
+  let graded = rgb;
+  if (lut.table1D) {
+    graded = apply1D(lut.table1D, graded);
+  }
+  if (lut.table3D) {
+    graded = apply3D(lut.table3D, graded, interpolation);
+  }
+  return graded.map(
+    (value, channel) => rgb[channel] + (value - rgb[channel]) * strength
+  ) as Rgb;
+}
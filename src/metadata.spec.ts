@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { readMetadata } from './index.js';
+import { buildTiff, type FixtureIfd } from './test-fixtures.js';
+import { TiffTag } from './tiff.js';
+
+const exifIfd: FixtureIfd = {
+  entries: [
+    { tag: TiffTag.ExposureTime, type: 5, values: [0.008] },
+    { tag: TiffTag.FNumber, type: 5, values: [8] },
+    { tag: TiffTag.ISOSpeedRatings, type: 3, values: [100] },
+    { tag: TiffTag.DateTimeOriginal, type: 2, values: '2025:01:02 03:04:05' },
+    { tag: TiffTag.ExposureBiasValue, type: 10, values: [-0.7] },
+    { tag: TiffTag.FocalLength, type: 5, values: [15] },
+    { tag: TiffTag.ExposureMode, type: 3, values: [1] },
+    { tag: TiffTag.WhiteBalance, type: 3, values: [0] },
+    { tag: TiffTag.FocalLengthIn35mmFilm, type: 3, values: [22] },
+    { tag: TiffTag.LensModel, type: 2, values: 'E PZ 10-30mm F4 G' },
+    { tag: TiffTag.PixelXDimension, type: 4, values: [6000] },
+    { tag: TiffTag.PixelYDimension, type: 4, values: [4000] },
+  ],
+};
+
+const gpsIfd: FixtureIfd = {
+  entries: [
+    { tag: TiffTag.GPSLatitudeRef, type: 2, values: 'S' },
+    { tag: TiffTag.GPSLatitude, type: 5, values: [33, 52, 4.8] },
+    { tag: TiffTag.GPSLongitudeRef, type: 2, values: 'E' },
+    { tag: TiffTag.GPSLongitude, type: 5, values: [151, 12, 36] },
+    { tag: TiffTag.GPSAltitudeRef, type: 1, values: [0] },
+    { tag: TiffTag.GPSAltitude, type: 5, values: [58] },
+  ],
+};
+
+function buildArw(options: { bigEndian?: boolean; orientation?: number }) {
+  return buildTiff(
+    [
+      {
+        entries: [
+          { tag: TiffTag.NewSubfileType, type: 4, values: [1] },
+          { tag: TiffTag.ImageWidth, type: 4, values: [1616] },
+          { tag: TiffTag.ImageLength, type: 4, values: [1080] },
+          { tag: TiffTag.Make, type: 2, values: 'SONY' },
+          { tag: TiffTag.Model, type: 2, values: 'ZV-E10' },
+          {
+            tag: TiffTag.Orientation,
+            type: 3,
+            values: [options.orientation ?? 1],
+          },
+          { tag: TiffTag.Software, type: 2, values: 'ZV-E10 v2.00' },
+        ],
+        children: [
+          { tag: TiffTag.ExifIFD, ifds: [exifIfd] },
+          { tag: TiffTag.GPSIFD, ifds: [gpsIfd] },
+          {
+            tag: TiffTag.SubIFDs,
+            ifds: [
+              {
+                entries: [
+                  { tag: TiffTag.NewSubfileType, type: 4, values: [0] },
+                  { tag: TiffTag.ImageWidth, type: 4, values: [6048] },
+                  { tag: TiffTag.ImageLength, type: 4, values: [4024] },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    { bigEndian: options.bigEndian }
+  );
+}
+
+describe('readMetadata', () => {
+  it('should read camera, exposure and lens metadata from EXIF', () => {
+    const metadata = readMetadata(buildArw({}));
+
+    expect(metadata).toMatchObject({
+      width: 6000,
+      height: 4000,
+      cameraMake: 'SONY',
+      cameraModel: 'ZV-E10',
+      software: 'ZV-E10 v2.00',
+      orientation: 1,
+      shutterSpeed: 0.008,
+      fNumber: 8,
+      iso: 100,
+      exposureBias: -0.7,
+      exposureMode: 1,
+      whiteBalance: 0,
+      focalLength: 15,
+      focalLength35mm: 22,
+      lensModel: 'E PZ 10-30mm F4 G',
+      dateTimeOriginal: '2025:01:02 03:04:05',
+    });
+    expect(metadata.lensMake).toBeUndefined();
+  });
+
+  it('should read big-endian files', () => {
+    const metadata = readMetadata(buildArw({ bigEndian: true }));
+    expect(metadata.cameraMake).toBe('SONY');
+    expect(metadata.iso).toBe(100);
+  });
+
+  it('should convert GPS coordinates to signed decimal degrees', () => {
+    const metadata = readMetadata(buildArw({}));
+    expect(metadata.latitude).toBeCloseTo(-33.868, 3);
+    expect(metadata.longitude).toBeCloseTo(151.21, 3);
+    expect(metadata.altitude).toBe(58);
+  });
+
+  it('should swap dimensions for rotated orientations', () => {
+    const metadata = readMetadata(buildArw({ orientation: 6 }));
+    expect(metadata.width).toBe(4000);
+    expect(metadata.height).toBe(6000);
+  });
+
+  it('should prefer the DNG default crop size of the raw IFD', () => {
+    const dng = buildTiff([
+      {
+        entries: [
+          { tag: TiffTag.NewSubfileType, type: 4, values: [1] },
+          { tag: TiffTag.Make, type: 2, values: 'Hasselblad' },
+          { tag: TiffTag.Model, type: 2, values: 'L2D-20c' },
+          { tag: TiffTag.DNGVersion, type: 1, values: [1, 4, 0, 0] },
+          { tag: TiffTag.ExposureTime, type: 5, values: [1 / 60] },
+        ],
+        children: [
+          {
+            tag: TiffTag.SubIFDs,
+            ifds: [
+              {
+                entries: [
+                  { tag: TiffTag.NewSubfileType, type: 4, values: [0] },
+                  { tag: TiffTag.ImageWidth, type: 4, values: [5280] },
+                  { tag: TiffTag.ImageLength, type: 4, values: [2970] },
+                  {
+                    tag: TiffTag.DefaultCropSize,
+                    type: 4,
+                    values: [5272, 2962],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const metadata = readMetadata(dng);
+    expect(metadata.width).toBe(5272);
+    expect(metadata.height).toBe(2962);
+    expect(metadata.cameraMake).toBe('Hasselblad');
+    // EXIF tags stored directly in IFD0
+    expect(metadata.shutterSpeed).toBeCloseTo(1 / 60, 3);
+  });
+
+  it('should reject inputs that are not RAW containers', () => {
+    expect(() => readMetadata(Buffer.from('not a raw file'))).toThrow(
+      'Unsupported RAW container'
+    );
+    expect(() => readMetadata(Buffer.alloc(0))).toThrow(
+      'Input buffer is empty'
+    );
+    expect(() => readMetadata('/nonexistent/file.arw')).toThrow(
+      'Failed to read file from path'
+    );
+  });
+});
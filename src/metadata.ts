@@ -0,0 +1,207 @@
+import {
+  openRawFile,
+  readRawInput,
+  type RawFileStructure,
+  type TagSource,
+} from './raw-file.js';
+import { TiffTag } from './tiff.js';
+import type { ImageMetadata } from './types.js';
+
+/**
+ * Read the first numeric value of a tag from the first source that has it
+ */
+function findNumber(
+  sources: (TagSource | undefined)[],
+  tag: number
+): number | undefined {
+  for (const source of sources) {
+    const value = source && source.reader.getNumber(source.ifd, tag);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a string tag from the first source that has it
+ */
+function findString(
+  sources: (TagSource | undefined)[],
+  tag: number
+): string | undefined {
+  for (const source of sources) {
+    const value = source && source.reader.getString(source.ifd, tag);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert a GPS degrees/minutes/seconds triple to decimal degrees
+ */
+function gpsCoordinate(
+  gps: TagSource,
+  valueTag: number,
+  refTag: number,
+  negativeRef: string
+): number | undefined {
+  const parts = gps.reader.getNumbers(gps.ifd, valueTag);
+  const ref = gps.reader.getString(gps.ifd, refTag);
+  if (!parts || parts.length === 0 || !ref) {
+    return undefined;
+  }
+
+  const [degrees, minutes = 0, seconds = 0] = parts;
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref.toUpperCase() === negativeRef ? -value : value;
+}
+
+/**
+ * Determine the dimensions Core Image renders the RAW image at, before
+ * orientation is applied
+ */
+function rawDimensions(
+  structure: RawFileStructure
+): { width: number; height: number } | undefined {
+  if (structure.rawSize) {
+    return structure.rawSize;
+  }
+
+  // Full-resolution image IFDs have NewSubfileType 0
+  const fullResolution = structure.images.filter(
+    ({ reader, ifd }) =>
+      (reader.getNumber(ifd, TiffTag.NewSubfileType) ?? 0) === 0
+  );
+
+  for (const { reader, ifd } of fullResolution) {
+    const cropSize = reader.getNumbers(ifd, TiffTag.DefaultCropSize);
+    if (cropSize && cropSize.length === 2) {
+      return {
+        width: Math.round(cropSize[0]),
+        height: Math.round(cropSize[1]),
+      };
+    }
+  }
+
+  const exifWidth = findNumber([structure.exif], TiffTag.PixelXDimension);
+  const exifHeight = findNumber([structure.exif], TiffTag.PixelYDimension);
+  if (exifWidth && exifHeight) {
+    return { width: exifWidth, height: exifHeight };
+  }
+
+  let largest: { width: number; height: number } | undefined;
+  for (const { reader, ifd } of fullResolution) {
+    const width = reader.getNumber(ifd, TiffTag.ImageWidth);
+    const height = reader.getNumber(ifd, TiffTag.ImageLength);
+    if (
+      width &&
+      height &&
+      (!largest || width * height > largest.width * largest.height)
+    ) {
+      largest = { width, height };
+    }
+  }
+  return largest;
+}
+
+/**
+ * Read image metadata directly from the TIFF/EXIF structures of a RAW file,
+ * without decoding the image or loading the native addon.
+ *
+ * Supports TIFF-based formats (ARW, DNG, NEF, CR2, ORF, RW2, PEF, SRW) as well
+ * as CR3 and RAF. Width and height are the expected rendered dimensions, with
+ * the EXIF orientation applied as Core Image does by default.
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @throws {RawConvertError} If the input is invalid, unreadable or not a supported RAW container
+ * @returns ImageMetadata with the same fields as the extractMetadata option
+ */
+export function readMetadata(input: Buffer | string): ImageMetadata {
+  const structure = openRawFile(readRawInput(input));
+  const { primary, exif, gps } = structure;
+  // Some cameras record EXIF tags in IFD0 rather than the EXIF IFD
+  const exifSources = [exif, primary];
+  const metadata: ImageMetadata = {};
+
+  const orientation = findNumber([primary], TiffTag.Orientation);
+  const dimensions = rawDimensions(structure);
+  if (dimensions) {
+    // Orientations 5-8 swap the axes
+    const swap = orientation !== undefined && orientation >= 5;
+    metadata.width = swap ? dimensions.height : dimensions.width;
+    metadata.height = swap ? dimensions.width : dimensions.height;
+  }
+
+  const fields: [keyof ImageMetadata, number][] = [
+    ['focalLength35mm', TiffTag.FocalLengthIn35mmFilm],
+    ['focalLength', TiffTag.FocalLength],
+    ['shutterSpeed', TiffTag.ExposureTime],
+    ['fNumber', TiffTag.FNumber],
+    ['iso', TiffTag.ISOSpeedRatings],
+    ['exposureBias', TiffTag.ExposureBiasValue],
+    ['exposureMode', TiffTag.ExposureMode],
+    ['whiteBalance', TiffTag.WhiteBalance],
+  ];
+  for (const [key, tag] of fields) {
+    const value = findNumber(exifSources, tag);
+    if (value !== undefined) {
+      (metadata as Record<string, number>)[key] = value;
+    }
+  }
+
+  const stringFields: [
+    keyof ImageMetadata,
+    number,
+    (TagSource | undefined)[],
+  ][] = [
+    ['cameraMake', TiffTag.Make, [primary]],
+    ['cameraModel', TiffTag.Model, [primary]],
+    ['lensMake', TiffTag.LensMake, exifSources],
+    ['lensModel', TiffTag.LensModel, exifSources],
+    ['dateTimeOriginal', TiffTag.DateTimeOriginal, exifSources],
+    ['software', TiffTag.Software, [primary]],
+  ];
+  for (const [key, tag, sources] of stringFields) {
+    const value = findString(sources, tag);
+    if (value !== undefined) {
+      (metadata as Record<string, string>)[key] = value;
+    }
+  }
+
+  if (orientation !== undefined) {
+    metadata.orientation = orientation;
+  }
+
+  if (gps) {
+    const latitude = gpsCoordinate(
+      gps,
+      TiffTag.GPSLatitude,
+      TiffTag.GPSLatitudeRef,
+      'S'
+    );
+    if (latitude !== undefined) {
+      metadata.latitude = latitude;
+    }
+
+    const longitude = gpsCoordinate(
+      gps,
+      TiffTag.GPSLongitude,
+      TiffTag.GPSLongitudeRef,
+      'W'
+    );
+    if (longitude !== undefined) {
+      metadata.longitude = longitude;
+    }
+
+    const altitude = gps.reader.getNumber(gps.ifd, TiffTag.GPSAltitude);
+    if (altitude !== undefined) {
+      // AltitudeRef 1 means below sea level
+      const below = gps.reader.getNumber(gps.ifd, TiffTag.GPSAltitudeRef) === 1;
+      metadata.altitude = below ? -altitude : altitude;
+    }
+  }
+
+  return metadata;
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AbortError,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+  validateRenditions,
+  type ConverterBackend,
+} from './index.js';
+
+const raw = Buffer.from('raw');
+
+describe('convertRawMulti', () => {
+  it('should decode once and return one output per rendition', () => {
+    const stub = createStubBackend({ width: 40, height: 30 });
+    const converter = createConverter({ backend: stub });
+
+    const results = converter.convertRawMulti(
+      raw,
+      [
+        { format: OutputFormat.JPEG, options: { quality: 0.9 } },
+        { format: OutputFormat.RGB, scale: 0.5 },
+        { format: OutputFormat.PNG, scale: 0.1 },
+      ],
+      { inputFormat: 'arw', extractMetadata: true }
+    );
+
+    expect(stub.calls).toHaveLength(1);
+    expect(stub.calls[0].format).toBe('jpeg,rgb,png');
+    expect(results).toHaveLength(3);
+    expect(results[0].buffer.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+    expect(results[0].metadata).toMatchObject({ width: 40, height: 30 });
+    expect(results[1].buffer.length).toBe(20 * 15 * 3);
+    expect(results[2].metadata).toMatchObject({ width: 4, height: 3 });
+  });
+
+  it('should merge shared options into each rendition', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRawMulti(
+      raw,
+      [
+        { format: OutputFormat.HEIC, options: { quality: 0.6 } },
+        { format: OutputFormat.TIFF },
+      ],
+      { inputFormat: 'arw', exposure: 0.5 }
+    );
+
+    const [heic, tiff] = stub.calls[0].renditions!;
+    expect(stub.calls[0].options).toMatchObject({ exposure: 0.5 });
+    expect(heic).toMatchObject({
+      format: 'heic',
+      scale: 1,
+      options: { exposure: 0.5, quality: 0.6 },
+    });
+    expect(tiff.options).not.toHaveProperty('quality');
+  });
+
+  it('should normalize rendition formats and reject unsupported ones', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRawMulti(raw, [{ format: ' JPEG ' as OutputFormat }], {
+      inputFormat: 'arw',
+    });
+    expect(stub.calls[0].renditions![0].format).toBe('jpeg');
+
+    expect(() =>
+      converter.convertRawMulti(raw, [{ format: 'bmp' as OutputFormat }], {
+        inputFormat: 'arw',
+      })
+    ).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_FORMAT' }));
+    expect(() => converter.convertRawMulti(raw, [])).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+  });
+
+  it('should report invalid rendition options per rendition', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    let error: RawConvertError | undefined;
+    try {
+      converter.convertRawMulti(
+        raw,
+        [
+          { format: OutputFormat.JPEG, options: { quality: 2 } },
+          { format: OutputFormat.PNG, scale: 0 },
+        ],
+        { inputFormat: 'arw', strict: true }
+      );
+    } catch (caught) {
+      error = caught as RawConvertError;
+    }
+
+    expect(error?.code).toBe('INVALID_OPTIONS');
+    expect(error?.issues?.map((issue) => issue.key)).toEqual([
+      'renditions[0].quality',
+      'renditions[1].scale',
+    ]);
+  });
+
+  it('should drop conversion options inside a rendition', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRawMulti(
+      raw,
+      [
+        {
+          format: OutputFormat.JPEG,
+          options: { quality: 0.8, exposure: 2, colorSpace: 'prophoto' },
+        } as never,
+      ],
+      { inputFormat: 'arw', exposure: 0.5 }
+    );
+
+    expect(stub.calls[0].renditions![0].options).toEqual({
+      inputFormat: 'arw',
+      exposure: 0.5,
+      quality: 0.8,
+    });
+  });
+
+  it('should fall back to one conversion per rendition', () => {
+    const stub = createStubBackend({ width: 40, height: 30 });
+    const backend: ConverterBackend = {
+      convertRaw: stub.convertRaw,
+      convertRawAsync: stub.convertRawAsync,
+    };
+    const converter = createConverter({ backend });
+
+    const results = converter.convertRawMulti(
+      raw,
+      [{ format: OutputFormat.JPEG }, { format: OutputFormat.RGB, scale: 0.5 }],
+      { inputFormat: 'arw', scaleFactor: 0.5 }
+    );
+
+    expect(stub.calls.map((call) => call.options.scaleFactor)).toEqual([
+      0.5, 0.25,
+    ]);
+    expect(results[1].buffer.length).toBe(10 * 8 * 3);
+  });
+});
+
+describe('convertRawMultiAsync', () => {
+  it('should resolve with one output per rendition', async () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    const results = await converter.convertRawMultiAsync(
+      raw,
+      [{ format: OutputFormat.JPEG }, { format: OutputFormat.PNG }],
+      { inputFormat: 'arw' }
+    );
+
+    expect(stub.calls).toHaveLength(1);
+    expect(results.map((result) => result.buffer[1])).toEqual([0xd8, 0x50]);
+  });
+
+  it('should cancel the conversion when the signal aborts', async () => {
+    const stub = createStubBackend({ delayMs: 20 });
+    const converter = createConverter({ backend: stub });
+    const controller = new AbortController();
+
+    const promise = converter.convertRawMultiAsync(
+      raw,
+      [{ format: OutputFormat.JPEG }],
+      { inputFormat: 'arw', signal: controller.signal }
+    );
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should fail when any rendition fails on a backend without multi-output support', async () => {
+    const stub = createStubBackend();
+    const backend: ConverterBackend = {
+      convertRaw: stub.convertRaw,
+      convertRawAsync: stub.convertRawAsync,
+    };
+    const converter = createConverter({ backend });
+
+    await expect(
+      converter.convertRawMultiAsync('/missing/a.arw', [
+        { format: OutputFormat.JPEG },
+        { format: OutputFormat.PNG },
+      ])
+    ).rejects.toMatchObject({ code: 'FILE_NOT_FOUND', format: 'jpeg,png' });
+  });
+});
+
+describe('validateRenditions', () => {
+  it('should report shared option problems once', () => {
+    const issues = validateRenditions(
+      [{ format: OutputFormat.JPEG }, { format: OutputFormat.PNG }],
+      { boost: 2 }
+    );
+
+    expect(issues).toEqual([
+      {
+        code: 'OUT_OF_RANGE',
+        key: 'boost',
+        message: 'boost must be between 0 and 1, got 2',
+      },
+    ]);
+  });
+
+  it('should reject conversion options inside a rendition', () => {
+    const issues = validateRenditions(
+      [
+        {
+          format: OutputFormat.PNG,
+          options: { exposure: 1, quality: 0.5 } as never,
+        },
+      ],
+      {}
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'renditions[0].exposure is not a rendition option',
+      'renditions[0].quality is not supported for png output',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { extractPreviews, getLargestPreview } from './index.js';
+import { buildJpeg, buildTiff } from './test-fixtures.js';
+import { TiffTag } from './tiff.js';
+
+describe('Embedded previews', () => {
+  const thumbnail = buildJpeg(160, 120);
+  const preview = buildJpeg(1616, 1080, { payloadSize: 64 });
+
+  const arw = buildTiff([
+    {
+      entries: [
+        { tag: TiffTag.Make, type: 2, values: 'SONY' },
+        { tag: TiffTag.Orientation, type: 3, values: [6] },
+      ],
+      blobs: [
+        {
+          offsetTag: TiffTag.JPEGInterchangeFormat,
+          lengthTag: TiffTag.JPEGInterchangeFormatLength,
+          data: preview,
+        },
+      ],
+    },
+    {
+      entries: [],
+      blobs: [
+        {
+          offsetTag: TiffTag.JPEGInterchangeFormat,
+          lengthTag: TiffTag.JPEGInterchangeFormatLength,
+          data: thumbnail,
+        },
+      ],
+    },
+  ]);
+
+  it('should list every embedded JPEG with its dimensions and location', () => {
+    const previews = extractPreviews(arw);
+
+    expect(previews).toHaveLength(2);
+    expect(previews.map(({ width, height }) => [width, height])).toEqual([
+      [1616, 1080],
+      [160, 120],
+    ]);
+    for (const found of previews) {
+      expect(arw[found.offset]).toBe(0xff);
+      expect(arw[found.offset + 1]).toBe(0xd8);
+      expect(arw[found.offset + found.length - 1]).toBe(0xd9);
+    }
+  });
+
+  it('should return the largest preview as an OutputImage', () => {
+    const largest = getLargestPreview(arw);
+
+    expect(largest).toBeDefined();
+    expect(largest!.buffer.equals(preview)).toBe(true);
+    expect(largest!.metadata).toEqual({
+      width: 1616,
+      height: 1080,
+      orientation: 6,
+    });
+  });
+
+  it('should find DNG preview strips and skip lossless RAW data', () => {
+    const dng = buildTiff([
+      {
+        entries: [
+          { tag: TiffTag.NewSubfileType, type: 4, values: [1] },
+          { tag: TiffTag.Compression, type: 3, values: [7] },
+          { tag: TiffTag.DNGVersion, type: 1, values: [1, 4, 0, 0] },
+        ],
+        blobs: [
+          {
+            offsetTag: TiffTag.StripOffsets,
+            lengthTag: TiffTag.StripByteCounts,
+            data: buildJpeg(1024, 768),
+          },
+        ],
+        children: [
+          {
+            tag: TiffTag.SubIFDs,
+            ifds: [
+              {
+                entries: [
+                  { tag: TiffTag.NewSubfileType, type: 4, values: [0] },
+                  { tag: TiffTag.Compression, type: 3, values: [7] },
+                ],
+                blobs: [
+                  {
+                    offsetTag: TiffTag.StripOffsets,
+                    lengthTag: TiffTag.StripByteCounts,
+                    data: buildJpeg(5280, 2970, { lossless: true }),
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const previews = extractPreviews(dng);
+    expect(previews).toHaveLength(1);
+    expect(previews[0].width).toBe(1024);
+    expect(previews[0].height).toBe(768);
+  });
+
+  it('should return undefined when there is no preview', () => {
+    const bare = buildTiff([
+      { entries: [{ tag: TiffTag.Make, type: 2, values: 'NIKON' }] },
+    ]);
+    expect(extractPreviews(bare)).toEqual([]);
+    expect(getLargestPreview(bare)).toBeUndefined();
+  });
+});
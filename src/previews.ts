@@ -0,0 +1,146 @@
+import {
+  openRawFile,
+  readJpegFrame,
+  readRawInput,
+  type RawFileStructure,
+} from './raw-file.js';
+import { TiffTag } from './tiff.js';
+import type { ImageMetadata, OutputImage } from './types.js';
+
+/**
+ * A JPEG preview embedded in a RAW file
+ */
+export interface EmbeddedPreview {
+  /** Preview width in pixels */
+  width: number;
+  /** Preview height in pixels */
+  height: number;
+  /** Byte offset of the JPEG stream within the RAW file */
+  offset: number;
+  /** Length of the JPEG stream in bytes */
+  length: number;
+}
+
+// Old-style and new-style JPEG compression
+const JPEG_COMPRESSION = [6, 7];
+
+/**
+ * Find every embedded JPEG in an opened RAW file
+ */
+function findPreviews(
+  buffer: Buffer,
+  structure: RawFileStructure
+): EmbeddedPreview[] {
+  const previews: EmbeddedPreview[] = [];
+  const seen = new Set<number>();
+
+  const addCandidate = (offset: number, length: number) => {
+    if (
+      seen.has(offset) ||
+      length <= 0 ||
+      offset < 0 ||
+      offset + length > buffer.length
+    ) {
+      return;
+    }
+    const frame = readJpegFrame(buffer, offset, offset + length);
+    // Lossless JPEG streams hold the RAW sensor data, not a preview
+    if (!frame || frame.lossless || frame.width === 0 || frame.height === 0) {
+      return;
+    }
+    seen.add(offset);
+    previews.push({
+      width: frame.width,
+      height: frame.height,
+      offset,
+      length,
+    });
+  };
+
+  for (const { reader, ifd } of structure.images) {
+    // ARW/NEF/PEF previews and EXIF thumbnails (JpgFromRaw, PreviewImage)
+    const jpegOffset = reader.getNumber(ifd, TiffTag.JPEGInterchangeFormat);
+    const jpegLength = reader.getNumber(
+      ifd,
+      TiffTag.JPEGInterchangeFormatLength
+    );
+    if (jpegOffset !== undefined && jpegLength !== undefined) {
+      addCandidate(reader.base + jpegOffset, jpegLength);
+    }
+
+    // DNG PreviewIFDs and CR2 IFD0 store the JPEG as a single strip
+    const compression = reader.getNumber(ifd, TiffTag.Compression);
+    const stripOffsets = reader.getNumbers(ifd, TiffTag.StripOffsets);
+    const stripLengths = reader.getNumbers(ifd, TiffTag.StripByteCounts);
+    if (
+      compression !== undefined &&
+      JPEG_COMPRESSION.includes(compression) &&
+      stripOffsets?.length === 1 &&
+      stripLengths?.length === 1
+    ) {
+      addCandidate(reader.base + stripOffsets[0], stripLengths[0]);
+    }
+  }
+
+  if (structure.embeddedJpeg) {
+    addCandidate(structure.embeddedJpeg.offset, structure.embeddedJpeg.length);
+  }
+
+  return previews;
+}
+
+/**
+ * List the JPEG previews embedded in a RAW file, such as ARW SubIFD previews,
+ * DNG PreviewIFDs, NEF JpgFromRaw and EXIF thumbnails. Nothing is decoded and
+ * the native addon is not needed.
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @throws {RawConvertError} If the input is invalid, unreadable or not a supported RAW container
+ * @returns The embedded previews in file order
+ */
+export function extractPreviews(input: Buffer | string): EmbeddedPreview[] {
+  const buffer = readRawInput(input);
+  return findPreviews(buffer, openRawFile(buffer));
+}
+
+/**
+ * Get the largest JPEG preview embedded in a RAW file. The preview is
+ * returned as stored by the camera, so it is not rotated; metadata.orientation
+ * reports the EXIF orientation a viewer should apply.
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @throws {RawConvertError} If the input is invalid, unreadable or not a supported RAW container
+ * @returns OutputImage containing the JPEG preview, or undefined if the file has none
+ */
+export function getLargestPreview(
+  input: Buffer | string
+): OutputImage | undefined {
+  const buffer = readRawInput(input);
+  const structure = openRawFile(buffer);
+  const previews = findPreviews(buffer, structure);
+
+  if (previews.length === 0) {
+    return undefined;
+  }
+
+  const largest = previews.reduce((best, preview) =>
+    preview.width * preview.height > best.width * best.height ? preview : best
+  );
+
+  const metadata: ImageMetadata = {
+    width: largest.width,
+    height: largest.height,
+  };
+  const primary = structure.primary;
+  const orientation =
+    primary && primary.reader.getNumber(primary.ifd, TiffTag.Orientation);
+  if (orientation !== undefined) {
+    metadata.orientation = orientation;
+  }
+
+  return {
+    // Copy so the preview does not keep the whole RAW file alive
+    buffer: Buffer.from(
+      buffer.subarray(largest.offset, largest.offset + largest.length)
+    ),
+    metadata,
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AbortError,
+  ConversionQueue,
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+} from './index.js';
+
+const raw = Buffer.from('raw');
+
+function createQueue(concurrency: number, delayMs = 10) {
+  const stub = createStubBackend({ delayMs });
+  const queue = new ConversionQueue({
+    concurrency,
+    converter: createConverter({ backend: stub }),
+  });
+  return { stub, queue };
+}
+
+describe('ConversionQueue', () => {
+  it('should limit the number of running conversions', async () => {
+    const { queue } = createQueue(2);
+    let maxPending = 0;
+
+    const jobs = Array.from({ length: 5 }, () =>
+      queue
+        .add(raw, OutputFormat.JPEG, { inputFormat: 'arw' })
+        .then((result) => {
+          maxPending = Math.max(maxPending, queue.pending);
+          return result;
+        })
+    );
+
+    expect(queue.pending).toBe(2);
+    expect(queue.size).toBe(3);
+
+    const results = await Promise.all(jobs);
+    expect(results).toHaveLength(5);
+    expect(results[0].buffer[0]).toBe(0xff);
+    expect(maxPending).toBeLessThanOrEqual(2);
+    expect(queue.pending).toBe(0);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should start higher priorities first and keep order within a priority', async () => {
+    const { stub, queue } = createQueue(1);
+
+    const jobs = [
+      queue.add('/a.arw', OutputFormat.JPEG),
+      queue.add('/b.arw', OutputFormat.JPEG),
+      queue.add('/c.arw', OutputFormat.JPEG, {}, { priority: 1 }),
+      queue.add('/d.arw', OutputFormat.JPEG, {}, { priority: 5 }),
+      queue.add('/e.arw', OutputFormat.JPEG, {}, { priority: 1 }),
+    ];
+    await Promise.allSettled(jobs);
+
+    // The first job started before the others were queued
+    expect(stub.calls.map((call) => call.input)).toEqual([
+      '/a.arw',
+      '/d.arw',
+      '/c.arw',
+      '/e.arw',
+      '/b.arw',
+    ]);
+  });
+
+  it('should reject failed jobs without stalling the queue', async () => {
+    const { queue } = createQueue(1);
+
+    const failed = queue.add('/missing.arw', OutputFormat.JPEG);
+    const succeeded = queue.add(raw, OutputFormat.PNG, { inputFormat: 'arw' });
+
+    await expect(failed).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+    await expect(succeeded).resolves.toHaveProperty('buffer');
+  });
+
+  it('should resolve onIdle once every job has settled', async () => {
+    const { queue } = createQueue(2);
+    await queue.onIdle();
+
+    let settled = 0;
+    for (let i = 0; i < 4; i++) {
+      queue
+        .add(raw, OutputFormat.JPEG, { inputFormat: 'arw' })
+        .then(() => settled++);
+    }
+
+    await queue.onIdle();
+    // Let the job promises' handlers run
+    await Promise.resolve();
+    expect(settled).toBe(4);
+    expect(queue.pending).toBe(0);
+  });
+
+  it('should remove waiting jobs whose signal aborts', async () => {
+    const { stub, queue } = createQueue(1);
+    const controller = new AbortController();
+
+    const first = queue.add(raw, OutputFormat.JPEG, { inputFormat: 'arw' });
+    const second = queue.add(raw, OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(queue.size).toBe(0);
+    await expect(second).rejects.toBeInstanceOf(AbortError);
+    await first;
+    expect(stub.calls).toHaveLength(1);
+  });
+
+  it('should resolve with the typed pixels of raw pixel formats', async () => {
+    const { queue } = createQueue(1, 0);
+
+    const result = await queue.add(raw, OutputFormat.RGB16, {
+      inputFormat: 'arw',
+    });
+
+    const pixels: Uint16Array | undefined = result.pixels;
+    expect(pixels).toBeInstanceOf(Uint16Array);
+    expect(result.raw).toMatchObject({ bitDepth: 16 });
+  });
+
+  it('should reject an invalid concurrency', () => {
+    expect(() => new ConversionQueue({ concurrency: 0 })).toThrow(
+      RawConvertError
+    );
+    expect(() => new ConversionQueue({ concurrency: 1.5 })).toThrow(
+      'concurrency must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { convertRawAsync, type Converter } from './convert.js';
+import { AbortError, describeInput, RawConvertError } from './errors.js';
+import type {
+  ConversionOptions,
+  FormatQualityOptions,
+  OutputFormat,
+  OutputImage,
+} from './types.js';
+
+/**
+ * Options for a ConversionQueue
+ */
+export interface ConversionQueueOptions {
+  /**
+   * Maximum number of conversions running at once (default: 4, the size of
+   * the libuv thread pool that runs the native workers)
+   */
+  concurrency?: number;
+  /** Converter that runs the jobs (default: the top-level convertRawAsync) */
+  converter?: Converter;
+}
+
+/**
+ * Scheduling options for a single queued conversion
+ */
+export interface QueueJobOptions {
+  /** Jobs with a higher priority start first; equal priorities run in order (default: 0) */
+  priority?: number;
+}
+
+interface QueuedJob {
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * A bounded queue of async conversions with priorities
+ */
+export class ConversionQueue {
+  private readonly concurrency: number;
+  private readonly convert: Converter['convertRawAsync'];
+  private readonly waiting: QueuedJob[] = [];
+  private running = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * @param queueOptions - Concurrency limit and converter
+   * @throws {RawConvertError} INVALID_OPTIONS if concurrency is not a positive integer
+   */
+  constructor(queueOptions: ConversionQueueOptions = {}) {
+    const concurrency = queueOptions.concurrency ?? 4;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new RawConvertError(
+        'INVALID_OPTIONS',
+        `concurrency must be a positive integer, got ${concurrency}`
+      );
+    }
+
+    this.concurrency = concurrency;
+    this.convert = queueOptions.converter?.convertRawAsync ?? convertRawAsync;
+  }
+
+  /** Number of conversions waiting to start */
+  get size(): number {
+    return this.waiting.length;
+  }
+
+  /** Number of conversions running */
+  get pending(): number {
+    return this.running;
+  }
+
+  /**
+   * Queue a conversion. An options.signal that aborts while the job is
+   * waiting removes it from the queue.
+   * @param input - Buffer containing RAW image data or file path to RAW image
+   * @param outputFormat - Output format (enum value)
+   * @param options - Format-specific conversion options
+   * @param jobOptions - Scheduling options
+   * @returns Promise<OutputImage> settled when the conversion finishes
+   */
+  add<F extends OutputFormat>(
+    input: Buffer | string,
+    outputFormat: F,
+    options?: ConversionOptions & FormatQualityOptions[F],
+    jobOptions: QueueJobOptions = {}
+  ): Promise<OutputImage<F>> {
+    return new Promise((resolve, reject) => {
+      const signal = options?.signal;
+      let onAbort: (() => void) | undefined;
+
+      const job: QueuedJob = {
+        priority: jobOptions.priority ?? 0,
+        start: () => {
+          if (onAbort) {
+            signal?.removeEventListener('abort', onAbort);
+          }
+          this.running++;
+          this.convert(input, outputFormat, options)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.next();
+            });
+        },
+      };
+
+      if (signal) {
+        onAbort = () => {
+          const index = this.waiting.indexOf(job);
+          if (index !== -1) {
+            this.waiting.splice(index, 1);
+            reject(
+              new AbortError({
+                input: describeInput(input),
+                format: outputFormat,
+                cause: signal.reason,
+              })
+            );
+            this.next();
+          }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      // Insert after every job of the same or higher priority
+      const index = this.waiting.findIndex(
+        (queued) => queued.priority < job.priority
+      );
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, job);
+      this.next();
+    });
+  }
+
+  /**
+   * Wait until no conversions are queued or running
+   * @returns Promise resolved when the queue is idle
+   */
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.waiting.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Start waiting jobs while there is capacity, and notify idle waiters
+   */
+  private next(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      this.waiting.shift()!.start();
+    }
+
+    if (this.running === 0 && this.waiting.length === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+}
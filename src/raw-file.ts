@@ -0,0 +1,388 @@
+import fs from 'fs';
+import { describeInput, RawConvertError } from './errors.js';
+import { isTiff, TiffReader, TiffTag, type Ifd } from './tiff.js';
+
+/**
+ * An IFD together with the reader that can resolve its values
+ */
+export interface TagSource {
+  reader: TiffReader;
+  ifd: Ifd;
+}
+
+/**
+ * The TIFF structures found in a RAW file
+ */
+export interface RawFileStructure {
+  /** IFD0, holding camera make/model and orientation */
+  primary?: TagSource;
+  /** EXIF IFD */
+  exif?: TagSource;
+  /** GPS IFD */
+  gps?: TagSource;
+  /** Every image IFD: the IFD0 chain and all SubIFDs, recursively */
+  images: TagSource[];
+  /** Cropped sensor size recorded outside the TIFF structure (RAF) */
+  rawSize?: { width: number; height: number };
+  /** JPEG preview referenced from outside the TIFF structure (RAF) */
+  embeddedJpeg?: { offset: number; length: number };
+}
+
+/**
+ * Frame header of a JPEG stream
+ */
+export interface JpegFrame {
+  width: number;
+  height: number;
+  /** True for lossless (SOF3) streams, which DNG and CR2 use for RAW data */
+  lossless: boolean;
+}
+
+/**
+ * A box in an ISO base media file (CR3, HEIF)
+ */
+export interface Box {
+  type: string;
+  /** Absolute offset of the box header */
+  start: number;
+  /** Absolute offset of the box payload */
+  dataStart: number;
+  /** Absolute offset just past the end of the box */
+  end: number;
+}
+
+// Canon CR3 metadata container UUID
+const CANON_UUID = '85c0b687820f11e08111f4ce462b6a48';
+
+const RAF_MAGIC = 'FUJIFILMCCD-RAW';
+
+/**
+ * Load a RAW input into memory
+ * @param input - Buffer containing RAW image data or file path to RAW image
+ * @throws {RawConvertError} INVALID_INPUT if input is not a non-empty Buffer
+ * or path, FILE_NOT_FOUND if the file cannot be read
+ * @returns The file contents
+ */
+export function readRawInput(input: Buffer | string): Buffer {
+  if (Buffer.isBuffer(input)) {
+    if (input.length === 0) {
+      throw new RawConvertError('INVALID_INPUT', 'Input buffer is empty', {
+        input: describeInput(input),
+      });
+    }
+    return input;
+  }
+
+  if (typeof input !== 'string') {
+    throw new RawConvertError(
+      'INVALID_INPUT',
+      'Input must be a Buffer or file path string'
+    );
+  }
+
+  if (input.trim() === '') {
+    throw new RawConvertError('INVALID_INPUT', 'File path cannot be empty', {
+      input,
+    });
+  }
+
+  try {
+    return fs.readFileSync(input);
+  } catch (error) {
+    throw new RawConvertError(
+      'FILE_NOT_FOUND',
+      'Failed to read file from path',
+      { input, cause: error }
+    );
+  }
+}
+
+/**
+ * List the boxes between two offsets of an ISO base media file
+ * @returns The boxes in file order, stopping at the first malformed header
+ */
+export function readBoxes(
+  buffer: Buffer,
+  start: number = 0,
+  end: number = buffer.length
+): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let dataStart = offset + 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) {
+        break;
+      }
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      dataStart = offset + 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < dataStart - offset || offset + size > end) {
+      break;
+    }
+
+    boxes.push({ type, start: offset, dataStart, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Find the TIFF structure inside the Exif APP1 segment of a JPEG
+ * @returns A reader for the Exif TIFF structure, or undefined if there is none
+ */
+export function readJpegExif(
+  buffer: Buffer,
+  start: number = 0,
+  end: number = buffer.length
+): TiffReader | undefined {
+  if (buffer[start] !== 0xff || buffer[start + 1] !== 0xd8) {
+    return undefined;
+  }
+
+  let offset = start + 2;
+  while (offset + 4 <= end && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Stop at start of scan or end of image
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    if (
+      marker === 0xe1 &&
+      buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0' &&
+      isTiff(buffer, offset + 10)
+    ) {
+      return new TiffReader(buffer, offset + 10);
+    }
+    offset += 2 + length;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the frame header (SOFn marker) of a JPEG stream
+ * @returns The frame dimensions, or undefined if the bytes are not a JPEG
+ */
+export function readJpegFrame(
+  buffer: Buffer,
+  start: number = 0,
+  end: number = buffer.length
+): JpegFrame | undefined {
+  if (buffer[start] !== 0xff || buffer[start + 1] !== 0xd8) {
+    return undefined;
+  }
+
+  let offset = start + 2;
+  while (offset + 4 <= end && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+    const isFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isFrame && offset + 9 <= end) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        lossless: marker === 0xc3,
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return undefined;
+}
+
+/**
+ * Collect every image IFD reachable from an IFD chain through SubIFDs
+ */
+function collectImageIfds(reader: TiffReader, chain: Ifd[]): TagSource[] {
+  const images: TagSource[] = [];
+  const visited = new Set<number>();
+  const pending = [...chain];
+
+  while (pending.length > 0) {
+    const ifd = pending.shift()!;
+    if (visited.has(ifd.offset)) {
+      continue;
+    }
+    visited.add(ifd.offset);
+    images.push({ reader, ifd });
+    pending.push(...reader.readChildIfds(ifd, TiffTag.SubIFDs));
+  }
+
+  return images;
+}
+
+/**
+ * Locate IFD0, the EXIF and GPS IFDs and the image IFDs of a TIFF structure
+ */
+function openTiff(reader: TiffReader): RawFileStructure {
+  const chain = reader.readIfdChain();
+  if (chain.length === 0) {
+    throw new Error('TIFF structure has no readable IFDs');
+  }
+
+  const primary = { reader, ifd: chain[0] };
+  const exifIfd = reader.readChildIfds(chain[0], TiffTag.ExifIFD)[0];
+  const gpsIfd = reader.readChildIfds(chain[0], TiffTag.GPSIFD)[0];
+
+  return {
+    primary,
+    exif: exifIfd ? { reader, ifd: exifIfd } : undefined,
+    gps: gpsIfd ? { reader, ifd: gpsIfd } : undefined,
+    images: collectImageIfds(reader, chain),
+  };
+}
+
+/**
+ * Read the CMT1 (IFD0), CMT2 (EXIF) and CMT4 (GPS) boxes of a Canon CR3
+ */
+function openCr3(buffer: Buffer): RawFileStructure {
+  const moov = readBoxes(buffer).find((box) => box.type === 'moov');
+  const canon = moov
+    ? readBoxes(buffer, moov.dataStart, moov.end).find(
+        (box) =>
+          box.type === 'uuid' &&
+          buffer.toString('hex', box.dataStart, box.dataStart + 16) ===
+            CANON_UUID
+      )
+    : undefined;
+
+  if (!canon) {
+    throw new Error('CR3 file has no Canon metadata box');
+  }
+
+  const structure: RawFileStructure = { images: [] };
+  for (const box of readBoxes(buffer, canon.dataStart + 16, canon.end)) {
+    if (!isTiff(buffer, box.dataStart)) {
+      continue;
+    }
+    const reader = new TiffReader(buffer, box.dataStart);
+    let ifd: Ifd;
+    try {
+      ifd = reader.readIfd(reader.firstIfdOffset);
+    } catch {
+      continue;
+    }
+    if (box.type === 'CMT1') {
+      structure.primary = { reader, ifd };
+    } else if (box.type === 'CMT2') {
+      structure.exif = { reader, ifd };
+    } else if (box.type === 'CMT4') {
+      structure.gps = { reader, ifd };
+    }
+  }
+
+  return structure;
+}
+
+/**
+ * Read the EXIF of the embedded JPEG and the sensor crop size of a Fujifilm RAF
+ */
+function openRaf(buffer: Buffer): RawFileStructure {
+  if (buffer.length < 100) {
+    throw new Error('RAF header is truncated');
+  }
+
+  const jpegOffset = buffer.readUInt32BE(84);
+  const jpegLength = buffer.readUInt32BE(88);
+  const exifReader = readJpegExif(
+    buffer,
+    jpegOffset,
+    Math.min(buffer.length, jpegOffset + jpegLength)
+  );
+  const structure = exifReader
+    ? openTiff(exifReader)
+    : ({ images: [] } as RawFileStructure);
+  // The embedded JPEG's IFDs describe the preview, not the RAW image
+  structure.images = [];
+  if (jpegLength > 0 && jpegOffset + jpegLength <= buffer.length) {
+    structure.embeddedJpeg = { offset: jpegOffset, length: jpegLength };
+  }
+
+  // The CFA header is a list of (tag, size, data) records
+  const cfaOffset = buffer.readUInt32BE(92);
+  if (cfaOffset + 4 <= buffer.length) {
+    const count = buffer.readUInt32BE(cfaOffset);
+    let offset = cfaOffset + 4;
+    for (let i = 0; i < count && offset + 4 <= buffer.length; i++) {
+      const tag = buffer.readUInt16BE(offset);
+      const size = buffer.readUInt16BE(offset + 2);
+      // RawImageCroppedSize (0x111) takes precedence over RawImageFullSize (0x100)
+      if ((tag === 0x100 || tag === 0x111) && size === 4) {
+        structure.rawSize = {
+          height: buffer.readUInt16BE(offset + 4),
+          width: buffer.readUInt16BE(offset + 6),
+        };
+        if (tag === 0x111) {
+          break;
+        }
+      }
+      offset += 4 + size;
+    }
+  }
+
+  return structure;
+}
+
+/**
+ * Locate the TIFF structures of a RAW file
+ * @param buffer - RAW file contents
+ * @throws {RawConvertError} UNSUPPORTED_FORMAT if the file is not a recognised
+ * TIFF, CR3 or RAF container, DECODE_FAILED if its structure is corrupt
+ * @returns The IFDs holding metadata and image data
+ */
+export function openRawFile(buffer: Buffer): RawFileStructure {
+  let open: (() => RawFileStructure) | undefined;
+  if (isTiff(buffer)) {
+    open = () => openTiff(new TiffReader(buffer));
+  } else if (buffer.toString('latin1', 0, RAF_MAGIC.length) === RAF_MAGIC) {
+    open = () => openRaf(buffer);
+  } else if (
+    buffer.length >= 12 &&
+    buffer.toString('latin1', 4, 12) === 'ftypcrx '
+  ) {
+    open = () => openCr3(buffer);
+  }
+
+  if (!open) {
+    throw new RawConvertError(
+      'UNSUPPORTED_FORMAT',
+      'Unsupported RAW container: no TIFF structure found'
+    );
+  }
+
+  try {
+    return open();
+  } catch (error) {
+    throw new RawConvertError(
+      'DECODE_FAILED',
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  isRawOutputImage,
+  OutputFormat,
+  rawByteLength,
+  type RawImageDescriptor,
+} from './index.js';
+
+const layout: RawImageDescriptor = {
+  width: 4,
+  height: 3,
+  channels: 3,
+  bitDepth: 8,
+  sampleFormat: 'uint',
+  stride: 12,
+  colorSpace: 'srgb',
+};
+
+describe('raw output', () => {
+  it('should describe the pixel layout of RGB output', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 40, height: 30 }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+      inputFormat: 'arw',
+    });
+
+    expect(result.metadata).toBeUndefined();
+    expect(result.raw).toEqual({
+      width: 40,
+      height: 30,
+      channels: 3,
+      bitDepth: 8,
+      sampleFormat: 'uint',
+      stride: 120,
+      colorSpace: 'srgb',
+    });
+    expect(isRawOutputImage(result)).toBe(true);
+  });
+
+  it('should return typed pixel views for wider formats', async () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 4, height: 2 }),
+    });
+
+    const rgba = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGBA, {
+      inputFormat: 'arw',
+    });
+    expect(rgba.raw).toMatchObject({ channels: 4, bitDepth: 8, stride: 16 });
+    expect(rgba.pixels).toBeInstanceOf(Uint8Array);
+    expect(rgba.pixels?.[3]).toBe(255);
+
+    const rgb16 = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB16, {
+      inputFormat: 'arw',
+    });
+    const samples: Uint16Array | undefined = rgb16.pixels;
+    expect(rgb16.raw).toMatchObject({
+      channels: 3,
+      bitDepth: 16,
+      sampleFormat: 'uint',
+      stride: 24,
+    });
+    expect(samples).toBeInstanceOf(Uint16Array);
+    expect(samples).toHaveLength(4 * 2 * 3);
+    expect(rgb16.buffer.length).toBe(4 * 2 * 3 * 2);
+
+    const rgbf32 = await converter.convertRawAsync(
+      Buffer.from('raw'),
+      OutputFormat.RGBF32,
+      { inputFormat: 'arw' }
+    );
+    expect(rgbf32.raw).toMatchObject({
+      bitDepth: 32,
+      sampleFormat: 'float',
+      colorSpace: 'linear-srgb',
+    });
+    expect(rgbf32.pixels).toBeInstanceOf(Float32Array);
+    expect(isRawOutputImage(rgbf32)).toBe(true);
+  });
+
+  it('should report the requested color space of the pixels', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    for (const format of [OutputFormat.RGB, OutputFormat.RGBF32]) {
+      const result = converter.convertRaw(Buffer.from('raw'), format, {
+        inputFormat: 'arw',
+        colorSpace: 'display-p3',
+      });
+      expect(result.raw?.colorSpace).toBe('display-p3');
+    }
+  });
+
+  it('should copy misaligned buffers for typed views', () => {
+    const backing = Buffer.alloc(13);
+    const buffer = backing.subarray(1);
+    const converter = createConverter({
+      backend: {
+        convertRaw: () => ({
+          buffer,
+          raw: {
+            width: 2,
+            height: 1,
+            channels: 3,
+            bitDepth: 16,
+            sampleFormat: 'uint',
+            stride: 12,
+            colorSpace: 'srgb',
+          },
+        }),
+        convertRawAsync: () => undefined,
+      },
+    });
+
+    const result = converter.convertRaw(
+      Buffer.from('raw'),
+      OutputFormat.RGB16,
+      {
+        inputFormat: 'arw',
+      }
+    );
+    expect(result.pixels).toHaveLength(6);
+  });
+
+  it('should not describe encoded output', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+    });
+
+    expect(result.raw).toBeUndefined();
+    expect(isRawOutputImage(result)).toBe(false);
+  });
+
+  it('should check the buffer length against the layout', () => {
+    expect(rawByteLength(layout)).toBe(36);
+    expect(isRawOutputImage({ buffer: Buffer.alloc(36), raw: layout })).toBe(
+      true
+    );
+    expect(isRawOutputImage({ buffer: Buffer.alloc(35), raw: layout })).toBe(
+      false
+    );
+    expect(
+      isRawOutputImage({
+        buffer: Buffer.alloc(48),
+        raw: { ...layout, stride: 16 },
+      })
+    ).toBe(true);
+    expect(
+      isRawOutputImage({
+        buffer: Buffer.alloc(30),
+        raw: { ...layout, stride: 10 },
+      })
+    ).toBe(false);
+  });
+});
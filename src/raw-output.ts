@@ -0,0 +1,87 @@
+import type {
+  OutputFormat,
+  OutputImage,
+  PixelArrays,
+  RawImageDescriptor,
+  RawPixelFormat,
+} from './types.js';
+
+/**
+ * An output image whose buffer is raw pixels described by its raw layout
+ */
+export type RawOutputImage = OutputImage & { raw: RawImageDescriptor };
+
+/**
+ * Number of bytes a buffer with the given pixel layout holds
+ * @param raw - Pixel layout from OutputImage.raw
+ * @returns stride × height
+ */
+export function rawByteLength(raw: RawImageDescriptor): number {
+  return raw.stride * raw.height;
+}
+
+/**
+ * Check that an output image is raw pixel data matching its layout: raw is
+ * set, each row has room for width × channels samples, and the buffer holds
+ * exactly stride × height bytes
+ * @param image - Result of a conversion
+ * @returns true if the buffer can be read with image.raw
+ */
+export function isRawOutputImage(image: OutputImage): image is RawOutputImage {
+  const { raw, buffer } = image;
+  if (!raw) {
+    return false;
+  }
+
+  const rowBytes = (raw.width * raw.channels * raw.bitDepth) / 8;
+  return (
+    Number.isInteger(raw.width) &&
+    Number.isInteger(raw.height) &&
+    raw.width > 0 &&
+    raw.height > 0 &&
+    raw.stride >= rowBytes &&
+    buffer.length === rawByteLength(raw)
+  );
+}
+
+/**
+ * Create a typed array over the samples of a raw buffer
+ */
+function pixelView(
+  buffer: Buffer,
+  raw: RawImageDescriptor
+): PixelArrays[RawPixelFormat] {
+  const ArrayType =
+    raw.sampleFormat === 'float'
+      ? Float32Array
+      : raw.bitDepth === 16
+        ? Uint16Array
+        : Uint8Array;
+
+  // Typed arrays must start on a multiple of their element size
+  const bytes =
+    buffer.byteOffset % ArrayType.BYTES_PER_ELEMENT === 0
+      ? buffer
+      : new Uint8Array(buffer);
+  return new ArrayType(
+    bytes.buffer as ArrayBuffer,
+    bytes.byteOffset,
+    bytes.length / ArrayType.BYTES_PER_ELEMENT
+  );
+}
+
+/**
+ * Add the typed pixel view to a backend result with a raw pixel layout
+ * @param image - Result returned by the backend
+ * @param _format - Output format of the conversion, which types the view
+ * @returns The same image, with pixels set when raw is
+ */
+export function attachPixels<F extends OutputFormat>(
+  image: OutputImage,
+  _format: F
+): OutputImage<F> {
+  if (image.raw && !image.pixels) {
+    image.pixels = pixelView(image.buffer, image.raw);
+  }
+  return image as OutputImage<F>;
+}
@@ -3,10 +3,25 @@
 #import <Foundation/Foundation.h>
 #import <ImageIO/ImageIO.h>
 #import <AppKit/AppKit.h>
+#include <algorithm>
+#include <atomic>
+#include <cctype>
+#include <cmath>
+#include <cstdlib>
+#include <map>
+#include <memory>
+#include <sstream>
 #include <string>
+#include <vector>
 
 using namespace v8;
 
+// A tone curve control point, from 0 to 1
+struct CurvePoint {
+    double input;
+    double output;
+};
+
 // Options structure for conversion
 struct InternalConversionOptions {
     bool lensCorrection = true;
@@ -15,7 +30,8 @@ struct InternalConversionOptions {
     double boostShadowAmount = 0.0;
     double baselineExposure = 0.0;
     double neutralTemperature = -1.0;
-    double neutralTint = -1.0;
+    // Tints can be negative, so NAN means not set
+    double neutralTint = NAN;
     bool disableGamutMap = false;
     bool allowDraftMode = false;
     bool ignoreImageOrientation = false;
@@ -26,6 +42,38 @@ struct InternalConversionOptions {
     double noiseReductionAmount = -1.0;
     double localToneMapAmount = -1.0;
     double scaleFactor = 1.0;
+    // Tone curve control points; an empty curve leaves values unchanged
+    std::vector<CurvePoint> toneCurveMaster;
+    std::vector<CurvePoint> toneCurveRed;
+    std::vector<CurvePoint> toneCurveGreen;
+    std::vector<CurvePoint> toneCurveBlue;
+    // .cube LUT read from lutPath, or from lutData when lutFromBuffer is set
+    bool lut = false;
+    bool lutFromBuffer = false;
+    std::string lutPath;
+    std::string lutData;
+    double lutStrength = 1.0;
+    std::string lutInterpolation = "tetrahedral";
+    // Transforms applied after the EXIF orientation, in this order
+    double straighten = 0;
+    int rotate = 0;
+    bool flip = false;
+    bool flop = false;
+    // Output color space name; empty means the format's default
+    std::string colorSpace;
+    // Crop region from the top-left corner; a width of 0 means no region
+    double cropLeft = 0;
+    double cropTop = 0;
+    double cropWidth = 0;
+    double cropHeight = 0;
+    bool cropNormalized = false;
+    // Centre crop aspect ratio (width / height); 0 means not set
+    double cropAspectRatio = 0;
+    // Resize target in pixels; 0 means the dimension is not set
+    double resizeWidth = 0;
+    double resizeHeight = 0;
+    std::string resizeFit = "inside";
+    bool resizeWithoutEnlargement = false;
     double quality = -1.0;
     bool embedThumbnail = false;
     bool optimizeColorForSharing = false;
@@ -34,155 +82,578 @@ struct InternalConversionOptions {
     std::string inputFormat;
 };
 
-// Helper function to extract metadata from CGImage source
-static Local<Object> ExtractImageMetadata(CFDictionaryRef sourceMetadataRef, CGImageRef cgImage) {
-    Nan::EscapableHandleScope scope;
-    Local<Object> metadata = Nan::New<Object>();
-    
+// Layout of raw pixel output, returned as OutputImage.raw
+struct PixelLayout {
+    bool present = false;
+    size_t width = 0;
+    size_t height = 0;
+    int channels = 3;
+    int bitDepth = 8;
+    std::string sampleFormat = "uint";
+    size_t stride = 0;
+    std::string colorSpace = "srgb";
+};
+
+// Image metadata as plain C++ data, so it can be read on a worker thread
+struct MetadataStorage {
+    size_t width = 0;
+    size_t height = 0;
+    double focalLength35mm = -1;
+    double shutterSpeed = -1;
+    double fNumber = -1;
+    std::string cameraMake;
+    std::string cameraModel;
+    double iso = -1;
+    std::string dateTimeOriginal;
+    std::string lensMake;
+    std::string lensModel;
+    double focalLength = -1;
+    int whiteBalance = -1;
+    int exposureMode = -1;
+    double exposureBias = -999;
+    std::string software;
+    int orientation = -1;
+    double latitude = -999;
+    double longitude = -999;
+    double altitude = -999;
+    std::string colorSpace;
+    bool hasMetadata = false;
+};
+
+// One output of a multi-output conversion
+struct Rendition {
+    std::string format;
+    // Scale relative to the decoded image
+    double scale = 1.0;
+    // Shared options with the rendition's own options applied on top
+    InternalConversionOptions options;
+};
+
+// An orientation as quarter turns clockwise applied after an optional
+// left-to-right mirror
+struct Orientation {
+    int turns;
+    bool mirrored;
+};
+
+// EXIF orientations 1-8 as the transform that displays the stored pixels
+static const Orientation kExifOrientations[] = {
+    {0, false}, {0, true}, {2, false}, {2, true},
+    {3, true}, {1, false}, {1, true}, {3, false},
+};
+
+// Mirroring reverses the direction of any turn applied before it
+static Orientation ComposeOrientations(Orientation outer, Orientation inner) {
+    int turns = outer.mirrored ? outer.turns - inner.turns : outer.turns + inner.turns;
+    return {((turns % 4) + 4) % 4, outer.mirrored != inner.mirrored};
+}
+
+// Helper function to work out the EXIF orientation of a converted image.
+// Mirrors transformOrientation in transform.ts.
+static int OutputOrientation(int sourceOrientation, const InternalConversionOptions& options) {
+    // Core Image has already applied the source orientation
+    if (!options.ignoreImageOrientation || sourceOrientation < 1 || sourceOrientation > 8) {
+        return 1;
+    }
+
+    // The rotate, flip and flop options as a single orientation
+    Orientation transform = {options.rotate / 90, false};
+    if (options.flip) {
+        transform = ComposeOrientations({2, true}, transform);
+    }
+    if (options.flop) {
+        transform = ComposeOrientations({0, true}, transform);
+    }
+    // Mirrored orientations are their own inverse
+    Orientation inverse = transform.mirrored ? transform : Orientation{(4 - transform.turns) % 4, false};
+
+    Orientation result = ComposeOrientations(ComposeOrientations(transform, kExifOrientations[sourceOrientation - 1]), inverse);
+    for (int i = 0; i < 8; i++) {
+        if (kExifOrientations[i].turns == result.turns && kExifOrientations[i].mirrored == result.mirrored) {
+            return i + 1;
+        }
+    }
+    return 1;
+}
+
+// Helper function to read the EXIF orientation from source properties,
+// defaulting to 1
+static int ReadSourceOrientation(CFDictionaryRef sourceMetadataRef) {
+    if (!sourceMetadataRef) {
+        return 1;
+    }
+    NSNumber* orientation = ((__bridge NSDictionary*)sourceMetadataRef)[(NSString*)kCGImagePropertyOrientation];
+    return orientation ? [orientation intValue] : 1;
+}
+
+// Helper function to read metadata from the rendered image and source properties
+static void ReadImageMetadata(CFDictionaryRef sourceMetadataRef, CGImageRef cgImage, MetadataStorage& metadata) {
+    metadata.hasMetadata = true;
+
+    // Basic image dimensions
     if (cgImage) {
-        // Basic image dimensions
-        Nan::Set(metadata, Nan::New("width").ToLocalChecked(), Nan::New<Number>(CGImageGetWidth(cgImage)));
-        Nan::Set(metadata, Nan::New("height").ToLocalChecked(), Nan::New<Number>(CGImageGetHeight(cgImage)));
+        metadata.width = CGImageGetWidth(cgImage);
+        metadata.height = CGImageGetHeight(cgImage);
     }
-    
-    if (sourceMetadataRef) {
-        NSDictionary* sourceMetadata = (__bridge NSDictionary*)sourceMetadataRef;
-        
-        // Extract EXIF data
-        NSDictionary* exifDict = sourceMetadata[(NSString*)kCGImagePropertyExifDictionary];
-        if (exifDict) {
-            // Focal length (35mm equivalent)
-            NSNumber* focalLength35mm = exifDict[(NSString*)kCGImagePropertyExifFocalLenIn35mmFilm];
-            if (focalLength35mm) {
-                Nan::Set(metadata, Nan::New("focalLength35mm").ToLocalChecked(), Nan::New<Number>([focalLength35mm doubleValue]));
-            }
-            
-            // Shutter speed
-            NSNumber* exposureTime = exifDict[(NSString*)kCGImagePropertyExifExposureTime];
-            if (exposureTime) {
-                Nan::Set(metadata, Nan::New("shutterSpeed").ToLocalChecked(), Nan::New<Number>([exposureTime doubleValue]));
-            }
-            
-            // F-number
-            NSNumber* fNumber = exifDict[(NSString*)kCGImagePropertyExifFNumber];
-            if (fNumber) {
-                Nan::Set(metadata, Nan::New("fNumber").ToLocalChecked(), Nan::New<Number>([fNumber doubleValue]));
-            }
 
-            // ISO speed
-            NSArray* isoSpeedRatings = exifDict[(NSString*)kCGImagePropertyExifISOSpeedRatings];
-            if (isoSpeedRatings && [isoSpeedRatings count] > 0) {
-                NSNumber* iso = isoSpeedRatings[0];
-                Nan::Set(metadata, Nan::New("iso").ToLocalChecked(), Nan::New<Number>([iso doubleValue]));
-            }
+    if (!sourceMetadataRef) {
+        return;
+    }
 
-            // Date/time original
-            NSString* dateTimeOriginal = exifDict[(NSString*)kCGImagePropertyExifDateTimeOriginal];
-            if (dateTimeOriginal) {
-                Nan::Set(metadata, Nan::New("dateTimeOriginal").ToLocalChecked(), Nan::New<String>([dateTimeOriginal UTF8String]).ToLocalChecked());
-            }
+    NSDictionary* sourceMetadata = (__bridge NSDictionary*)sourceMetadataRef;
 
-            // Lens make
-            NSString* lensMake = exifDict[(NSString*)kCGImagePropertyExifLensMake];
-            if (lensMake) {
-                Nan::Set(metadata, Nan::New("lensMake").ToLocalChecked(), Nan::New<String>([lensMake UTF8String]).ToLocalChecked());
-            }
+    // Extract EXIF data
+    NSDictionary* exifDict = sourceMetadata[(NSString*)kCGImagePropertyExifDictionary];
+    if (exifDict) {
+        NSNumber* focalLength35mm = exifDict[(NSString*)kCGImagePropertyExifFocalLenIn35mmFilm];
+        if (focalLength35mm) {
+            metadata.focalLength35mm = [focalLength35mm doubleValue];
+        }
 
-            // Lens model
-            NSString* lensModel = exifDict[(NSString*)kCGImagePropertyExifLensModel];
-            if (lensModel) {
-                Nan::Set(metadata, Nan::New("lensModel").ToLocalChecked(), Nan::New<String>([lensModel UTF8String]).ToLocalChecked());
-            }
+        NSNumber* exposureTime = exifDict[(NSString*)kCGImagePropertyExifExposureTime];
+        if (exposureTime) {
+            metadata.shutterSpeed = [exposureTime doubleValue];
+        }
 
-            // Focal length (actual, not 35mm equivalent)
-            NSNumber* focalLength = exifDict[(NSString*)kCGImagePropertyExifFocalLength];
-            if (focalLength) {
-                Nan::Set(metadata, Nan::New("focalLength").ToLocalChecked(), Nan::New<Number>([focalLength doubleValue]));
-            }
+        NSNumber* fNumber = exifDict[(NSString*)kCGImagePropertyExifFNumber];
+        if (fNumber) {
+            metadata.fNumber = [fNumber doubleValue];
+        }
 
-            // White balance mode
-            NSNumber* whiteBalance = exifDict[(NSString*)kCGImagePropertyExifWhiteBalance];
-            if (whiteBalance) {
-                Nan::Set(metadata, Nan::New("whiteBalance").ToLocalChecked(), Nan::New<Number>([whiteBalance intValue]));
-            }
+        NSArray* isoSpeedRatings = exifDict[(NSString*)kCGImagePropertyExifISOSpeedRatings];
+        if (isoSpeedRatings && [isoSpeedRatings count] > 0) {
+            NSNumber* iso = isoSpeedRatings[0];
+            metadata.iso = [iso doubleValue];
+        }
 
-            // Exposure mode
-            NSNumber* exposureMode = exifDict[(NSString*)kCGImagePropertyExifExposureMode];
-            if (exposureMode) {
-                Nan::Set(metadata, Nan::New("exposureMode").ToLocalChecked(), Nan::New<Number>([exposureMode intValue]));
-            }
+        NSString* dateTimeOriginal = exifDict[(NSString*)kCGImagePropertyExifDateTimeOriginal];
+        if (dateTimeOriginal) {
+            metadata.dateTimeOriginal = [dateTimeOriginal UTF8String];
+        }
 
-            // Exposure bias
-            NSNumber* exposureBias = exifDict[(NSString*)kCGImagePropertyExifExposureBiasValue];
-            if (exposureBias) {
-                Nan::Set(metadata, Nan::New("exposureBias").ToLocalChecked(), Nan::New<Number>([exposureBias doubleValue]));
-            }
+        NSString* lensMake = exifDict[(NSString*)kCGImagePropertyExifLensMake];
+        if (lensMake) {
+            metadata.lensMake = [lensMake UTF8String];
         }
-        
-        // Extract TIFF data (camera make/model)
-        NSDictionary* tiffDict = sourceMetadata[(NSString*)kCGImagePropertyTIFFDictionary];
-        if (tiffDict) {
-            // Camera make
-            NSString* make = tiffDict[(NSString*)kCGImagePropertyTIFFMake];
-            if (make) {
-                Nan::Set(metadata, Nan::New("cameraMake").ToLocalChecked(), Nan::New<String>([make UTF8String]).ToLocalChecked());
-            }
-            
-            // Camera model
-            NSString* model = tiffDict[(NSString*)kCGImagePropertyTIFFModel];
-            if (model) {
-                Nan::Set(metadata, Nan::New("cameraModel").ToLocalChecked(), Nan::New<String>([model UTF8String]).ToLocalChecked());
-            }
 
-            // Software
-            NSString* software = tiffDict[(NSString*)kCGImagePropertyTIFFSoftware];
-            if (software) {
-                Nan::Set(metadata, Nan::New("software").ToLocalChecked(), Nan::New<String>([software UTF8String]).ToLocalChecked());
-            }
+        NSString* lensModel = exifDict[(NSString*)kCGImagePropertyExifLensModel];
+        if (lensModel) {
+            metadata.lensModel = [lensModel UTF8String];
+        }
 
-            // Orientation
-            NSNumber* orientation = tiffDict[(NSString*)kCGImagePropertyTIFFOrientation];
-            if (orientation) {
-                Nan::Set(metadata, Nan::New("orientation").ToLocalChecked(), Nan::New<Number>([orientation intValue]));
-            }
+        NSNumber* focalLength = exifDict[(NSString*)kCGImagePropertyExifFocalLength];
+        if (focalLength) {
+            metadata.focalLength = [focalLength doubleValue];
         }
 
-        // GPS data
-        NSDictionary* gpsDict = sourceMetadata[(NSString*)kCGImagePropertyGPSDictionary];
-        if (gpsDict) {
-            // Latitude
-            NSNumber* latitude = gpsDict[(NSString*)kCGImagePropertyGPSLatitude];
-            NSString* latitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLatitudeRef];
-            if (latitude && latitudeRef) {
-                double lat = [latitude doubleValue];
-                if ([latitudeRef isEqualToString:@"S"]) {
-                    lat = -lat;
-                }
-                Nan::Set(metadata, Nan::New("latitude").ToLocalChecked(), Nan::New<Number>(lat));
-            }
+        NSNumber* whiteBalance = exifDict[(NSString*)kCGImagePropertyExifWhiteBalance];
+        if (whiteBalance) {
+            metadata.whiteBalance = [whiteBalance intValue];
+        }
 
-            // Longitude
-            NSNumber* longitude = gpsDict[(NSString*)kCGImagePropertyGPSLongitude];
-            NSString* longitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLongitudeRef];
-            if (longitude && longitudeRef) {
-                double lon = [longitude doubleValue];
-                if ([longitudeRef isEqualToString:@"W"]) {
-                    lon = -lon;
-                }
-                Nan::Set(metadata, Nan::New("longitude").ToLocalChecked(), Nan::New<Number>(lon));
+        NSNumber* exposureMode = exifDict[(NSString*)kCGImagePropertyExifExposureMode];
+        if (exposureMode) {
+            metadata.exposureMode = [exposureMode intValue];
+        }
+
+        NSNumber* exposureBias = exifDict[(NSString*)kCGImagePropertyExifExposureBiasValue];
+        if (exposureBias) {
+            metadata.exposureBias = [exposureBias doubleValue];
+        }
+    }
+
+    // Extract TIFF data
+    NSDictionary* tiffDict = sourceMetadata[(NSString*)kCGImagePropertyTIFFDictionary];
+    if (tiffDict) {
+        NSString* make = tiffDict[(NSString*)kCGImagePropertyTIFFMake];
+        if (make) {
+            metadata.cameraMake = [make UTF8String];
+        }
+
+        NSString* model = tiffDict[(NSString*)kCGImagePropertyTIFFModel];
+        if (model) {
+            metadata.cameraModel = [model UTF8String];
+        }
+
+        NSString* software = tiffDict[(NSString*)kCGImagePropertyTIFFSoftware];
+        if (software) {
+            metadata.software = [software UTF8String];
+        }
+
+        NSNumber* orientation = tiffDict[(NSString*)kCGImagePropertyTIFFOrientation];
+        if (orientation) {
+            metadata.orientation = [orientation intValue];
+        }
+    }
+
+    // GPS data
+    NSDictionary* gpsDict = sourceMetadata[(NSString*)kCGImagePropertyGPSDictionary];
+    if (gpsDict) {
+        NSNumber* latitude = gpsDict[(NSString*)kCGImagePropertyGPSLatitude];
+        NSString* latitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLatitudeRef];
+        if (latitude && latitudeRef) {
+            double lat = [latitude doubleValue];
+            if ([latitudeRef isEqualToString:@"S"]) {
+                lat = -lat;
             }
+            metadata.latitude = lat;
+        }
 
-            // Altitude
-            NSNumber* altitude = gpsDict[(NSString*)kCGImagePropertyGPSAltitude];
-            if (altitude) {
-                Nan::Set(metadata, Nan::New("altitude").ToLocalChecked(), Nan::New<Number>([altitude doubleValue]));
+        NSNumber* longitude = gpsDict[(NSString*)kCGImagePropertyGPSLongitude];
+        NSString* longitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLongitudeRef];
+        if (longitude && longitudeRef) {
+            double lon = [longitude doubleValue];
+            if ([longitudeRef isEqualToString:@"W"]) {
+                lon = -lon;
             }
+            metadata.longitude = lon;
+        }
+
+        NSNumber* altitude = gpsDict[(NSString*)kCGImagePropertyGPSAltitude];
+        if (altitude) {
+            metadata.altitude = [altitude doubleValue];
         }
     }
-    
+}
+
+// Helper function to convert stored metadata to an ImageMetadata object
+static Local<Object> MetadataToObject(const MetadataStorage& storage) {
+    Nan::EscapableHandleScope scope;
+    Local<Object> metadata = Nan::New<Object>();
+
+    if (storage.width > 0) {
+        Nan::Set(metadata, Nan::New("width").ToLocalChecked(), Nan::New<Number>(storage.width));
+    }
+    if (storage.height > 0) {
+        Nan::Set(metadata, Nan::New("height").ToLocalChecked(), Nan::New<Number>(storage.height));
+    }
+    if (storage.focalLength35mm >= 0) {
+        Nan::Set(metadata, Nan::New("focalLength35mm").ToLocalChecked(), Nan::New<Number>(storage.focalLength35mm));
+    }
+    if (storage.shutterSpeed >= 0) {
+        Nan::Set(metadata, Nan::New("shutterSpeed").ToLocalChecked(), Nan::New<Number>(storage.shutterSpeed));
+    }
+    if (storage.fNumber >= 0) {
+        Nan::Set(metadata, Nan::New("fNumber").ToLocalChecked(), Nan::New<Number>(storage.fNumber));
+    }
+    if (!storage.cameraMake.empty()) {
+        Nan::Set(metadata, Nan::New("cameraMake").ToLocalChecked(), Nan::New<String>(storage.cameraMake).ToLocalChecked());
+    }
+    if (!storage.cameraModel.empty()) {
+        Nan::Set(metadata, Nan::New("cameraModel").ToLocalChecked(), Nan::New<String>(storage.cameraModel).ToLocalChecked());
+    }
+    if (storage.iso >= 0) {
+        Nan::Set(metadata, Nan::New("iso").ToLocalChecked(), Nan::New<Number>(storage.iso));
+    }
+    if (!storage.dateTimeOriginal.empty()) {
+        Nan::Set(metadata, Nan::New("dateTimeOriginal").ToLocalChecked(), Nan::New<String>(storage.dateTimeOriginal).ToLocalChecked());
+    }
+    if (!storage.lensMake.empty()) {
+        Nan::Set(metadata, Nan::New("lensMake").ToLocalChecked(), Nan::New<String>(storage.lensMake).ToLocalChecked());
+    }
+    if (!storage.lensModel.empty()) {
+        Nan::Set(metadata, Nan::New("lensModel").ToLocalChecked(), Nan::New<String>(storage.lensModel).ToLocalChecked());
+    }
+    if (storage.focalLength >= 0) {
+        Nan::Set(metadata, Nan::New("focalLength").ToLocalChecked(), Nan::New<Number>(storage.focalLength));
+    }
+    if (storage.whiteBalance >= 0) {
+        Nan::Set(metadata, Nan::New("whiteBalance").ToLocalChecked(), Nan::New<Number>(storage.whiteBalance));
+    }
+    if (storage.exposureMode >= 0) {
+        Nan::Set(metadata, Nan::New("exposureMode").ToLocalChecked(), Nan::New<Number>(storage.exposureMode));
+    }
+    if (storage.exposureBias > -999) {
+        Nan::Set(metadata, Nan::New("exposureBias").ToLocalChecked(), Nan::New<Number>(storage.exposureBias));
+    }
+    if (!storage.software.empty()) {
+        Nan::Set(metadata, Nan::New("software").ToLocalChecked(), Nan::New<String>(storage.software).ToLocalChecked());
+    }
+    if (storage.orientation >= 0) {
+        Nan::Set(metadata, Nan::New("orientation").ToLocalChecked(), Nan::New<Number>(storage.orientation));
+    }
+    if (storage.latitude > -999) {
+        Nan::Set(metadata, Nan::New("latitude").ToLocalChecked(), Nan::New<Number>(storage.latitude));
+    }
+    if (storage.longitude > -999) {
+        Nan::Set(metadata, Nan::New("longitude").ToLocalChecked(), Nan::New<Number>(storage.longitude));
+    }
+    if (storage.altitude > -999) {
+        Nan::Set(metadata, Nan::New("altitude").ToLocalChecked(), Nan::New<Number>(storage.altitude));
+    }
+    if (!storage.colorSpace.empty()) {
+        Nan::Set(metadata, Nan::New("colorSpace").ToLocalChecked(), Nan::New<String>(storage.colorSpace).ToLocalChecked());
+    }
+
     return scope.Escape(metadata);
 }
 
+// Helper function to build an OutputImage object from encoded data, optional
+// metadata and the pixel layout of raw output
+static Local<Object> CreateOutputImage(const char* data, size_t length, const MetadataStorage& metadata, const PixelLayout& layout) {
+    Nan::EscapableHandleScope scope;
+    Local<Object> outputImage = Nan::New<Object>();
+    Nan::Set(outputImage, Nan::New("buffer").ToLocalChecked(), Nan::CopyBuffer(data, length).ToLocalChecked());
+
+    // Describe the pixel layout of raw output
+    if (layout.present) {
+        Local<Object> raw = Nan::New<Object>();
+        Nan::Set(raw, Nan::New("width").ToLocalChecked(), Nan::New<Number>(layout.width));
+        Nan::Set(raw, Nan::New("height").ToLocalChecked(), Nan::New<Number>(layout.height));
+        Nan::Set(raw, Nan::New("channels").ToLocalChecked(), Nan::New<Number>(layout.channels));
+        Nan::Set(raw, Nan::New("bitDepth").ToLocalChecked(), Nan::New<Number>(layout.bitDepth));
+        Nan::Set(raw, Nan::New("sampleFormat").ToLocalChecked(), Nan::New(layout.sampleFormat).ToLocalChecked());
+        Nan::Set(raw, Nan::New("stride").ToLocalChecked(), Nan::New<Number>(layout.stride));
+        Nan::Set(raw, Nan::New("colorSpace").ToLocalChecked(), Nan::New(layout.colorSpace).ToLocalChecked());
+        Nan::Set(outputImage, Nan::New("raw").ToLocalChecked(), raw);
+    }
+
+    // Add metadata if it was extracted
+    if (metadata.hasMetadata) {
+        Nan::Set(outputImage, Nan::New("metadata").ToLocalChecked(), MetadataToObject(metadata));
+    }
+
+    return scope.Escape(outputImage);
+}
+
+// Helpers to read a single option from a JavaScript object. Missing keys and
+// values of the wrong type leave the target unchanged.
+static void GetBoolOption(Local<Object> obj, const char* key, bool& target) {
+    Local<String> keyStr = Nan::New(key).ToLocalChecked();
+    if (Nan::Has(obj, keyStr).FromJust()) {
+        Local<Value> value = Nan::Get(obj, keyStr).ToLocalChecked();
+        if (value->IsBoolean()) {
+            target = Nan::To<bool>(value).FromJust();
+        }
+    }
+}
+
+static void GetNumberOption(Local<Object> obj, const char* key, double& target) {
+    Local<String> keyStr = Nan::New(key).ToLocalChecked();
+    if (Nan::Has(obj, keyStr).FromJust()) {
+        Local<Value> value = Nan::Get(obj, keyStr).ToLocalChecked();
+        if (value->IsNumber()) {
+            target = Nan::To<double>(value).FromJust();
+        }
+    }
+}
+
+static void GetStringOption(Local<Object> obj, const char* key, std::string& target) {
+    Local<String> keyStr = Nan::New(key).ToLocalChecked();
+    if (Nan::Has(obj, keyStr).FromJust()) {
+        Local<Value> value = Nan::Get(obj, keyStr).ToLocalChecked();
+        if (value->IsString()) {
+            Nan::Utf8String str(value);
+            target = std::string(*str);
+        }
+    }
+}
+
+// Returns true and sets target if the key holds an object
+static bool GetObjectOption(Local<Object> obj, const char* key, Local<Object>& target) {
+    Local<String> keyStr = Nan::New(key).ToLocalChecked();
+    if (Nan::Has(obj, keyStr).FromJust()) {
+        Local<Value> value = Nan::Get(obj, keyStr).ToLocalChecked();
+        if (value->IsObject()) {
+            target = value.As<Object>();
+            return true;
+        }
+    }
+    return false;
+}
+
+// Helper function to read a tone curve's [input, output] control points.
+// Malformed points are skipped.
+static void GetCurveOption(Local<Value> value, std::vector<CurvePoint>& target) {
+    if (!value->IsArray()) {
+        return;
+    }
+    // Replace rather than extend the points, since rendition options are
+    // parsed over a copy of the shared options
+    std::vector<CurvePoint> curve;
+    Local<Array> points = value.As<Array>();
+    for (uint32_t i = 0; i < points->Length(); i++) {
+        Local<Value> point = Nan::Get(points, i).ToLocalChecked();
+        if (!point->IsArray() || point.As<Array>()->Length() != 2) {
+            continue;
+        }
+        Local<Value> input = Nan::Get(point.As<Array>(), 0).ToLocalChecked();
+        Local<Value> output = Nan::Get(point.As<Array>(), 1).ToLocalChecked();
+        if (input->IsNumber() && output->IsNumber()) {
+            curve.push_back({Nan::To<double>(input).FromJust(), Nan::To<double>(output).FromJust()});
+        }
+    }
+    target = curve;
+}
+
+// Helper function to read conversion options from a JavaScript object.
+// Missing keys and values of the wrong type keep their current value.
+static void ParseConversionOptions(Local<Object> optionsObj, InternalConversionOptions& options) {
+    // Extract all options
+    GetBoolOption(optionsObj, "lensCorrection", options.lensCorrection);
+    GetNumberOption(optionsObj, "exposure", options.exposure);
+    GetNumberOption(optionsObj, "boost", options.boost);
+    GetNumberOption(optionsObj, "boostShadowAmount", options.boostShadowAmount);
+    GetNumberOption(optionsObj, "baselineExposure", options.baselineExposure);
+    GetNumberOption(optionsObj, "neutralTemperature", options.neutralTemperature);
+    GetNumberOption(optionsObj, "neutralTint", options.neutralTint);
+    GetBoolOption(optionsObj, "disableGamutMap", options.disableGamutMap);
+    GetBoolOption(optionsObj, "allowDraftMode", options.allowDraftMode);
+    GetBoolOption(optionsObj, "ignoreImageOrientation", options.ignoreImageOrientation);
+
+    // Extract new options
+    GetNumberOption(optionsObj, "colorNoiseReductionAmount", options.colorNoiseReductionAmount);
+    GetNumberOption(optionsObj, "luminanceNoiseReductionAmount", options.luminanceNoiseReductionAmount);
+    GetNumberOption(optionsObj, "contrastAmount", options.contrastAmount);
+    GetNumberOption(optionsObj, "sharpnessAmount", options.sharpnessAmount);
+    GetNumberOption(optionsObj, "noiseReductionAmount", options.noiseReductionAmount);
+    GetNumberOption(optionsObj, "localToneMapAmount", options.localToneMapAmount);
+    GetNumberOption(optionsObj, "scaleFactor", options.scaleFactor);
+
+    // Extract transform options
+    GetNumberOption(optionsObj, "straighten", options.straighten);
+    double rotate = 0;
+    GetNumberOption(optionsObj, "rotate", rotate);
+    options.rotate = (int)rotate;
+    GetBoolOption(optionsObj, "flip", options.flip);
+    GetBoolOption(optionsObj, "flop", options.flop);
+    GetStringOption(optionsObj, "colorSpace", options.colorSpace);
+
+    // Extract the tone curve: master points, or points per channel
+    Local<String> toneCurveKey = Nan::New("toneCurve").ToLocalChecked();
+    if (Nan::Has(optionsObj, toneCurveKey).FromJust()) {
+        Local<Value> toneCurve = Nan::Get(optionsObj, toneCurveKey).ToLocalChecked();
+        if (toneCurve->IsArray()) {
+            GetCurveOption(toneCurve, options.toneCurveMaster);
+        } else if (toneCurve->IsObject()) {
+            Local<Object> channelsObj = toneCurve.As<Object>();
+            GetCurveOption(Nan::Get(channelsObj, Nan::New("master").ToLocalChecked()).ToLocalChecked(), options.toneCurveMaster);
+            GetCurveOption(Nan::Get(channelsObj, Nan::New("red").ToLocalChecked()).ToLocalChecked(), options.toneCurveRed);
+            GetCurveOption(Nan::Get(channelsObj, Nan::New("green").ToLocalChecked()).ToLocalChecked(), options.toneCurveGreen);
+            GetCurveOption(Nan::Get(channelsObj, Nan::New("blue").ToLocalChecked()).ToLocalChecked(), options.toneCurveBlue);
+        }
+    }
+
+    // Extract LUT options, copying Buffer contents for the worker thread
+    Local<Object> lutObj;
+    if (GetObjectOption(optionsObj, "lut", lutObj)) {
+        options.lut = true;
+        GetStringOption(lutObj, "path", options.lutPath);
+        Local<Value> lutBuffer = Nan::Get(lutObj, Nan::New("buffer").ToLocalChecked()).ToLocalChecked();
+        if (node::Buffer::HasInstance(lutBuffer)) {
+            options.lutFromBuffer = true;
+            options.lutData.assign(node::Buffer::Data(lutBuffer), node::Buffer::Length(lutBuffer));
+        }
+        GetNumberOption(lutObj, "strength", options.lutStrength);
+        GetStringOption(lutObj, "interpolation", options.lutInterpolation);
+    }
+
+    // Extract crop options
+    Local<Object> cropObj;
+    if (GetObjectOption(optionsObj, "crop", cropObj)) {
+        GetNumberOption(cropObj, "left", options.cropLeft);
+        GetNumberOption(cropObj, "top", options.cropTop);
+        GetNumberOption(cropObj, "width", options.cropWidth);
+        GetNumberOption(cropObj, "height", options.cropHeight);
+        GetBoolOption(cropObj, "normalized", options.cropNormalized);
+        GetNumberOption(cropObj, "aspectRatio", options.cropAspectRatio);
+    }
+
+    // Extract resize options
+    Local<Object> resizeObj;
+    if (GetObjectOption(optionsObj, "resize", resizeObj)) {
+        GetNumberOption(resizeObj, "width", options.resizeWidth);
+        GetNumberOption(resizeObj, "height", options.resizeHeight);
+        GetStringOption(resizeObj, "fit", options.resizeFit);
+        GetBoolOption(resizeObj, "withoutEnlargement", options.resizeWithoutEnlargement);
+    }
+
+    // Extract quality options
+    GetNumberOption(optionsObj, "quality", options.quality);
+    GetBoolOption(optionsObj, "embedThumbnail", options.embedThumbnail);
+    GetBoolOption(optionsObj, "optimizeColorForSharing", options.optimizeColorForSharing);
+    GetBoolOption(optionsObj, "preserveExifData", options.preserveExifData);
+    GetBoolOption(optionsObj, "extractMetadata", options.extractMetadata);
+    GetStringOption(optionsObj, "inputFormat", options.inputFormat);
+}
+
+// Helper function to read the renditions of a multi-output conversion.
+// Throws a TypeError and returns false if the array is malformed.
+static bool ParseRenditions(Local<Value> value, const InternalConversionOptions& sharedOptions, std::vector<Rendition>& renditions) {
+    if (!value->IsArray() || value.As<Array>()->Length() == 0) {
+        Nan::ThrowTypeError("Renditions must be a non-empty array");
+        return false;
+    }
+
+    Local<Array> array = value.As<Array>();
+    for (uint32_t i = 0; i < array->Length(); i++) {
+        Local<Value> item = Nan::Get(array, i).ToLocalChecked();
+        if (!item->IsObject()) {
+            Nan::ThrowTypeError("Each rendition must be an object");
+            return false;
+        }
+        Local<Object> renditionObj = item.As<Object>();
+
+        Local<Value> format = Nan::Get(renditionObj, Nan::New("format").ToLocalChecked()).ToLocalChecked();
+        if (!format->IsString()) {
+            Nan::ThrowTypeError("Each rendition must have a string format");
+            return false;
+        }
+
+        Rendition rendition;
+        Nan::Utf8String formatStr(format);
+        rendition.format = std::string(*formatStr);
+        rendition.options = sharedOptions;
+
+        Local<Value> scale = Nan::Get(renditionObj, Nan::New("scale").ToLocalChecked()).ToLocalChecked();
+        if (scale->IsNumber()) {
+            rendition.scale = Nan::To<double>(scale).FromJust();
+        }
+
+        Local<Value> options = Nan::Get(renditionObj, Nan::New("options").ToLocalChecked()).ToLocalChecked();
+        if (options->IsObject()) {
+            ParseConversionOptions(options.As<Object>(), rendition.options);
+        }
+
+        renditions.push_back(rendition);
+    }
+
+    return true;
+}
+
+// Helper function to read the input argument: a file path or a Buffer, whose
+// memory is only valid until the calling method returns. Throws and returns
+// false if the input is invalid.
+static bool ReadInputArgument(Local<Value> input, bool* isFilePath, std::string* filePath, char** bufferData, size_t* bufferLength) {
+    if (input->IsString()) {
+        // File path input
+        *isFilePath = true;
+        Nan::Utf8String pathStr(input);
+        *filePath = std::string(*pathStr);
+
+        if (filePath->empty()) {
+            Nan::ThrowError("File path cannot be empty");
+            return false;
+        }
+    } else if (node::Buffer::HasInstance(input)) {
+        // Buffer input
+        *isFilePath = false;
+        Local<Object> bufferObj = input.As<Object>();
+        *bufferData = node::Buffer::Data(bufferObj);
+        *bufferLength = node::Buffer::Length(bufferObj);
+
+        if (*bufferLength == 0) {
+            Nan::ThrowError("Input buffer is empty");
+            return false;
+        }
+    } else {
+        Nan::ThrowTypeError("First argument must be a Buffer or file path string");
+        return false;
+    }
+
+    return true;
+}
+
 // Helper function to extract RGB data from CGImage
 static bool ExtractRgbData(CGImageRef cgImage, CGColorSpaceRef colorSpace, char** outputData, size_t* outputLength) {
     // Try to get raw data directly from the CGImage first
@@ -278,599 +749,1416 @@ static bool ExtractRgbData(CGImageRef cgImage, CGColorSpaceRef colorSpace, char*
     return true;
 }
 
-// AsyncWorker class for background RAW conversion
-class ConvertRawAsyncWorker : public Nan::AsyncWorker {
-public:
-    ConvertRawAsyncWorker(Nan::Callback *callback, 
-                         bool isFilePath,
-                         const std::string& filePath,
-                         char* bufferData,
-                         size_t bufferLength,
-                         const std::string& format,
-                         const InternalConversionOptions& options)
-        : Nan::AsyncWorker(callback), 
-          isFilePath_(isFilePath),
-          filePath_(filePath),
-          bufferData_(nullptr),
-          bufferLength_(bufferLength), 
-          format_(format),
-          options_(options),
-          outputData_(nullptr),
-          outputLength_(0) {
-        
-        // If we have buffer data, copy it for safe access in background thread
-        if (bufferData && bufferLength > 0) {
-            bufferData_ = new char[bufferLength];
-            memcpy(bufferData_, bufferData, bufferLength);
-        }
-    }
 
-    ~ConvertRawAsyncWorker() {
-        delete[] bufferData_;
-        delete[] outputData_;
+// A raw pixel output format rendered directly by Core Image
+struct PixelFormatInfo {
+    const char* name;
+    int channels;
+    int bitDepth;
+    bool isFloat;
+};
+
+static const PixelFormatInfo kPixelFormats[] = {
+    {"rgba", 4, 8, false},
+    {"rgb16", 3, 16, false},
+    {"rgbf32", 3, 32, true},
+};
+
+// Helper function to find a raw pixel output format, or nullptr
+static const PixelFormatInfo* FindPixelFormat(const std::string& format) {
+    for (const PixelFormatInfo& info : kPixelFormats) {
+        if (format == info.name) {
+            return &info;
+        }
     }
+    return nullptr;
+}
 
-    // Background thread execution
-    void Execute() override;
-    
-    // Main thread success callback
-    void HandleOKCallback() override;
-    
-    // Main thread error callback  
-    void HandleErrorCallback() override;
+// An output color space with its Core Graphics names
+struct ColorSpaceInfo {
+    const char* name;
+    CFStringRef cgName;
+    // Extended range variant for float output, or NULL to extend cgName
+    CFStringRef extendedName;
+};
 
-private:
-    bool isFilePath_;
-    std::string filePath_;
-    char* bufferData_;
-    size_t bufferLength_;
-    std::string format_;
-    InternalConversionOptions options_;
-    
-    // Output data
-    char* outputData_;
-    size_t outputLength_;
-    
-    // Metadata storage for background thread (plain C++ data)
-    struct MetadataStorage {
-        size_t width = 0;
-        size_t height = 0;
-        double focalLength35mm = -1;
-        double shutterSpeed = -1;
-        double fNumber = -1;
-        std::string cameraMake;
-        std::string cameraModel;
-        double iso = -1;
-        std::string dateTimeOriginal;
-        std::string lensMake;
-        std::string lensModel;
-        double focalLength = -1;
-        int whiteBalance = -1;
-        int exposureMode = -1;
-        double exposureBias = -999;
-        std::string software;
-        int orientation = -1;
-        double latitude = -999;
-        double longitude = -999;
-        double altitude = -999;
-        bool hasMetadata = false;
-    } metadataStorage_;
+static const ColorSpaceInfo kColorSpaces[] = {
+    {"srgb", kCGColorSpaceSRGB, kCGColorSpaceExtendedSRGB},
+    {"display-p3", kCGColorSpaceDisplayP3, NULL},
+    {"adobe-rgb", kCGColorSpaceAdobeRGB1998, NULL},
+    {"prophoto", kCGColorSpaceROMMRGB, NULL},
+    {"linear-srgb", kCGColorSpaceLinearSRGB, kCGColorSpaceExtendedLinearSRGB},
+    {"rec2020", kCGColorSpaceITUR_2020, NULL},
 };
 
-// Implementation of AsyncWorker methods
-void ConvertRawAsyncWorker::Execute() {
-    @autoreleasepool {
-        NSData* imageData = nil;
-        
-        // Load image data based on input type
-        if (isFilePath_) {
-            // Load from file path
-            NSString* nsFilePath = [NSString stringWithUTF8String:filePath_.c_str()];
-            imageData = [NSData dataWithContentsOfFile:nsFilePath];
-            
-            if (!imageData) {
-                SetErrorMessage("Failed to read file from path");
-                return;
-            }
-        } else {
-            // Use buffer data
-            if (!bufferData_ || bufferLength_ == 0) {
-                SetErrorMessage("Invalid buffer data");
-                return;
-            }
-            imageData = [NSData dataWithBytes:bufferData_ length:bufferLength_];
-        }
-        
-        // Write data to a temporary file because CIRAWFilter works better with file URLs
-        NSString* tempPath = [NSTemporaryDirectory() stringByAppendingPathComponent:[[NSUUID UUID] UUIDString]];
-        // Use inputFormat if specified, otherwise use original file extension
-        NSString* fileExtension = nil;
-        if (!options_.inputFormat.empty()) {
-            // inputFormat takes precedence
-            fileExtension = [NSString stringWithUTF8String:options_.inputFormat.c_str()];
-        } else if (isFilePath_) {
-            // Fall back to original file extension
-            NSString* originalPath = [NSString stringWithUTF8String:filePath_.c_str()];
-            NSString* originalExt = [originalPath pathExtension];
-            if ([originalExt length] > 0) {
-                fileExtension = originalExt;
-            }
-        }
-        
-        // Only append extension if we have one
-        if (fileExtension && [fileExtension length] > 0) {
-            tempPath = [tempPath stringByAppendingPathExtension:fileExtension];
-        }
-        
-        NSError* writeError = nil;
-        BOOL written = [imageData writeToFile:tempPath options:NSDataWritingAtomic error:&writeError];
-        
-        if (!written) {
-            NSString* errorMsg = [NSString stringWithFormat:@"Failed to write temp file: %@", writeError.localizedDescription];
-            SetErrorMessage([errorMsg UTF8String]);
-            return;
+// Helper function to find the color space of an output: the colorSpace
+// option, or sRGB (linear sRGB for float pixels) when it is not set. Returns
+// nullptr and sets the error message for an unknown name.
+static const ColorSpaceInfo* FindColorSpace(const InternalConversionOptions& options, bool isFloat, std::string& error) {
+    std::string name = options.colorSpace;
+    if (name.empty()) {
+        name = isFloat ? "linear-srgb" : "srgb";
+    }
+    for (const ColorSpaceInfo& info : kColorSpaces) {
+        if (name == info.name) {
+            return &info;
         }
-        
-        // Create URL for the temp file
-        NSURL* fileURL = [NSURL fileURLWithPath:tempPath];
-        
-        // Read metadata from source if preservation is requested
-        NSDictionary* sourceMetadata = nil;
-        CFDictionaryRef sourceMetadataRef = NULL;
-        if (options_.preserveExifData) {
-            CGImageSourceRef imageSource = CGImageSourceCreateWithURL((__bridge CFURLRef)fileURL, NULL);
-            if (imageSource) {
-                sourceMetadataRef = CGImageSourceCopyPropertiesAtIndex(imageSource, 0, NULL);
-                sourceMetadata = (__bridge NSDictionary*)sourceMetadataRef;
-                CFRelease(imageSource);
+    }
+    error = "Unsupported color space: " + name + ". Supported color spaces: srgb, display-p3, adobe-rgb, prophoto, linear-srgb, rec2020";
+    return nullptr;
+}
+
+// Helper function to create a color space owned by the caller. Extended range
+// spaces keep float values outside 0-1.
+static CGColorSpaceRef CreateColorSpace(const ColorSpaceInfo& info, bool extended) {
+    if (extended && info.extendedName) {
+        return CGColorSpaceCreateWithName(info.extendedName);
+    }
+
+    CGColorSpaceRef colorSpace = CGColorSpaceCreateWithName(info.cgName);
+    if (extended) {
+        if (@available(macOS 11.0, *)) {
+            CGColorSpaceRef extendedSpace = CGColorSpaceCreateExtended(colorSpace);
+            if (extendedSpace) {
+                CGColorSpaceRelease(colorSpace);
+                return extendedSpace;
             }
         }
-        
-        // Create RAW filter options
-        NSMutableDictionary* rawOptions = [NSMutableDictionary dictionary];
-        
-        // Basic options
-        rawOptions[kCIInputEnableVendorLensCorrectionKey] = options_.lensCorrection ? @YES : @NO;
-        rawOptions[kCIInputBoostKey] = @(options_.boost);
-        
-        // Exposure options
-        rawOptions[kCIInputEVKey] = @(options_.exposure);
-        if (options_.baselineExposure != 0.0) {
-            rawOptions[kCIInputBaselineExposureKey] = @(options_.baselineExposure);
-        }
-        if (options_.boostShadowAmount != 0.0) {
-            rawOptions[kCIInputBoostShadowAmountKey] = @(options_.boostShadowAmount);
-        }
-        
-        // Color options
-        if (options_.neutralTemperature >= 0) {
-            rawOptions[kCIInputNeutralTemperatureKey] = @(options_.neutralTemperature);
-        }
-        if (options_.neutralTint >= 0) {
-            rawOptions[kCIInputNeutralTintKey] = @(options_.neutralTint);
-        }
-        
-        // Other options
-        if (options_.disableGamutMap) {
-            rawOptions[kCIInputDisableGamutMapKey] = @YES;
-        }
-        if (options_.allowDraftMode) {
-            rawOptions[kCIInputAllowDraftModeKey] = @YES;
-        }
-        if (options_.ignoreImageOrientation) {
-            rawOptions[kCIInputIgnoreImageOrientationKey] = @YES;
-        }
-        
-        // Noise reduction options
-        if (options_.colorNoiseReductionAmount >= 0) {
-            rawOptions[kCIInputColorNoiseReductionAmountKey] = @(options_.colorNoiseReductionAmount);
-        }
-        if (options_.luminanceNoiseReductionAmount >= 0) {
-            rawOptions[kCIInputLuminanceNoiseReductionAmountKey] = @(options_.luminanceNoiseReductionAmount);
-        }
-        
-        // Enhancement options
-        if (options_.contrastAmount >= 0) {
-            rawOptions[kCIInputContrastKey] = @(options_.contrastAmount);
-        }
-        if (options_.sharpnessAmount >= 0) {
-            rawOptions[kCIInputSharpnessKey] = @(options_.sharpnessAmount);
-        }
-        
-        // Additional processing options
-        if (options_.noiseReductionAmount >= 0) {
-            rawOptions[kCIInputNoiseReductionAmountKey] = @(options_.noiseReductionAmount);
-        }
-        
-        if (@available(macOS 11.1, *)) {
-            if (options_.localToneMapAmount >= 0) {
-                rawOptions[kCIInputLocalToneMapAmountKey] = @(options_.localToneMapAmount);
-            }
+    }
+    return colorSpace;
+}
+
+// Helper function to render an image to packed pixels in a new[] buffer owned
+// by the caller. Core Image renders four channels, so alpha is dropped for
+// three-channel formats.
+static void RenderPixels(CIContext* context, CIImage* image, const PixelFormatInfo& info, const ColorSpaceInfo& colorSpaceInfo, char** outputData, size_t* outputLength, PixelLayout* layout) {
+    CGRect bounds = CGRectIntegral([image extent]);
+    size_t width = (size_t)bounds.size.width;
+    size_t height = (size_t)bounds.size.height;
+    size_t sampleBytes = info.bitDepth / 8;
+    size_t renderedRowBytes = width * 4 * sampleBytes;
+
+    CIFormat ciFormat = info.isFloat ? kCIFormatRGBAf : (info.bitDepth == 16 ? kCIFormatRGBA16 : kCIFormatRGBA8);
+    // Float output is unclamped, so highlights above 1.0 survive
+    CGColorSpaceRef colorSpace = CreateColorSpace(colorSpaceInfo, info.isFloat);
+    std::vector<char> rendered(renderedRowBytes * height);
+    [context render:image toBitmap:rendered.data() rowBytes:renderedRowBytes bounds:bounds format:ciFormat colorSpace:colorSpace];
+    CGColorSpaceRelease(colorSpace);
+
+    size_t pixelBytes = info.channels * sampleBytes;
+    *outputLength = width * height * pixelBytes;
+    *outputData = new char[*outputLength];
+    if (info.channels == 4) {
+        memcpy(*outputData, rendered.data(), *outputLength);
+    } else {
+        for (size_t i = 0; i < width * height; i++) {
+            memcpy(*outputData + i * pixelBytes, rendered.data() + i * 4 * sampleBytes, pixelBytes);
         }
-        
-        if (options_.scaleFactor != 1.0) {
-            rawOptions[kCIInputScaleFactorKey] = @(options_.scaleFactor);
+    }
+
+    // Rows are packed without padding
+    layout->present = true;
+    layout->width = width;
+    layout->height = height;
+    layout->channels = info.channels;
+    layout->bitDepth = info.bitDepth;
+    layout->sampleFormat = info.isFloat ? "float" : "uint";
+    layout->stride = width * pixelBytes;
+    layout->colorSpace = colorSpaceInfo.name;
+}
+
+// A monotone cubic spline (Fritsch-Butland) through tone curve control points,
+// flat before the first and after the last point. Mirrors createCurve in
+// tone-curve.ts. Fewer than two points leave values unchanged.
+struct MonotoneCurve {
+    std::vector<CurvePoint> points;
+    std::vector<double> tangents;
+
+    explicit MonotoneCurve(const std::vector<CurvePoint>& controlPoints) : points(controlPoints), tangents(controlPoints.size()) {
+        if (points.size() < 2) {
+            return;
         }
-        
-        if (@available(macOS 10.14, *)) {
-            rawOptions[kCIInputEnableEDRModeKey] = @NO;
+        size_t last = points.size() - 1;
+        std::vector<double> slopes(last);
+        for (size_t k = 0; k < last; k++) {
+            slopes[k] = (points[k + 1].output - points[k].output) / (points[k + 1].input - points[k].input);
+        }
+        tangents[0] = slopes[0];
+        tangents[last] = slopes[last - 1];
+        // Weighted harmonic mean of the neighbouring slopes, or flat at a peak
+        for (size_t k = 1; k < last; k++) {
+            double before = slopes[k - 1];
+            double after = slopes[k];
+            double h0 = points[k].input - points[k - 1].input;
+            double h1 = points[k + 1].input - points[k].input;
+            tangents[k] = before * after <= 0 ? 0 : 3 * (h0 + h1) / ((2 * h1 + h0) / before + (h1 + 2 * h0) / after);
         }
-        
-        // Create CIFilter from file URL
-        CIFilter* rawFilter = [CIFilter filterWithImageURL:fileURL options:rawOptions];
-        
-        // Clean up temp file
-        [[NSFileManager defaultManager] removeItemAtPath:tempPath error:nil];
-        
-        if (!rawFilter) {
-            SetErrorMessage("Failed to create CIRAWFilter from image data");
-            return;
+    }
+
+    double operator()(double value) const {
+        if (points.size() < 2) {
+            return value;
+        }
+        if (value <= points.front().input) {
+            return points.front().output;
+        }
+        if (value >= points.back().input) {
+            return points.back().output;
+        }
+        size_t k = 0;
+        while (value > points[k + 1].input) {
+            k++;
+        }
+        // Cubic Hermite basis on the segment
+        double h = points[k + 1].input - points[k].input;
+        double t = (value - points[k].input) / h;
+        double t2 = t * t;
+        double t3 = t2 * t;
+        return (2 * t3 - 3 * t2 + 1) * points[k].output + (t3 - 2 * t2 + t) * h * tangents[k] +
+               (-2 * t3 + 3 * t2) * points[k + 1].output + (t3 - t2) * h * tangents[k + 1];
+    }
+};
+
+// Samples in the table passed to CIColorCurves
+static const size_t kToneCurveSize = 1024;
+
+// Helper function to apply the tone curve options with CIColorCurves: each
+// channel's curve, then the master curve. The curves map values encoded in the
+// output color space. Returns the image unchanged when no curve is set.
+static CIImage* ApplyToneCurve(CIImage* image, const InternalConversionOptions& options, const ColorSpaceInfo& colorSpaceInfo, bool extended) {
+    const std::vector<CurvePoint>* channels[] = {&options.toneCurveRed, &options.toneCurveGreen, &options.toneCurveBlue};
+    if (options.toneCurveMaster.empty() && channels[0]->empty() && channels[1]->empty() && channels[2]->empty()) {
+        return image;
+    }
+
+    MonotoneCurve master(options.toneCurveMaster);
+    NSMutableData* table = [NSMutableData dataWithLength:kToneCurveSize * 3 * sizeof(float)];
+    float* samples = (float*)[table mutableBytes];
+    for (size_t c = 0; c < 3; c++) {
+        MonotoneCurve channel(*channels[c]);
+        for (size_t i = 0; i < kToneCurveSize; i++) {
+            samples[i * 3 + c] = (float)master(channel((double)i / (kToneCurveSize - 1)));
         }
-        
-        // Get the output image
-        CIImage* outputImage = rawFilter.outputImage;
-        
-        if (!outputImage) {
-            SetErrorMessage("Failed to get output image from RAW filter");
-            return;
+    }
+
+    CGColorSpaceRef colorSpace = CreateColorSpace(colorSpaceInfo, extended);
+    CIFilter* curvesFilter = [CIFilter filterWithName:@"CIColorCurves"];
+    [curvesFilter setValue:image forKey:kCIInputImageKey];
+    [curvesFilter setValue:table forKey:@"inputCurvesData"];
+    [curvesFilter setValue:[CIVector vectorWithX:0 Y:1] forKey:@"inputCurvesDomain"];
+    [curvesFilter setValue:(__bridge id)colorSpace forKey:@"inputColorSpace"];
+    CGColorSpaceRelease(colorSpace);
+    return curvesFilter.outputImage;
+}
+
+// A 1D or 3D table of a .cube file; a size of 0 means the file has none
+struct LutTable {
+    size_t size = 0;
+    // RGB entries; 3D tables vary red fastest, then green, then blue
+    std::vector<float> data;
+    double domainMin[3] = {0, 0, 0};
+    double domainMax[3] = {1, 1, 1};
+};
+
+// A parsed .cube file. The 1D table is applied first, as a shaper for the 3D
+// table.
+struct CubeLut {
+    LutTable table1D;
+    LutTable table3D;
+};
+
+// Helper function to read the numbers in words from first on. Returns false
+// if any word is not a finite number.
+static bool ParseNumbers(const std::vector<std::string>& words, size_t first, std::vector<double>& numbers) {
+    for (size_t i = first; i < words.size(); i++) {
+        char* end = nullptr;
+        double value = std::strtod(words[i].c_str(), &end);
+        if (*end != '\0' || !std::isfinite(value)) {
+            return false;
+        }
+        numbers.push_back(value);
+    }
+    return true;
+}
+
+// Helper function to parse an Adobe or Resolve .cube LUT. Mirrors parseCubeLut
+// in lut.ts. Returns false and sets the error message if the file is
+// malformed.
+static bool ParseCubeLut(const std::string& text, CubeLut& lut, std::string& error) {
+    size_t size1D = 0;
+    size_t size3D = 0;
+    // Bounds as {min, max}: DOMAIN_MIN/MAX, overridden per table by the
+    // Resolve input ranges
+    double domain[2][3] = {{0, 0, 0}, {1, 1, 1}};
+    double range1D[2][3];
+    double range3D[2][3];
+    bool hasRange1D = false;
+    bool hasRange3D = false;
+    std::vector<float> entries;
+
+    std::istringstream lines(text);
+    std::string line;
+    size_t lineNumber = 0;
+    while (std::getline(lines, line)) {
+        lineNumber++;
+        std::istringstream lineWords(line);
+        std::vector<std::string> words;
+        std::string word;
+        while (lineWords >> word) {
+            words.push_back(word);
+        }
+        if (words.empty() || words[0][0] == '#') {
+            continue;
         }
-        
-        // Create CIContext for rendering
-        CIContext* context = [CIContext context];
-        
-        // Get the image extent
-        CGRect extent = [outputImage extent];
-        
-        if (CGRectIsEmpty(extent)) {
-            SetErrorMessage("Output image has empty extent");
-            return;
+
+        const std::string& keyword = words[0];
+        std::vector<double> numbers;
+        if (std::isdigit((unsigned char)keyword[0]) || keyword[0] == '-' || keyword[0] == '+' || keyword[0] == '.') {
+            if (words.size() != 3 || !ParseNumbers(words, 0, numbers)) {
+                error = "Invalid LUT: line " + std::to_string(lineNumber) + " must have 3 numbers";
+                return false;
+            }
+            entries.insert(entries.end(), numbers.begin(), numbers.end());
+        } else if (keyword == "LUT_1D_SIZE" || keyword == "LUT_3D_SIZE") {
+            double max = keyword == "LUT_1D_SIZE" ? 65536 : 256;
+            if (words.size() != 2 || !ParseNumbers(words, 1, numbers) || numbers[0] != std::floor(numbers[0]) || numbers[0] < 2 || numbers[0] > max) {
+                error = "Invalid LUT: " + keyword + " must be between 2 and " + std::to_string((int)max);
+                return false;
+            }
+            (keyword == "LUT_1D_SIZE" ? size1D : size3D) = (size_t)numbers[0];
+        } else if (keyword == "DOMAIN_MIN" || keyword == "DOMAIN_MAX") {
+            if (words.size() != 4 || !ParseNumbers(words, 1, numbers)) {
+                error = "Invalid LUT: " + keyword + " must have 3 numbers";
+                return false;
+            }
+            std::copy(numbers.begin(), numbers.end(), domain[keyword == "DOMAIN_MIN" ? 0 : 1]);
+        } else if (keyword == "LUT_1D_INPUT_RANGE" || keyword == "LUT_3D_INPUT_RANGE") {
+            if (words.size() != 3 || !ParseNumbers(words, 1, numbers)) {
+                error = "Invalid LUT: " + keyword + " must have 2 numbers";
+                return false;
+            }
+            bool is1D = keyword == "LUT_1D_INPUT_RANGE";
+            double (*range)[3] = is1D ? range1D : range3D;
+            (is1D ? hasRange1D : hasRange3D) = true;
+            for (int c = 0; c < 3; c++) {
+                range[0][c] = numbers[0];
+                range[1][c] = numbers[1];
+            }
         }
-        
-        // Create a color space
-        CGColorSpaceRef colorSpace = CGColorSpaceCreateDeviceRGB();
-        
-        // Render CIImage to CGImage
-        CGImageRef cgImage = [context createCGImage:outputImage fromRect:extent];
-        
-        if (!cgImage) {
-            CGColorSpaceRelease(colorSpace);
-            SetErrorMessage("Failed to create CGImage from CIImage");
-            return;
+        // Other keywords, such as TITLE and LUT_IN_VIDEO_RANGE, do not change
+        // the table
+    }
+
+    if (!size1D && !size3D) {
+        error = "Invalid LUT: missing LUT_1D_SIZE or LUT_3D_SIZE";
+        return false;
+    }
+    size_t expected = size1D + size3D * size3D * size3D;
+    if (entries.size() != expected * 3) {
+        error = "Invalid LUT: expected " + std::to_string(expected) + " entries, got " + std::to_string(entries.size() / 3);
+        return false;
+    }
+
+    auto fillTable = [&](LutTable& table, size_t size, size_t start, size_t count, const double (*bounds)[3]) {
+        for (int c = 0; c < 3; c++) {
+            if (bounds[0][c] >= bounds[1][c]) {
+                error = "Invalid LUT: DOMAIN_MIN must be less than DOMAIN_MAX";
+                return false;
+            }
+            table.domainMin[c] = bounds[0][c];
+            table.domainMax[c] = bounds[1][c];
         }
-        
-        // Extract metadata if requested (store as plain C++ data for thread safety)
-        if (options_.extractMetadata) {
-            metadataStorage_.hasMetadata = true;
-            
-            // Basic image dimensions
-            if (cgImage) {
-                metadataStorage_.width = CGImageGetWidth(cgImage);
-                metadataStorage_.height = CGImageGetHeight(cgImage);
+        table.size = size;
+        table.data.assign(entries.begin() + start * 3, entries.begin() + (start + count) * 3);
+        return true;
+    };
+    if (size1D && !fillTable(lut.table1D, size1D, 0, size1D, hasRange1D ? range1D : domain)) {
+        return false;
+    }
+    if (size3D && !fillTable(lut.table3D, size3D, size1D, size3D * size3D * size3D, hasRange3D ? range3D : domain)) {
+        return false;
+    }
+    return true;
+}
+
+// Core Image kernel that grades pixels with the tables of a .cube file, given
+// as images, the way applyLut in lut.ts grades a color: each channel through
+// the 1D table, then the color through the 3D table with trilinear or
+// tetrahedral interpolation, blended with the original by strength. The 1D
+// table is laid out in rows of sizes.z entries; the 3D table in blue slices
+// of sizes.y by sizes.y entries, sizes.w slices to a row.
+static const char* kCubeLutKernel = R"(
+vec3 entry1D(sampler table, float index, float rowWidth)
+{
+    vec2 texel = vec2(mod(index, rowWidth), floor(index / rowWidth)) + 0.5;
+    return sample(table, samplerTransform(table, texel)).rgb;
+}
+
+vec3 entry3D(sampler table, vec3 cell, float size, float tilesPerRow)
+{
+    vec2 tile = vec2(mod(cell.b, tilesPerRow), floor(cell.b / tilesPerRow));
+    vec2 texel = tile * size + cell.rg + 0.5;
+    return sample(table, samplerTransform(table, texel)).rgb;
+}
+
+vec3 position(vec3 value, vec3 domainMin, vec3 domainMax, float size)
+{
+    return clamp((value - domainMin) / (domainMax - domainMin), 0.0, 1.0) * (size - 1.0);
+}
+
+vec3 apply1D(sampler table, vec3 color, float size, float rowWidth, vec3 domainMin, vec3 domainMax)
+{
+    vec3 at = position(color, domainMin, domainMax, size);
+    vec3 index = min(floor(at), size - 2.0);
+    vec3 fraction = at - index;
+    vec3 red = mix(entry1D(table, index.r, rowWidth), entry1D(table, index.r + 1.0, rowWidth), fraction.r);
+    vec3 green = mix(entry1D(table, index.g, rowWidth), entry1D(table, index.g + 1.0, rowWidth), fraction.g);
+    vec3 blue = mix(entry1D(table, index.b, rowWidth), entry1D(table, index.b + 1.0, rowWidth), fraction.b);
+    return vec3(red.r, green.g, blue.b);
+}
+
+vec3 apply3D(sampler table, vec3 color, float size, float tilesPerRow, vec3 domainMin, vec3 domainMax, float tetrahedral)
+{
+    vec3 at = position(color, domainMin, domainMax, size);
+    vec3 cell = min(floor(at), size - 2.0);
+    vec3 f = at - cell;
+
+    vec3 c000 = entry3D(table, cell, size, tilesPerRow);
+    vec3 c100 = entry3D(table, cell + vec3(1.0, 0.0, 0.0), size, tilesPerRow);
+    vec3 c010 = entry3D(table, cell + vec3(0.0, 1.0, 0.0), size, tilesPerRow);
+    vec3 c110 = entry3D(table, cell + vec3(1.0, 1.0, 0.0), size, tilesPerRow);
+    vec3 c001 = entry3D(table, cell + vec3(0.0, 0.0, 1.0), size, tilesPerRow);
+    vec3 c101 = entry3D(table, cell + vec3(1.0, 0.0, 1.0), size, tilesPerRow);
+    vec3 c011 = entry3D(table, cell + vec3(0.0, 1.0, 1.0), size, tilesPerRow);
+    vec3 c111 = entry3D(table, cell + vec3(1.0, 1.0, 1.0), size, tilesPerRow);
+
+    if (tetrahedral < 0.5) {
+        return mix(mix(mix(c000, c100, f.r), mix(c010, c110, f.r), f.g),
+                   mix(mix(c001, c101, f.r), mix(c011, c111, f.r), f.g), f.b);
+    }
+
+    // Split the cell into six tetrahedra along its diagonal and interpolate
+    // within the one containing the color
+    if (f.r > f.g) {
+        if (f.g > f.b) {
+            return c000 + f.r * (c100 - c000) + f.g * (c110 - c100) + f.b * (c111 - c110);
+        }
+        if (f.r > f.b) {
+            return c000 + f.r * (c100 - c000) + f.b * (c101 - c100) + f.g * (c111 - c101);
+        }
+        return c000 + f.b * (c001 - c000) + f.r * (c101 - c001) + f.g * (c111 - c101);
+    }
+    if (f.b > f.g) {
+        return c000 + f.b * (c001 - c000) + f.g * (c011 - c001) + f.r * (c111 - c011);
+    }
+    if (f.b > f.r) {
+        return c000 + f.g * (c010 - c000) + f.b * (c011 - c010) + f.r * (c111 - c011);
+    }
+    return c000 + f.g * (c010 - c000) + f.r * (c110 - c010) + f.b * (c111 - c110);
+}
+
+kernel vec4 applyCubeLut(sampler image, sampler table1D, sampler table3D, vec4 sizes,
+                         vec3 domainMin1D, vec3 domainMax1D, vec3 domainMin3D, vec3 domainMax3D,
+                         vec2 settings)
+{
+    vec4 pixel = unpremultiply(sample(image, samplerCoord(image)));
+    vec3 color = pixel.rgb;
+    if (sizes.x > 0.0) {
+        color = apply1D(table1D, color, sizes.x, sizes.z, domainMin1D, domainMax1D);
+    }
+    if (sizes.y > 0.0) {
+        color = apply3D(table3D, color, sizes.y, sizes.w, domainMin3D, domainMax3D, settings.y);
+    }
+    pixel.rgb = mix(pixel.rgb, color, settings.x);
+    return premultiply(pixel);
+}
+)";
+
+// Entries per row of the image holding a 1D table, which keeps the longest
+// tables within GPU texture limits
+static const size_t kLut1DRowWidth = 4096;
+
+// Helper function to lay out the entries of a table as an RGBA float image,
+// columns entries wide. Entry i goes to the texel row(i), column(i) counted
+// from the bottom left, as Core Image addresses them. An empty table becomes a
+// single black texel, since the kernel needs an image for every sampler.
+template <typename Row, typename Column>
+static CIImage* CreateLutImage(const LutTable& table, size_t count, size_t columns, size_t rows, Row row, Column column) {
+    if (count == 0) {
+        columns = rows = 1;
+    }
+    NSMutableData* texels = [NSMutableData dataWithLength:columns * rows * 4 * sizeof(float)];
+    float* data = (float*)[texels mutableBytes];
+    for (size_t i = 0; i < count; i++) {
+        // Bitmap rows run top to bottom, while Core Image's y axis points up
+        float* texel = data + ((rows - 1 - row(i)) * columns + column(i)) * 4;
+        texel[0] = table.data[i * 3];
+        texel[1] = table.data[i * 3 + 1];
+        texel[2] = table.data[i * 3 + 2];
+        texel[3] = 1;
+    }
+    // No color space, so Core Image leaves the entries unmatched
+    return [CIImage imageWithBitmapData:texels bytesPerRow:columns * 4 * sizeof(float) size:CGSizeMake(columns, rows) format:kCIFormatRGBAf colorSpace:nil];
+}
+
+// Helper function to apply the lut option to values encoded in the output
+// color space with kCubeLutKernel. Returns nullptr and sets the error message
+// if the file cannot be read, parsed or applied.
+static CIImage* ApplyLut(CIImage* image, const InternalConversionOptions& options, const ColorSpaceInfo& colorSpaceInfo, bool extended, std::string& error) {
+    if (!options.lut) {
+        return image;
+    }
+
+    std::string text = options.lutData;
+    if (!options.lutFromBuffer) {
+        NSData* data = [NSData dataWithContentsOfFile:[NSString stringWithUTF8String:options.lutPath.c_str()]];
+        if (!data) {
+            error = "Failed to read LUT file: " + options.lutPath;
+            return nullptr;
+        }
+        text.assign((const char*)[data bytes], [data length]);
+    }
+
+    CubeLut lut;
+    if (!ParseCubeLut(text, lut, error)) {
+        return nullptr;
+    }
+
+    // Compiled once; CIKernel is safe to share between threads
+    static CIKernel* kernel = [[CIKernel kernelWithString:[NSString stringWithUTF8String:kCubeLutKernel]] retain];
+    if (!kernel) {
+        error = "Failed to apply LUT: the kernel did not compile";
+        return nullptr;
+    }
+    if (@available(macOS 10.12, *)) {
+        const LutTable& table1D = lut.table1D;
+        size_t columns1D = std::min(table1D.size, kLut1DRowWidth);
+        size_t rows1D = table1D.size ? (table1D.size + columns1D - 1) / columns1D : 0;
+        CIImage* image1D = CreateLutImage(table1D, table1D.size, columns1D, rows1D,
+            [&](size_t i) { return i / columns1D; },
+            [&](size_t i) { return i % columns1D; });
+
+        // Blue slices are tiled in a square grid to keep both sides short
+        const LutTable& table3D = lut.table3D;
+        size_t size = table3D.size;
+        size_t tiles = (size_t)std::ceil(std::sqrt((double)size));
+        size_t tileRows = tiles ? (size + tiles - 1) / tiles : 0;
+        CIImage* image3D = CreateLutImage(table3D, size * size * size, tiles * size, tileRows * size,
+            [&](size_t i) { return (i / (size * size)) / tiles * size + (i / size) % size; },
+            [&](size_t i) { return (i / (size * size)) % tiles * size + i % size; });
+
+        auto vector = [](const double values[3]) {
+            return [CIVector vectorWithX:values[0] Y:values[1] Z:values[2]];
+        };
+        CGColorSpaceRef colorSpace = CreateColorSpace(colorSpaceInfo, extended);
+        CIImage* encoded = [image imageByColorMatchingWorkingSpaceToColorSpace:colorSpace];
+        CGRect extent1D = image1D.extent;
+        CGRect extent3D = image3D.extent;
+        CIImage* graded = [kernel applyWithExtent:encoded.extent
+            roiCallback:^CGRect(int index, CGRect rect) {
+                // The tables are read anywhere, whichever pixels are rendered
+                return index == 0 ? rect : (index == 1 ? extent1D : extent3D);
             }
-            
-            if (sourceMetadataRef) {
-                NSDictionary* sourceMetadata = (__bridge NSDictionary*)sourceMetadataRef;
-                
-                // Extract EXIF data
-                NSDictionary* exifDict = sourceMetadata[(NSString*)kCGImagePropertyExifDictionary];
-                if (exifDict) {
-                    NSNumber* focalLength35mm = exifDict[(NSString*)kCGImagePropertyExifFocalLenIn35mmFilm];
-                    if (focalLength35mm) {
-                        metadataStorage_.focalLength35mm = [focalLength35mm doubleValue];
-                    }
-                    
-                    NSNumber* exposureTime = exifDict[(NSString*)kCGImagePropertyExifExposureTime];
-                    if (exposureTime) {
-                        metadataStorage_.shutterSpeed = [exposureTime doubleValue];
-                    }
-                    
-                    NSNumber* fNumber = exifDict[(NSString*)kCGImagePropertyExifFNumber];
-                    if (fNumber) {
-                        metadataStorage_.fNumber = [fNumber doubleValue];
-                    }
+            arguments:@[
+                encoded, image1D, image3D,
+                [CIVector vectorWithX:table1D.size Y:size Z:columns1D W:tiles],
+                vector(table1D.domainMin), vector(table1D.domainMax),
+                vector(table3D.domainMin), vector(table3D.domainMax),
+                [CIVector vectorWithX:options.lutStrength Y:options.lutInterpolation == "trilinear" ? 0 : 1],
+            ]];
+        graded = [graded imageByColorMatchingColorSpaceToWorkingSpace:colorSpace];
+        CGColorSpaceRelease(colorSpace);
+        if (graded) {
+            return graded;
+        }
+    }
+    error = "Failed to apply LUT to the rendered image";
+    return nullptr;
+}
 
-                    NSArray* isoSpeedRatings = exifDict[(NSString*)kCGImagePropertyExifISOSpeedRatings];
-                    if (isoSpeedRatings && [isoSpeedRatings count] > 0) {
-                        NSNumber* iso = isoSpeedRatings[0];
-                        metadataStorage_.iso = [iso doubleValue];
-                    }
+// Helper function to load the RAW data from a file path or Buffer contents
+static NSData* LoadRawData(bool isFilePath, const std::string& filePath, const char* bufferData, size_t bufferLength, std::string& error) {
+    if (isFilePath) {
+        NSString* nsFilePath = [NSString stringWithUTF8String:filePath.c_str()];
+        NSData* imageData = [NSData dataWithContentsOfFile:nsFilePath];
 
-                    NSString* dateTimeOriginal = exifDict[(NSString*)kCGImagePropertyExifDateTimeOriginal];
-                    if (dateTimeOriginal) {
-                        metadataStorage_.dateTimeOriginal = [dateTimeOriginal UTF8String];
-                    }
+        if (!imageData) {
+            error = "Failed to read file from path";
+        }
+        return imageData;
+    }
 
-                    NSString* lensMake = exifDict[(NSString*)kCGImagePropertyExifLensMake];
-                    if (lensMake) {
-                        metadataStorage_.lensMake = [lensMake UTF8String];
-                    }
+    if (!bufferData || bufferLength == 0) {
+        error = "Invalid buffer data";
+        return nil;
+    }
+    return [NSData dataWithBytes:bufferData length:bufferLength];
+}
 
-                    NSString* lensModel = exifDict[(NSString*)kCGImagePropertyExifLensModel];
-                    if (lensModel) {
-                        metadataStorage_.lensModel = [lensModel UTF8String];
-                    }
+// Helper function to resample an image. aspectRatio is an additional
+// horizontal scale, for resizing each axis independently.
+static CIImage* ScaleImage(CIImage* image, double scale, double aspectRatio = 1.0) {
+    if (scale == 1.0 && aspectRatio == 1.0) {
+        return image;
+    }
 
-                    NSNumber* focalLength = exifDict[(NSString*)kCGImagePropertyExifFocalLength];
-                    if (focalLength) {
-                        metadataStorage_.focalLength = [focalLength doubleValue];
-                    }
+    CIFilter* scaleFilter = [CIFilter filterWithName:@"CILanczosScaleTransform"];
+    [scaleFilter setValue:image forKey:kCIInputImageKey];
+    [scaleFilter setValue:@(scale) forKey:kCIInputScaleKey];
+    [scaleFilter setValue:@(aspectRatio) forKey:kCIInputAspectRatioKey];
+    return scaleFilter.outputImage;
+}
 
-                    NSNumber* whiteBalance = exifDict[(NSString*)kCGImagePropertyExifWhiteBalance];
-                    if (whiteBalance) {
-                        metadataStorage_.whiteBalance = [whiteBalance intValue];
-                    }
+// Helper function to work out the size of an image after straightening: the
+// largest centred region with the original aspect ratio inside the rotated
+// image. Mirrors straightenedSize in transform.ts.
+static CGSize StraightenedSize(double width, double height, double degrees) {
+    double angle = std::fabs(degrees) * M_PI / 180;
+    double cosine = std::cos(angle);
+    double sine = std::sin(angle);
+    double scale = std::min(width / (width * cosine + height * sine),
+                            height / (width * sine + height * cosine));
+    return CGSizeMake(std::max(1.0, std::floor(width * scale)), std::max(1.0, std::floor(height * scale)));
+}
 
-                    NSNumber* exposureMode = exifDict[(NSString*)kCGImagePropertyExifExposureMode];
-                    if (exposureMode) {
-                        metadataStorage_.exposureMode = [exposureMode intValue];
-                    }
+// Helper function to apply the straighten, rotate, flip and flop options in
+// that order, moving the result to the origin. mirrored is set when the pixels
+// are stored mirrored and the orientation has not been applied, so that
+// straightening turns the image as displayed the requested way.
+static CIImage* TransformImage(CIImage* image, const InternalConversionOptions& options, bool mirrored) {
+    if (options.straighten != 0) {
+        CGSize size = StraightenedSize([image extent].size.width, [image extent].size.height, options.straighten);
+        // Core Image's y axis points up, so a clockwise turn is a negative angle
+        double angle = options.straighten * M_PI / 180 * (mirrored ? -1 : 1);
+        image = [image imageByApplyingTransform:CGAffineTransformMakeRotation(-angle)];
 
-                    NSNumber* exposureBias = exifDict[(NSString*)kCGImagePropertyExifExposureBiasValue];
-                    if (exposureBias) {
-                        metadataStorage_.exposureBias = [exposureBias doubleValue];
-                    }
-                }
-                
-                // Extract TIFF data
-                NSDictionary* tiffDict = sourceMetadata[(NSString*)kCGImagePropertyTIFFDictionary];
-                if (tiffDict) {
-                    NSString* make = tiffDict[(NSString*)kCGImagePropertyTIFFMake];
-                    if (make) {
-                        metadataStorage_.cameraMake = [make UTF8String];
-                    }
-                    
-                    NSString* model = tiffDict[(NSString*)kCGImagePropertyTIFFModel];
-                    if (model) {
-                        metadataStorage_.cameraModel = [model UTF8String];
-                    }
+        CGRect rotated = [image extent];
+        CGRect rect = CGRectMake(std::round(CGRectGetMidX(rotated) - size.width / 2),
+                                 std::round(CGRectGetMidY(rotated) - size.height / 2),
+                                 size.width, size.height);
+        image = [image imageByCroppingToRect:rect];
+    }
 
-                    NSString* software = tiffDict[(NSString*)kCGImagePropertyTIFFSoftware];
-                    if (software) {
-                        metadataStorage_.software = [software UTF8String];
-                    }
+    // Exact matrices, so quarter turns do not leave fractional edges
+    if (options.rotate == 90) {
+        image = [image imageByApplyingTransform:CGAffineTransformMake(0, -1, 1, 0, 0, 0)];
+    } else if (options.rotate == 180) {
+        image = [image imageByApplyingTransform:CGAffineTransformMake(-1, 0, 0, -1, 0, 0)];
+    } else if (options.rotate == 270) {
+        image = [image imageByApplyingTransform:CGAffineTransformMake(0, 1, -1, 0, 0, 0)];
+    }
+    if (options.flip) {
+        image = [image imageByApplyingTransform:CGAffineTransformMakeScale(1, -1)];
+    }
+    if (options.flop) {
+        image = [image imageByApplyingTransform:CGAffineTransformMakeScale(-1, 1)];
+    }
 
-                    NSNumber* orientation = tiffDict[(NSString*)kCGImagePropertyTIFFOrientation];
-                    if (orientation) {
-                        metadataStorage_.orientation = [orientation intValue];
-                    }
-                }
+    CGRect extent = [image extent];
+    return [image imageByApplyingTransform:CGAffineTransformMakeTranslation(-extent.origin.x, -extent.origin.y)];
+}
 
-                // GPS data
-                NSDictionary* gpsDict = sourceMetadata[(NSString*)kCGImagePropertyGPSDictionary];
-                if (gpsDict) {
-                    NSNumber* latitude = gpsDict[(NSString*)kCGImagePropertyGPSLatitude];
-                    NSString* latitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLatitudeRef];
-                    if (latitude && latitudeRef) {
-                        double lat = [latitude doubleValue];
-                        if ([latitudeRef isEqualToString:@"S"]) {
-                            lat = -lat;
-                        }
-                        metadataStorage_.latitude = lat;
-                    }
+// Helper function to work out the region of a decoded image to keep, as
+// fractions from its top-left corner, clamped to the image. Mirrors resolveCrop
+// in crop.ts. Returns false if no crop is set.
+static bool ResolveCrop(double decodedWidth, double decodedHeight, const InternalConversionOptions& options, CGRect* region) {
+    if (options.cropAspectRatio > 0) {
+        // Largest centred region with the requested aspect ratio
+        double imageRatio = decodedWidth / decodedHeight;
+        double width = std::min(1.0, options.cropAspectRatio / imageRatio);
+        double height = std::min(1.0, imageRatio / options.cropAspectRatio);
+        *region = CGRectMake((1 - width) / 2, (1 - height) / 2, width, height);
+        return true;
+    }
+    if (options.cropWidth <= 0 || options.cropHeight <= 0) {
+        return false;
+    }
 
-                    NSNumber* longitude = gpsDict[(NSString*)kCGImagePropertyGPSLongitude];
-                    NSString* longitudeRef = gpsDict[(NSString*)kCGImagePropertyGPSLongitudeRef];
-                    if (longitude && longitudeRef) {
-                        double lon = [longitude doubleValue];
-                        if ([longitudeRef isEqualToString:@"W"]) {
-                            lon = -lon;
-                        }
-                        metadataStorage_.longitude = lon;
-                    }
+    // Pixel regions are in full-size source pixels
+    double sourceWidth = options.cropNormalized ? 1.0 : decodedWidth / options.scaleFactor;
+    double sourceHeight = options.cropNormalized ? 1.0 : decodedHeight / options.scaleFactor;
+    double left = std::max(0.0, options.cropLeft / sourceWidth);
+    double top = std::max(0.0, options.cropTop / sourceHeight);
+    double right = std::min(1.0, (options.cropLeft + options.cropWidth) / sourceWidth);
+    double bottom = std::min(1.0, (options.cropTop + options.cropHeight) / sourceHeight);
+    *region = CGRectMake(left, top, std::max(0.0, right - left), std::max(0.0, bottom - top));
+    return true;
+}
 
-                    NSNumber* altitude = gpsDict[(NSString*)kCGImagePropertyGPSAltitude];
-                    if (altitude) {
-                        metadataStorage_.altitude = [altitude doubleValue];
-                    }
-                }
+// Helper function to crop an image to a region given as fractions from its
+// top-left corner, moving the result to the origin
+static CIImage* CropImage(CIImage* image, CGRect region) {
+    CGRect extent = [image extent];
+    double width = std::max(1.0, std::round(region.size.width * extent.size.width));
+    double height = std::max(1.0, std::round(region.size.height * extent.size.height));
+    double x = std::min(std::round(region.origin.x * extent.size.width), extent.size.width - width);
+    // Core Image puts the origin at the bottom-left corner
+    double y = std::max(0.0, extent.size.height - std::round(region.origin.y * extent.size.height) - height);
+
+    CGRect rect = CGRectMake(extent.origin.x + x, extent.origin.y + y, width, height);
+    image = [image imageByCroppingToRect:rect];
+    return [image imageByApplyingTransform:CGAffineTransformMakeTranslation(-rect.origin.x, -rect.origin.y)];
+}
+
+// How an image is resized to satisfy the resize options
+struct ResizePlan {
+    double scaleX = 1.0;
+    double scaleY = 1.0;
+    double scaledWidth = 0;
+    double scaledHeight = 0;
+    // Output size: the scaled image cropped (cover) or padded (contain)
+    double width = 0;
+    double height = 0;
+};
+
+// Helper function to work out the scale and final size of a resize. Mirrors
+// resolveResize in resize.ts.
+static ResizePlan ResolveResize(double sourceWidth, double sourceHeight, const InternalConversionOptions& options) {
+    ResizePlan plan;
+    const std::string& fit = options.resizeFit;
+    bool hasWidth = options.resizeWidth > 0;
+    bool hasHeight = options.resizeHeight > 0;
+    double ratioX = hasWidth ? options.resizeWidth / sourceWidth : 1.0;
+    double ratioY = hasHeight ? options.resizeHeight / sourceHeight : 1.0;
+
+    if (!hasWidth || !hasHeight) {
+        // A single dimension keeps the aspect ratio whatever the fit
+        plan.scaleX = plan.scaleY = hasWidth ? ratioX : ratioY;
+    } else if (fit == "fill") {
+        plan.scaleX = ratioX;
+        plan.scaleY = ratioY;
+    } else if (fit == "cover") {
+        plan.scaleX = plan.scaleY = std::max(ratioX, ratioY);
+    } else {
+        plan.scaleX = plan.scaleY = std::min(ratioX, ratioY);
+    }
+
+    if (options.resizeWithoutEnlargement) {
+        plan.scaleX = std::min(plan.scaleX, 1.0);
+        plan.scaleY = std::min(plan.scaleY, 1.0);
+    }
+
+    plan.scaledWidth = std::max(1.0, std::round(sourceWidth * plan.scaleX));
+    plan.scaledHeight = std::max(1.0, std::round(sourceHeight * plan.scaleY));
+    double boxWidth = hasWidth ? std::round(options.resizeWidth) : plan.scaledWidth;
+    double boxHeight = hasHeight ? std::round(options.resizeHeight) : plan.scaledHeight;
+
+    if (fit == "cover") {
+        plan.width = std::min(boxWidth, plan.scaledWidth);
+        plan.height = std::min(boxHeight, plan.scaledHeight);
+    } else if (fit == "contain") {
+        plan.width = boxWidth;
+        plan.height = boxHeight;
+    } else {
+        plan.width = plan.scaledWidth;
+        plan.height = plan.scaledHeight;
+    }
+    return plan;
+}
+
+// Helper function to resample an image to the exact scaled size of a resize
+// plan, then crop or pad it around the centre to the output size
+static CIImage* ApplyResizePlan(CIImage* image, const ResizePlan& plan) {
+    // Move the image to the origin so the crop rectangles below line up
+    CGRect extent = [image extent];
+    image = [image imageByApplyingTransform:CGAffineTransformMakeTranslation(-extent.origin.x, -extent.origin.y)];
+
+    double scaleY = plan.scaledHeight / extent.size.height;
+    double aspectRatio = (plan.scaledWidth / extent.size.width) / scaleY;
+    image = ScaleImage(image, scaleY, aspectRatio);
+    // Resampling can leave a fractional edge
+    image = [image imageByCroppingToRect:CGRectMake(0, 0, plan.scaledWidth, plan.scaledHeight)];
+
+    if (plan.width < plan.scaledWidth || plan.height < plan.scaledHeight) {
+        // cover: crop the overflow
+        double x = std::floor((plan.scaledWidth - plan.width) / 2);
+        double y = std::floor((plan.scaledHeight - plan.height) / 2);
+        image = [image imageByCroppingToRect:CGRectMake(x, y, plan.width, plan.height)];
+        image = [image imageByApplyingTransform:CGAffineTransformMakeTranslation(-x, -y)];
+    } else if (plan.width > plan.scaledWidth || plan.height > plan.scaledHeight) {
+        // contain: pad with black
+        double x = std::floor((plan.width - plan.scaledWidth) / 2);
+        double y = std::floor((plan.height - plan.scaledHeight) / 2);
+        CIImage* background = [[CIImage imageWithColor:[CIColor colorWithRed:0 green:0 blue:0]]
+                               imageByCroppingToRect:CGRectMake(0, 0, plan.width, plan.height)];
+        image = [[image imageByApplyingTransform:CGAffineTransformMakeTranslation(x, y)]
+                 imageByCompositingOverImage:background];
+    }
+
+    return image;
+}
+
+// Helper function to decode RAW data into a CIImage with CIRAWFilter,
+// transformed, cropped and resized when those options are set. Must be called inside an autorelease pool,
+// which owns the returned image. When
+// preserveExifData is set, the source properties are returned in
+// *sourceMetadataRef and must be released by the caller. Returns nil and sets
+// the error message on failure, including when cancelled is set before the
+// filter is created.
+static CIImage* DecodeRawImage(NSData* imageData, const std::string& filePath, const InternalConversionOptions& options, const std::atomic<bool>* cancelled, CFDictionaryRef* sourceMetadataRef, std::string& error) {
+    *sourceMetadataRef = NULL;
+
+    // Write data to a temporary file because CIRAWFilter works better with file URLs
+    NSString* tempPath = [NSTemporaryDirectory() stringByAppendingPathComponent:[[NSUUID UUID] UUIDString]];
+    // Use inputFormat if specified, otherwise use original file extension
+    NSString* fileExtension = nil;
+    if (!options.inputFormat.empty()) {
+        // inputFormat takes precedence
+        fileExtension = [NSString stringWithUTF8String:options.inputFormat.c_str()];
+    } else if (!filePath.empty()) {
+        // Fall back to original file extension
+        NSString* originalPath = [NSString stringWithUTF8String:filePath.c_str()];
+        NSString* originalExt = [originalPath pathExtension];
+        if ([originalExt length] > 0) {
+            fileExtension = originalExt;
+        }
+    }
+
+    // Only append extension if we have one
+    if (fileExtension && [fileExtension length] > 0) {
+        tempPath = [tempPath stringByAppendingPathExtension:fileExtension];
+    }
+
+    NSError* writeError = nil;
+    BOOL written = [imageData writeToFile:tempPath options:NSDataWritingAtomic error:&writeError];
+
+    if (!written) {
+        NSString* errorMsg = [NSString stringWithFormat:@"Failed to write temp file: %@", writeError.localizedDescription];
+        error = [errorMsg UTF8String];
+        return nil;
+    }
+
+    // Create URL for the temp file
+    NSURL* fileURL = [NSURL fileURLWithPath:tempPath];
+
+    // Read metadata from source if preservation is requested, and the stored
+    // orientation when straightening an image whose orientation is ignored
+    bool needsOrientation = options.ignoreImageOrientation && options.straighten != 0;
+    bool mirrored = false;
+    if (options.preserveExifData || needsOrientation) {
+        CGImageSourceRef imageSource = CGImageSourceCreateWithURL((__bridge CFURLRef)fileURL, NULL);
+        if (imageSource) {
+            CFDictionaryRef properties = CGImageSourceCopyPropertiesAtIndex(imageSource, 0, NULL);
+            CFRelease(imageSource);
+
+            int orientation = ReadSourceOrientation(properties);
+            mirrored = needsOrientation && orientation >= 1 && orientation <= 8 && kExifOrientations[orientation - 1].mirrored;
+            if (options.preserveExifData) {
+                *sourceMetadataRef = properties;
+            } else if (properties) {
+                CFRelease(properties);
             }
         }
-        
-        // Handle RGB format separately (raw bitmap data)
-        std::string format = format_;
-        if (format == "rgb") {
-            if (ExtractRgbData(cgImage, colorSpace, &outputData_, &outputLength_)) {
-                CGColorSpaceRelease(colorSpace);
-                CGImageRelease(cgImage);
-                if (sourceMetadataRef) {
-                    CFRelease(sourceMetadataRef);
-                }
-                return;
-            } else {
-                CGColorSpaceRelease(colorSpace);
-                CGImageRelease(cgImage);
-                if (sourceMetadataRef) {
-                    CFRelease(sourceMetadataRef);
+    }
+
+    // Create RAW filter options
+    NSMutableDictionary* rawOptions = [NSMutableDictionary dictionary];
+
+    // Basic options
+    rawOptions[kCIInputEnableVendorLensCorrectionKey] = options.lensCorrection ? @YES : @NO;
+    rawOptions[kCIInputBoostKey] = @(options.boost);
+
+    // Exposure options
+    rawOptions[kCIInputEVKey] = @(options.exposure);
+    if (options.baselineExposure != 0.0) {
+        rawOptions[kCIInputBaselineExposureKey] = @(options.baselineExposure);
+    }
+    if (options.boostShadowAmount != 0.0) {
+        rawOptions[kCIInputBoostShadowAmountKey] = @(options.boostShadowAmount);
+    }
+
+    // Color options
+    if (options.neutralTemperature >= 0) {
+        rawOptions[kCIInputNeutralTemperatureKey] = @(options.neutralTemperature);
+    }
+    if (!std::isnan(options.neutralTint)) {
+        rawOptions[kCIInputNeutralTintKey] = @(options.neutralTint);
+    }
+
+    // Other options
+    if (options.disableGamutMap) {
+        rawOptions[kCIInputDisableGamutMapKey] = @YES;
+    }
+    if (options.allowDraftMode) {
+        rawOptions[kCIInputAllowDraftModeKey] = @YES;
+    }
+    if (options.ignoreImageOrientation) {
+        rawOptions[kCIInputIgnoreImageOrientationKey] = @YES;
+    }
+
+    // Noise reduction options
+    if (options.colorNoiseReductionAmount >= 0) {
+        rawOptions[kCIInputColorNoiseReductionAmountKey] = @(options.colorNoiseReductionAmount);
+    }
+    if (options.luminanceNoiseReductionAmount >= 0) {
+        rawOptions[kCIInputLuminanceNoiseReductionAmountKey] = @(options.luminanceNoiseReductionAmount);
+    }
+
+    // Enhancement options
+    if (options.contrastAmount >= 0) {
+        rawOptions[kCIInputContrastKey] = @(options.contrastAmount);
+    }
+    if (options.sharpnessAmount >= 0) {
+        rawOptions[kCIInputSharpnessKey] = @(options.sharpnessAmount);
+    }
+
+    // Additional processing options
+    if (options.noiseReductionAmount >= 0) {
+        rawOptions[kCIInputNoiseReductionAmountKey] = @(options.noiseReductionAmount);
+    }
+
+    if (@available(macOS 11.1, *)) {
+        if (options.localToneMapAmount >= 0) {
+            rawOptions[kCIInputLocalToneMapAmountKey] = @(options.localToneMapAmount);
+        }
+    }
+
+    if (options.scaleFactor != 1.0) {
+        rawOptions[kCIInputScaleFactorKey] = @(options.scaleFactor);
+    }
+
+    if (@available(macOS 10.14, *)) {
+        rawOptions[kCIInputEnableEDRModeKey] = @NO;
+    }
+
+    if (cancelled && cancelled->load()) {
+        [[NSFileManager defaultManager] removeItemAtPath:tempPath error:nil];
+        if (*sourceMetadataRef) {
+            CFRelease(*sourceMetadataRef);
+            *sourceMetadataRef = NULL;
+        }
+        error = "Conversion was cancelled";
+        return nil;
+    }
+
+    // Create CIFilter from file URL
+    CIFilter* rawFilter = [CIFilter filterWithImageURL:fileURL options:rawOptions];
+
+    // Clean up temp file
+    [[NSFileManager defaultManager] removeItemAtPath:tempPath error:nil];
+
+    // Get the output image
+    CIImage* outputImage = nil;
+    if (!rawFilter) {
+        error = "Failed to create CIRAWFilter from image data";
+    } else if (!(outputImage = rawFilter.outputImage)) {
+        error = "Failed to get output image from RAW filter";
+    } else if (CGRectIsEmpty([outputImage extent])) {
+        error = "Output image has empty extent";
+        outputImage = nil;
+    }
+
+    bool hasTransforms = options.straighten != 0 || options.rotate != 0 || options.flip || options.flop;
+    if (outputImage && hasTransforms) {
+        outputImage = TransformImage(outputImage, options, mirrored);
+    }
+
+    // The orientation and transforms have been applied, so the crop region is
+    // in the coordinates of the image as displayed
+    CGRect cropRegion = CGRectMake(0, 0, 1, 1);
+    bool hasCrop = false;
+    if (outputImage) {
+        CGRect extent = [outputImage extent];
+        hasCrop = ResolveCrop(extent.size.width, extent.size.height, options, &cropRegion);
+        if (hasCrop && CGRectIsEmpty(cropRegion)) {
+            error = "Crop region is outside the image";
+            outputImage = nil;
+        }
+    }
+
+    if (!outputImage && *sourceMetadataRef) {
+        CFRelease(*sourceMetadataRef);
+        *sourceMetadataRef = NULL;
+    }
+
+    if (outputImage && (options.resizeWidth > 0 || options.resizeHeight > 0)) {
+        CGRect extent = [outputImage extent];
+        double croppedWidth = std::max(1.0, std::round(extent.size.width * cropRegion.size.width));
+        double croppedHeight = std::max(1.0, std::round(extent.size.height * cropRegion.size.height));
+        ResizePlan plan = ResolveResize(croppedWidth, croppedHeight, options);
+
+        // Let the RAW decoder do the downscaling it can, which is faster and
+        // sharper than resampling the full-size image
+        double decodeScale = std::max(plan.scaleX, plan.scaleY);
+        if (decodeScale < 1.0) {
+            [rawFilter setValue:@(options.scaleFactor * decodeScale) forKey:kCIInputScaleFactorKey];
+            outputImage = rawFilter.outputImage;
+            if (!outputImage) {
+                error = "Failed to get output image from RAW filter";
+                if (*sourceMetadataRef) {
+                    CFRelease(*sourceMetadataRef);
+                    *sourceMetadataRef = NULL;
                 }
-                SetErrorMessage("Failed to extract RGB data from image");
-                return;
+                return nil;
+            }
+            if (hasTransforms) {
+                outputImage = TransformImage(outputImage, options, mirrored);
             }
         }
-        
-        // Determine the UTI for the output format
-        CFStringRef outputUTI;
-        if (format == "jpeg" || format == "jpg") {
-            outputUTI = CFSTR("public.jpeg");
-        } else if (format == "png") {
-            outputUTI = CFSTR("public.png");
-        } else if (format == "tiff" || format == "tif") {
-            outputUTI = CFSTR("public.tiff");
-        } else if (format == "jpeg2000" || format == "jp2") {
-            outputUTI = CFSTR("public.jpeg-2000");
-        } else if (format == "heif" || format == "heic") {
-            outputUTI = CFSTR("public.heic");
+        if (hasCrop) {
+            outputImage = CropImage(outputImage, cropRegion);
+        }
+        outputImage = ApplyResizePlan(outputImage, plan);
+    } else if (outputImage && hasCrop) {
+        outputImage = CropImage(outputImage, cropRegion);
+    }
+    return outputImage;
+}
+
+// Helper function to read the metadata of a converted image, reporting the
+// orientation and color space of the output pixels rather than the source
+static void ReadOutputMetadata(CFDictionaryRef sourceMetadataRef, CGImageRef cgImage, const InternalConversionOptions& options, const ColorSpaceInfo& colorSpaceInfo, MetadataStorage& metadata) {
+    ReadImageMetadata(sourceMetadataRef, cgImage, metadata);
+    metadata.colorSpace = colorSpaceInfo.name;
+    if (metadata.orientation >= 0) {
+        metadata.orientation = OutputOrientation(metadata.orientation, options);
+    }
+}
+
+// Helper function to determine the UTI for an encoded output format, or NULL if unsupported
+static CFStringRef OutputTypeForFormat(const std::string& format) {
+    if (format == "jpeg" || format == "jpg") {
+        return CFSTR("public.jpeg");
+    } else if (format == "png") {
+        return CFSTR("public.png");
+    } else if (format == "tiff" || format == "tif") {
+        return CFSTR("public.tiff");
+    } else if (format == "jpeg2000" || format == "jp2") {
+        return CFSTR("public.jpeg-2000");
+    } else if (format == "heif" || format == "heic") {
+        return CFSTR("public.heic");
+    }
+    return NULL;
+}
+
+// Helper function to render a decoded image and encode it in the requested
+// format. The output is returned in a new[] buffer owned by the caller,
+// metadata is read into *metadata unless it is null, and the pixel layout of
+// raw output is described in *layout. Returns false and sets
+// the error message on failure, including when cancelled is set once the
+// image has been rendered.
+static bool RenderImage(CIContext* context, CIImage* image, const std::string& format, const InternalConversionOptions& options, CFDictionaryRef sourceMetadataRef, const std::atomic<bool>* cancelled, char** outputData, size_t* outputLength, MetadataStorage* metadata, PixelLayout* layout, std::string& error) {
+    CFStringRef outputUTI = NULL;
+    const PixelFormatInfo* pixelFormat = FindPixelFormat(format);
+    if (format != "rgb" && !pixelFormat) {
+        outputUTI = OutputTypeForFormat(format);
+        if (!outputUTI) {
+            error = "Unsupported output format: " + format + ". Supported formats: jpeg, jpg, png, tiff, tif, jpeg2000, jp2, heif, heic, rgb, rgba, rgb16, rgbf32";
+            return false;
+        }
+    }
+
+    const ColorSpaceInfo* colorSpaceInfo = FindColorSpace(options, pixelFormat && pixelFormat->isFloat, error);
+    if (!colorSpaceInfo) {
+        return false;
+    }
+    image = ApplyToneCurve(image, options, *colorSpaceInfo, pixelFormat && pixelFormat->isFloat);
+    image = ApplyLut(image, options, *colorSpaceInfo, pixelFormat && pixelFormat->isFloat, error);
+    if (!image) {
+        return false;
+    }
+
+    // Render wider and four-channel pixel formats straight to a bitmap
+    if (pixelFormat) {
+        RenderPixels(context, image, *pixelFormat, *colorSpaceInfo, outputData, outputLength, layout);
+
+        if (cancelled && cancelled->load()) {
+            delete[] *outputData;
+            *outputData = nullptr;
+            error = "Conversion was cancelled";
+            return false;
+        }
+
+        if (metadata) {
+            ReadOutputMetadata(sourceMetadataRef, NULL, options, *colorSpaceInfo, *metadata);
+            metadata->width = layout->width;
+            metadata->height = layout->height;
+        }
+        return true;
+    }
+
+    // Render CIImage to CGImage in the output color space, which image
+    // destinations embed as the ICC profile
+    CGColorSpaceRef colorSpace = CreateColorSpace(*colorSpaceInfo, false);
+    CGImageRef cgImage = [context createCGImage:image fromRect:[image extent] format:kCIFormatRGBA8 colorSpace:colorSpace];
+    CGColorSpaceRelease(colorSpace);
+
+    if (!cgImage) {
+        error = "Failed to create CGImage from CIImage";
+        return false;
+    }
+
+    // Skip encoding if the caller gave up while the image was rendering
+    if (cancelled && cancelled->load()) {
+        CGImageRelease(cgImage);
+        error = "Conversion was cancelled";
+        return false;
+    }
+
+    // Extract metadata if requested (for all formats)
+    if (metadata) {
+        ReadOutputMetadata(sourceMetadataRef, cgImage, options, *colorSpaceInfo, *metadata);
+    }
+
+    // Handle RGB format separately (raw bitmap data)
+    if (format == "rgb") {
+        // Draw the fallback bitmap in the color space the image was rendered in
+        bool extracted = ExtractRgbData(cgImage, CGImageGetColorSpace(cgImage), outputData, outputLength);
+
+        if (extracted) {
+            // Rows are packed without padding
+            layout->present = true;
+            layout->width = CGImageGetWidth(cgImage);
+            layout->height = CGImageGetHeight(cgImage);
+            layout->stride = layout->width * 3;
+            layout->colorSpace = colorSpaceInfo->name;
         } else {
-            CGColorSpaceRelease(colorSpace);
-            CGImageRelease(cgImage);
-            std::string errorMsg = "Unsupported output format: " + format + ". Supported formats: jpeg, jpg, png, tiff, tif, jpeg2000, jp2, heif, heic, rgb";
-            SetErrorMessage(errorMsg.c_str());
+            error = "Failed to extract RGB data from image";
+        }
+        CGImageRelease(cgImage);
+        return extracted;
+    }
+
+    // Create output data
+    NSMutableData* encodedData = [NSMutableData data];
+    CGImageDestinationRef destination = CGImageDestinationCreateWithData(
+        (__bridge CFMutableDataRef)encodedData,
+        outputUTI,
+        1,
+        NULL
+    );
+
+    if (!destination) {
+        CGImageRelease(cgImage);
+        error = "Failed to create image destination";
+        return false;
+    }
+
+    // Set format-specific properties
+    NSMutableDictionary* properties = [NSMutableDictionary dictionary];
+
+    // Set compression quality for lossy formats
+    if (format == "jpeg" || format == "jpg" || format == "heif" || format == "heic" || format == "jpeg2000" || format == "jp2") {
+        double compressionQuality = (options.quality >= 0.0) ? options.quality : 0.9; // Default to 0.9 if not specified
+        properties[(__bridge NSString*)kCGImageDestinationLossyCompressionQuality] = @(compressionQuality);
+    }
+
+    // Set thumbnail embedding for JPEG and HEIF formats
+    if ((format == "jpeg" || format == "jpg" || format == "heif" || format == "heic") && options.embedThumbnail) {
+        properties[(__bridge NSString*)kCGImageDestinationEmbedThumbnail] = @YES;
+    }
+
+    // Set optimize color for sharing for all formats, unless it would replace
+    // the requested color space
+    if (options.optimizeColorForSharing && options.colorSpace.empty()) {
+        properties[(__bridge NSString*)kCGImageDestinationOptimizeColorForSharing] = @YES;
+    }
+
+    // Merge source metadata if preservation is requested
+    if (options.preserveExifData && sourceMetadataRef) {
+        NSMutableDictionary* mergedProperties = [NSMutableDictionary dictionaryWithDictionary:(__bridge NSDictionary*)sourceMetadataRef];
+
+        // Merge the format-specific properties
+        [mergedProperties addEntriesFromDictionary:properties];
+
+        // Record the orientation of the output pixels, so viewers do not apply
+        // the source orientation a second time
+        int orientation = OutputOrientation(ReadSourceOrientation(sourceMetadataRef), options);
+        mergedProperties[(__bridge NSString*)kCGImagePropertyOrientation] = @(orientation);
+        NSDictionary* tiffDict = mergedProperties[(__bridge NSString*)kCGImagePropertyTIFFDictionary];
+        if (tiffDict) {
+            NSMutableDictionary* mergedTiff = [NSMutableDictionary dictionaryWithDictionary:tiffDict];
+            mergedTiff[(__bridge NSString*)kCGImagePropertyTIFFOrientation] = @(orientation);
+            mergedProperties[(__bridge NSString*)kCGImagePropertyTIFFDictionary] = mergedTiff;
+        }
+
+        // The EXIF color space tag only identifies sRGB; other spaces are
+        // described by the embedded profile alone
+        NSDictionary* exifDict = mergedProperties[(__bridge NSString*)kCGImagePropertyExifDictionary];
+        if (exifDict) {
+            NSMutableDictionary* mergedExif = [NSMutableDictionary dictionaryWithDictionary:exifDict];
+            mergedExif[(__bridge NSString*)kCGImagePropertyExifColorSpace] = @(strcmp(colorSpaceInfo->name, "srgb") == 0 ? 1 : 0xFFFF);
+            mergedProperties[(__bridge NSString*)kCGImagePropertyExifDictionary] = mergedExif;
+        }
+
+        // Use the kCGImageDestinationMergeMetadata option to preserve metadata
+        mergedProperties[(__bridge NSString*)kCGImageDestinationMergeMetadata] = @YES;
+
+        CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)mergedProperties);
+    } else {
+        CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)properties);
+    }
+
+    bool finalized = CGImageDestinationFinalize(destination);
+    CFRelease(destination);
+    CGImageRelease(cgImage);
+
+    if (!finalized) {
+        error = "Failed to finalize image destination";
+        return false;
+    }
+
+    *outputLength = [encodedData length];
+    *outputData = new char[*outputLength];
+    memcpy(*outputData, [encodedData bytes], *outputLength);
+    return true;
+}
+
+// Cancellation flags of queued and running async conversions, keyed by job id.
+// Only touched on the main thread; the worker thread reads its own flag.
+static std::map<uint32_t, std::shared_ptr<std::atomic<bool>>> cancellationFlags;
+static uint32_t nextJobId = 1;
+
+// Base class for background RAW conversions: owns a copy of the input and the
+// job's cancellation flag, and decodes the input on the worker thread
+class RawConversionWorker : public Nan::AsyncWorker {
+public:
+    RawConversionWorker(Nan::Callback *callback,
+                        bool isFilePath,
+                        const std::string& filePath,
+                        char* bufferData,
+                        size_t bufferLength,
+                        const InternalConversionOptions& options,
+                        uint32_t jobId,
+                        std::shared_ptr<std::atomic<bool>> cancelled)
+        : Nan::AsyncWorker(callback),
+          jobId_(jobId),
+          cancelled_(cancelled),
+          isFilePath_(isFilePath),
+          filePath_(filePath),
+          bufferData_(nullptr),
+          bufferLength_(bufferLength),
+          options_(options) {
+
+        // If we have buffer data, copy it for safe access in background thread
+        if (bufferData && bufferLength > 0) {
+            bufferData_ = new char[bufferLength];
+            memcpy(bufferData_, bufferData, bufferLength);
+        }
+    }
+
+    ~RawConversionWorker() {
+        cancellationFlags.erase(jobId_);
+        delete[] bufferData_;
+    }
+
+    // Main thread error callback
+    void HandleErrorCallback() override;
+
+protected:
+    // Checked between pipeline stages so cancelled jobs stop early
+    bool IsCancelled() const {
+        return cancelled_->load();
+    }
+
+    // Load and decode the input. Must be called inside an autorelease pool;
+    // returns nil after setting the error message on failure.
+    CIImage* Decode(CFDictionaryRef* sourceMetadataRef);
+
+    uint32_t jobId_;
+    std::shared_ptr<std::atomic<bool>> cancelled_;
+    bool isFilePath_;
+    std::string filePath_;
+    char* bufferData_;
+    size_t bufferLength_;
+    InternalConversionOptions options_;
+};
+
+CIImage* RawConversionWorker::Decode(CFDictionaryRef* sourceMetadataRef) {
+    *sourceMetadataRef = NULL;
+
+    // Cancelled while still queued
+    if (IsCancelled()) {
+        SetErrorMessage("Conversion was cancelled");
+        return nil;
+    }
+
+    std::string error;
+    NSData* imageData = LoadRawData(isFilePath_, filePath_, bufferData_, bufferLength_, error);
+    if (!imageData) {
+        SetErrorMessage(error.c_str());
+        return nil;
+    }
+
+    CIImage* image = DecodeRawImage(imageData, isFilePath_ ? filePath_ : std::string(), options_, cancelled_.get(), sourceMetadataRef, error);
+    if (!image) {
+        SetErrorMessage(error.c_str());
+    }
+    return image;
+}
+
+void RawConversionWorker::HandleErrorCallback() {
+    Nan::HandleScope scope;
+
+    Local<Value> argv[] = {
+        Nan::Error(ErrorMessage()),
+        Nan::Null()
+    };
+
+    callback->Call(2, argv, async_resource);
+}
+
+// AsyncWorker class for background RAW conversion
+class ConvertRawAsyncWorker : public RawConversionWorker {
+public:
+    ConvertRawAsyncWorker(Nan::Callback *callback,
+                         bool isFilePath,
+                         const std::string& filePath,
+                         char* bufferData,
+                         size_t bufferLength,
+                         const std::string& format,
+                         const InternalConversionOptions& options,
+                         uint32_t jobId,
+                         std::shared_ptr<std::atomic<bool>> cancelled)
+        : RawConversionWorker(callback, isFilePath, filePath, bufferData, bufferLength, options, jobId, cancelled),
+          format_(format),
+          outputData_(nullptr),
+          outputLength_(0) {}
+
+    ~ConvertRawAsyncWorker() {
+        delete[] outputData_;
+    }
+
+    // Background thread execution
+    void Execute() override;
+
+    // Main thread success callback
+    void HandleOKCallback() override;
+
+private:
+    std::string format_;
+
+    // Output data
+    char* outputData_;
+    size_t outputLength_;
+
+    // Metadata storage for background thread (plain C++ data)
+    MetadataStorage metadataStorage_;
+    PixelLayout layout_;
+};
+
+// Implementation of AsyncWorker methods
+void ConvertRawAsyncWorker::Execute() {
+    @autoreleasepool {
+        CFDictionaryRef sourceMetadataRef = NULL;
+        CIImage* image = Decode(&sourceMetadataRef);
+        if (!image) {
             return;
         }
-        
-        // Create output data
-        NSMutableData* outputData = [NSMutableData data];
-        CGImageDestinationRef destination = CGImageDestinationCreateWithData(
-            (__bridge CFMutableDataRef)outputData,
-            outputUTI,
-            1,
-            NULL
-        );
-        
-        if (!destination) {
-            CGImageRelease(cgImage);
-            CGColorSpaceRelease(colorSpace);
-            SetErrorMessage("Failed to create image destination");
+
+        // Create CIContext for rendering
+        CIContext* context = [CIContext context];
+
+        std::string error;
+        bool rendered = RenderImage(context, image, format_, options_, sourceMetadataRef, cancelled_.get(),
+                                    &outputData_, &outputLength_,
+                                    options_.extractMetadata ? &metadataStorage_ : nullptr, &layout_, error);
+
+        if (sourceMetadataRef) {
+            CFRelease(sourceMetadataRef);
+        }
+        if (!rendered) {
+            SetErrorMessage(error.c_str());
+        }
+    }
+}
+
+void ConvertRawAsyncWorker::HandleOKCallback() {
+    Nan::HandleScope scope;
+
+    // Always return an OutputImage object with buffer and optional metadata
+    Local<Value> argv[] = {
+        Nan::Null(),
+        CreateOutputImage(outputData_, outputLength_, metadataStorage_, layout_)
+    };
+
+    callback->Call(2, argv, async_resource);
+}
+
+// Encoded output of one rendition (plain C++ data for the background thread)
+struct RenditionOutput {
+    char* data = nullptr;
+    size_t length = 0;
+    MetadataStorage metadata;
+    PixelLayout layout;
+};
+
+// AsyncWorker class that decodes a RAW image once and encodes several renditions
+class ConvertRawMultiAsyncWorker : public RawConversionWorker {
+public:
+    ConvertRawMultiAsyncWorker(Nan::Callback *callback,
+                               bool isFilePath,
+                               const std::string& filePath,
+                               char* bufferData,
+                               size_t bufferLength,
+                               const std::vector<Rendition>& renditions,
+                               const InternalConversionOptions& options,
+                               uint32_t jobId,
+                               std::shared_ptr<std::atomic<bool>> cancelled)
+        : RawConversionWorker(callback, isFilePath, filePath, bufferData, bufferLength, options, jobId, cancelled),
+          renditions_(renditions),
+          outputs_(renditions.size()) {}
+
+    ~ConvertRawMultiAsyncWorker() {
+        for (RenditionOutput& output : outputs_) {
+            delete[] output.data;
+        }
+    }
+
+    // Background thread execution
+    void Execute() override;
+
+    // Main thread success callback
+    void HandleOKCallback() override;
+
+private:
+    std::vector<Rendition> renditions_;
+    std::vector<RenditionOutput> outputs_;
+};
+
+void ConvertRawMultiAsyncWorker::Execute() {
+    @autoreleasepool {
+        CFDictionaryRef sourceMetadataRef = NULL;
+        CIImage* image = Decode(&sourceMetadataRef);
+        if (!image) {
             return;
         }
-        
-        // Set format-specific properties
-        NSMutableDictionary* properties = [NSMutableDictionary dictionary];
-        
-        // Set compression quality for lossy formats
-        if (format == "jpeg" || format == "jpg" || format == "heif" || format == "heic" || format == "jpeg2000" || format == "jp2") {
-            double compressionQuality = (options_.quality >= 0.0) ? options_.quality : 0.9; // Default to 0.9 if not specified
-            properties[(__bridge NSString*)kCGImageDestinationLossyCompressionQuality] = @(compressionQuality);
-        }
-        
-        // Set thumbnail embedding for JPEG and HEIF formats
-        if ((format == "jpeg" || format == "jpg" || format == "heif" || format == "heic") && options_.embedThumbnail) {
-            properties[(__bridge NSString*)kCGImageDestinationEmbedThumbnail] = @YES;
-        }
-        
-        // Set optimize color for sharing for all formats
-        if (options_.optimizeColorForSharing) {
-            properties[(__bridge NSString*)kCGImageDestinationOptimizeColorForSharing] = @YES;
-        }
-        
-        // Merge source metadata if preservation is requested
-        if (options_.preserveExifData && sourceMetadata) {
-            NSMutableDictionary* mergedProperties = [NSMutableDictionary dictionaryWithDictionary:sourceMetadata];
-            
-            // Merge the format-specific properties
-            [mergedProperties addEntriesFromDictionary:properties];
-            
-            // Use the kCGImageDestinationMergeMetadata option to preserve metadata
-            mergedProperties[(__bridge NSString*)kCGImageDestinationMergeMetadata] = @YES;
-            
-            CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)mergedProperties);
-        } else {
-            CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)properties);
-        }
-        
-        if (!CGImageDestinationFinalize(destination)) {
-            CFRelease(destination);
-            CGImageRelease(cgImage);
-            CGColorSpaceRelease(colorSpace);
-            SetErrorMessage("Failed to finalize image destination");
-            return;
+
+        // One context for every rendition so intermediate results can be reused
+        CIContext* context = [CIContext context];
+
+        std::string error;
+        for (size_t i = 0; i < renditions_.size(); i++) {
+            const Rendition& rendition = renditions_[i];
+            RenditionOutput& output = outputs_[i];
+            if (!RenderImage(context, ScaleImage(image, rendition.scale), rendition.format, rendition.options,
+                             sourceMetadataRef, cancelled_.get(), &output.data, &output.length,
+                             rendition.options.extractMetadata ? &output.metadata : nullptr, &output.layout, error)) {
+                SetErrorMessage(error.c_str());
+                break;
+            }
         }
-        
-        // Store output data for callback
-        outputLength_ = [outputData length];
-        outputData_ = new char[outputLength_];
-        memcpy(outputData_, [outputData bytes], outputLength_);
-        
-        // Cleanup
-        CFRelease(destination);
-        CGImageRelease(cgImage);
-        CGColorSpaceRelease(colorSpace);
+
         if (sourceMetadataRef) {
             CFRelease(sourceMetadataRef);
         }
     }
 }
 
-void ConvertRawAsyncWorker::HandleOKCallback() {
+void ConvertRawMultiAsyncWorker::HandleOKCallback() {
     Nan::HandleScope scope;
-    
-    // Always return an OutputImage object with buffer and optional metadata
-    Local<Object> outputImage = Nan::New<Object>();
-    Nan::Set(outputImage, Nan::New("buffer").ToLocalChecked(), Nan::CopyBuffer(outputData_, outputLength_).ToLocalChecked());
-    
-    // Add metadata if it was extracted
-    if (metadataStorage_.hasMetadata) {
-        Local<Object> metadata = Nan::New<Object>();
-        
-        if (metadataStorage_.width > 0) {
-            Nan::Set(metadata, Nan::New("width").ToLocalChecked(), Nan::New<Number>(metadataStorage_.width));
-        }
-        if (metadataStorage_.height > 0) {
-            Nan::Set(metadata, Nan::New("height").ToLocalChecked(), Nan::New<Number>(metadataStorage_.height));
-        }
-        if (metadataStorage_.focalLength35mm >= 0) {
-            Nan::Set(metadata, Nan::New("focalLength35mm").ToLocalChecked(), Nan::New<Number>(metadataStorage_.focalLength35mm));
-        }
-        if (metadataStorage_.shutterSpeed >= 0) {
-            Nan::Set(metadata, Nan::New("shutterSpeed").ToLocalChecked(), Nan::New<Number>(metadataStorage_.shutterSpeed));
-        }
-        if (metadataStorage_.fNumber >= 0) {
-            Nan::Set(metadata, Nan::New("fNumber").ToLocalChecked(), Nan::New<Number>(metadataStorage_.fNumber));
-        }
-        if (!metadataStorage_.cameraMake.empty()) {
-            Nan::Set(metadata, Nan::New("cameraMake").ToLocalChecked(), Nan::New<String>(metadataStorage_.cameraMake).ToLocalChecked());
-        }
-        if (!metadataStorage_.cameraModel.empty()) {
-            Nan::Set(metadata, Nan::New("cameraModel").ToLocalChecked(), Nan::New<String>(metadataStorage_.cameraModel).ToLocalChecked());
-        }
-        if (metadataStorage_.iso >= 0) {
-            Nan::Set(metadata, Nan::New("iso").ToLocalChecked(), Nan::New<Number>(metadataStorage_.iso));
-        }
-        if (!metadataStorage_.dateTimeOriginal.empty()) {
-            Nan::Set(metadata, Nan::New("dateTimeOriginal").ToLocalChecked(), Nan::New<String>(metadataStorage_.dateTimeOriginal).ToLocalChecked());
-        }
-        if (!metadataStorage_.lensMake.empty()) {
-            Nan::Set(metadata, Nan::New("lensMake").ToLocalChecked(), Nan::New<String>(metadataStorage_.lensMake).ToLocalChecked());
-        }
-        if (!metadataStorage_.lensModel.empty()) {
-            Nan::Set(metadata, Nan::New("lensModel").ToLocalChecked(), Nan::New<String>(metadataStorage_.lensModel).ToLocalChecked());
-        }
-        if (metadataStorage_.focalLength >= 0) {
-            Nan::Set(metadata, Nan::New("focalLength").ToLocalChecked(), Nan::New<Number>(metadataStorage_.focalLength));
-        }
-        if (metadataStorage_.whiteBalance >= 0) {
-            Nan::Set(metadata, Nan::New("whiteBalance").ToLocalChecked(), Nan::New<Number>(metadataStorage_.whiteBalance));
-        }
-        if (metadataStorage_.exposureMode >= 0) {
-            Nan::Set(metadata, Nan::New("exposureMode").ToLocalChecked(), Nan::New<Number>(metadataStorage_.exposureMode));
-        }
-        if (metadataStorage_.exposureBias > -999) {
-            Nan::Set(metadata, Nan::New("exposureBias").ToLocalChecked(), Nan::New<Number>(metadataStorage_.exposureBias));
-        }
-        if (!metadataStorage_.software.empty()) {
-            Nan::Set(metadata, Nan::New("software").ToLocalChecked(), Nan::New<String>(metadataStorage_.software).ToLocalChecked());
-        }
-        if (metadataStorage_.orientation >= 0) {
-            Nan::Set(metadata, Nan::New("orientation").ToLocalChecked(), Nan::New<Number>(metadataStorage_.orientation));
-        }
-        if (metadataStorage_.latitude > -999) {
-            Nan::Set(metadata, Nan::New("latitude").ToLocalChecked(), Nan::New<Number>(metadataStorage_.latitude));
-        }
-        if (metadataStorage_.longitude > -999) {
-            Nan::Set(metadata, Nan::New("longitude").ToLocalChecked(), Nan::New<Number>(metadataStorage_.longitude));
-        }
-        if (metadataStorage_.altitude > -999) {
-            Nan::Set(metadata, Nan::New("altitude").ToLocalChecked(), Nan::New<Number>(metadataStorage_.altitude));
-        }
 
-        Nan::Set(outputImage, Nan::New("metadata").ToLocalChecked(), metadata);
+    // One OutputImage per rendition, in request order
+    Local<Array> results = Nan::New<Array>(outputs_.size());
+    for (uint32_t i = 0; i < outputs_.size(); i++) {
+        Nan::Set(results, i, CreateOutputImage(outputs_[i].data, outputs_[i].length, outputs_[i].metadata, outputs_[i].layout));
     }
-    
+
     Local<Value> argv[] = {
         Nan::Null(),
-        outputImage
+        results
     };
-    
-    callback->Call(2, argv, async_resource);
-}
 
-void ConvertRawAsyncWorker::HandleErrorCallback() {
-    Nan::HandleScope scope;
-    
-    Local<Value> argv[] = {
-        Nan::Error(ErrorMessage()),
-        Nan::Null()
-    };
-    
     callback->Call(2, argv, async_resource);
 }
 
@@ -879,447 +2167,143 @@ NAN_METHOD(ConvertRaw) {
         Nan::ThrowTypeError("First argument must be a Buffer or file path string");
         return;
     }
-    
+
     if (info.Length() < 2 || !info[1]->IsString()) {
         Nan::ThrowTypeError("Second argument must be a string specifying the output format");
         return;
     }
-    
+
     // Get the output format
     Nan::Utf8String outputFormat(info[1]);
     std::string format = std::string(*outputFormat);
-    
+
     // Parse options if provided
-    // Default values
-    bool enableLensCorrection = true;
-    double exposureValue = 0.0;
-    double boostValue = 1.0;
-    double boostShadowAmount = 0.0;
-    double baselineExposure = 0.0;
-    double neutralTemperature = -1.0; // -1 means use default
-    double neutralTint = -1.0; // -1 means use default
-    bool disableGamutMap = false;
-    bool allowDraftMode = false;
-    bool ignoreImageOrientation = false;
-    
-    // New options
-    double colorNoiseReductionAmount = -1.0; // -1 means use default
-    double luminanceNoiseReductionAmount = -1.0; // -1 means use default
-    double contrastAmount = -1.0; // -1 means use default
-    double sharpnessAmount = -1.0; // -1 means use default
-    double noiseReductionAmount = -1.0; // -1 means use default
-    double localToneMapAmount = -1.0; // -1 means use default
-    double scaleFactor = 1.0; // Default to 1.0 (no scaling)
-    
-    // Quality options
-    double quality = -1.0; // -1 means use default (0.9 for lossy formats)
-    bool embedThumbnail = false;
-    bool optimizeColorForSharing = false;
-    bool preserveExifData = true; // Default to true to preserve metadata
-    bool extractMetadata = false;
-    std::string inputFormat;
-    
+    InternalConversionOptions options;
     if (info.Length() >= 3 && info[2]->IsObject()) {
-        Local<Object> options = info[2].As<Object>();
-        
-        // Helper lambda to extract boolean option
-        auto getBoolOption = [&](const char* key, bool& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(options, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(options, keyStr).ToLocalChecked();
-                if (value->IsBoolean()) {
-                    target = Nan::To<bool>(value).FromJust();
-                }
-            }
-        };
-        
-        // Helper lambda to extract number option
-        auto getNumberOption = [&](const char* key, double& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(options, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(options, keyStr).ToLocalChecked();
-                if (value->IsNumber()) {
-                    target = Nan::To<double>(value).FromJust();
-                }
-            }
-        };
-        
-        // Helper lambda to extract string option
-        auto getStringOption = [&](const char* key, std::string& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(options, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(options, keyStr).ToLocalChecked();
-                if (value->IsString()) {
-                    Nan::Utf8String str(value);
-                    target = std::string(*str);
-                }
-            }
-        };
-        
-        // Extract all options
-        getBoolOption("lensCorrection", enableLensCorrection);
-        getNumberOption("exposure", exposureValue);
-        getNumberOption("boost", boostValue);
-        getNumberOption("boostShadowAmount", boostShadowAmount);
-        getNumberOption("baselineExposure", baselineExposure);
-        getNumberOption("neutralTemperature", neutralTemperature);
-        getNumberOption("neutralTint", neutralTint);
-        getBoolOption("disableGamutMap", disableGamutMap);
-        getBoolOption("allowDraftMode", allowDraftMode);
-        getBoolOption("ignoreImageOrientation", ignoreImageOrientation);
-        
-        // Extract new options
-        getNumberOption("colorNoiseReductionAmount", colorNoiseReductionAmount);
-        getNumberOption("luminanceNoiseReductionAmount", luminanceNoiseReductionAmount);
-        getNumberOption("contrastAmount", contrastAmount);
-        getNumberOption("sharpnessAmount", sharpnessAmount);
-        getNumberOption("noiseReductionAmount", noiseReductionAmount);
-        getNumberOption("localToneMapAmount", localToneMapAmount);
-        getNumberOption("scaleFactor", scaleFactor);
-        
-        // Extract quality options
-        getNumberOption("quality", quality);
-        getBoolOption("embedThumbnail", embedThumbnail);
-        getBoolOption("optimizeColorForSharing", optimizeColorForSharing);
-        getBoolOption("preserveExifData", preserveExifData);
-        getBoolOption("extractMetadata", extractMetadata);
-        getStringOption("inputFormat", inputFormat);
+        ParseConversionOptions(info[2].As<Object>(), options);
     }
-    
-    // Determine input type and get NSData
-    NSData* imageData = nil;
-    
+
+    // Determine input type
+    bool isFilePath = false;
+    std::string filePath;
+    char* bufferData = nullptr;
+    size_t bufferLength = 0;
+    if (!ReadInputArgument(info[0], &isFilePath, &filePath, &bufferData, &bufferLength)) {
+        return;
+    }
+
     @autoreleasepool {
-        if (info[0]->IsString()) {
-            // File path input
-            Nan::Utf8String pathStr(info[0]);
-            std::string filePath = std::string(*pathStr);
-            
-            if (filePath.empty()) {
-                Nan::ThrowError("File path cannot be empty");
-                return;
-            }
-            
-            NSString* nsFilePath = [NSString stringWithUTF8String:filePath.c_str()];
-            imageData = [NSData dataWithContentsOfFile:nsFilePath];
-            
-            if (!imageData) {
-                Nan::ThrowError("Failed to read file from path");
-                return;
-            }
-        } else if (node::Buffer::HasInstance(info[0])) {
-            // Buffer input
-            Local<Object> bufferObj = info[0].As<Object>();
-            char* rawData = node::Buffer::Data(bufferObj);
-            size_t rawDataLength = node::Buffer::Length(bufferObj);
-            
-            if (rawDataLength == 0) {
-                Nan::ThrowError("Input buffer is empty");
-                return;
-            }
-            
-            imageData = [NSData dataWithBytes:rawData length:rawDataLength];
-        } else {
-            Nan::ThrowTypeError("First argument must be a Buffer or file path string");
-            return;
-        }
-        
-        // Write data to a temporary file because CIRAWFilter works better with file URLs
-        NSString* tempPath = [NSTemporaryDirectory() stringByAppendingPathComponent:[[NSUUID UUID] UUIDString]];
-        // Use inputFormat if specified, otherwise use original file extension
-        NSString* fileExtension = nil;
-        if (!inputFormat.empty()) {
-            // inputFormat takes precedence
-            fileExtension = [NSString stringWithUTF8String:inputFormat.c_str()];
-        } else if (info[0]->IsString()) {
-            // Fall back to original file extension
-            Nan::Utf8String pathStr(info[0]);
-            NSString* originalPath = [NSString stringWithUTF8String:*pathStr];
-            NSString* originalExt = [originalPath pathExtension];
-            if ([originalExt length] > 0) {
-                fileExtension = originalExt;
-            }
-        }
-        
-        // Only append extension if we have one
-        if (fileExtension && [fileExtension length] > 0) {
-            tempPath = [tempPath stringByAppendingPathExtension:fileExtension];
-        }
-        
-        NSError* writeError = nil;
-        BOOL written = [imageData writeToFile:tempPath options:NSDataWritingAtomic error:&writeError];
-        
-        if (!written) {
-            NSString* errorMsg = [NSString stringWithFormat:@"Failed to write temp file: %@", writeError.localizedDescription];
-            Nan::ThrowError([errorMsg UTF8String]);
+        std::string error;
+        NSData* imageData = LoadRawData(isFilePath, filePath, bufferData, bufferLength, error);
+        if (!imageData) {
+            Nan::ThrowError(error.c_str());
             return;
         }
-        
-        // Create URL for the temp file
-        NSURL* fileURL = [NSURL fileURLWithPath:tempPath];
-        
-        // Read metadata from source if preservation is requested
-        NSDictionary* sourceMetadata = nil;
+
         CFDictionaryRef sourceMetadataRef = NULL;
-        if (preserveExifData) {
-            CGImageSourceRef imageSource = CGImageSourceCreateWithURL((__bridge CFURLRef)fileURL, NULL);
-            if (imageSource) {
-                sourceMetadataRef = CGImageSourceCopyPropertiesAtIndex(imageSource, 0, NULL);
-                sourceMetadata = (__bridge NSDictionary*)sourceMetadataRef;
-                CFRelease(imageSource);
-            }
-        }
-        
-        // Create RAW filter options
-        NSMutableDictionary* rawOptions = [NSMutableDictionary dictionary];
-        
-        // Basic options
-        rawOptions[kCIInputEnableVendorLensCorrectionKey] = enableLensCorrection ? @YES : @NO;
-        rawOptions[kCIInputBoostKey] = @(boostValue);
-        
-        // Exposure options
-        rawOptions[kCIInputEVKey] = @(exposureValue);
-        if (baselineExposure != 0.0) {
-            rawOptions[kCIInputBaselineExposureKey] = @(baselineExposure);
-        }
-        if (boostShadowAmount != 0.0) {
-            rawOptions[kCIInputBoostShadowAmountKey] = @(boostShadowAmount);
-        }
-        
-        // Color options
-        if (neutralTemperature >= 0) {
-            rawOptions[kCIInputNeutralTemperatureKey] = @(neutralTemperature);
-        }
-        if (neutralTint >= 0) {
-            rawOptions[kCIInputNeutralTintKey] = @(neutralTint);
-        }
-        
-        // Other options
-        if (disableGamutMap) {
-            rawOptions[kCIInputDisableGamutMapKey] = @YES;
-        }
-        if (allowDraftMode) {
-            rawOptions[kCIInputAllowDraftModeKey] = @YES;
-        }
-        if (ignoreImageOrientation) {
-            rawOptions[kCIInputIgnoreImageOrientationKey] = @YES;
-        }
-        
-        // Noise reduction options
-        if (colorNoiseReductionAmount >= 0) {
-            rawOptions[kCIInputColorNoiseReductionAmountKey] = @(colorNoiseReductionAmount);
-        }
-        if (luminanceNoiseReductionAmount >= 0) {
-            rawOptions[kCIInputLuminanceNoiseReductionAmountKey] = @(luminanceNoiseReductionAmount);
-        }
-        
-        // Enhancement options
-        if (contrastAmount >= 0) {
-            rawOptions[kCIInputContrastKey] = @(contrastAmount);
-        }
-        if (sharpnessAmount >= 0) {
-            rawOptions[kCIInputSharpnessKey] = @(sharpnessAmount);
-        }
-        
-        // Additional processing options
-        if (noiseReductionAmount >= 0) {
-            rawOptions[kCIInputNoiseReductionAmountKey] = @(noiseReductionAmount);
-        }
-        
-        if (@available(macOS 11.1, *)) {
-            if (localToneMapAmount >= 0) {
-                rawOptions[kCIInputLocalToneMapAmountKey] = @(localToneMapAmount);
-            }
-        }
-        
-        if (scaleFactor != 1.0) {
-            rawOptions[kCIInputScaleFactorKey] = @(scaleFactor);
-        }
-        
-        if (@available(macOS 10.14, *)) {
-            rawOptions[kCIInputEnableEDRModeKey] = @NO;
-        }
-        
-        // Create CIFilter from file URL
-        CIFilter* rawFilter = [CIFilter filterWithImageURL:fileURL options:rawOptions];
-        
-        // Clean up temp file
-        [[NSFileManager defaultManager] removeItemAtPath:tempPath error:nil];
-        
-        if (!rawFilter) {
-            Nan::ThrowError("Failed to create CIRAWFilter from image data");
-            return;
-        }
-        
-        // Get the output image
-        CIImage* outputImage = rawFilter.outputImage;
-        
-        if (!outputImage) {
-            Nan::ThrowError("Failed to get output image from RAW filter");
+        CIImage* image = DecodeRawImage(imageData, filePath, options, nullptr, &sourceMetadataRef, error);
+        if (!image) {
+            Nan::ThrowError(error.c_str());
             return;
         }
-        
+
         // Create CIContext for rendering
         CIContext* context = [CIContext context];
-        
-        // Get the image extent
-        CGRect extent = [outputImage extent];
-        
-        if (CGRectIsEmpty(extent)) {
-            Nan::ThrowError("Output image has empty extent");
+
+        char* outputData = nullptr;
+        size_t outputLength = 0;
+        MetadataStorage metadata;
+        PixelLayout layout;
+        bool rendered = RenderImage(context, image, format, options, sourceMetadataRef, nullptr,
+                                    &outputData, &outputLength,
+                                    options.extractMetadata ? &metadata : nullptr, &layout, error);
+
+        if (sourceMetadataRef) {
+            CFRelease(sourceMetadataRef);
+        }
+        if (!rendered) {
+            Nan::ThrowError(error.c_str());
+            return;
+        }
+
+        // Return the OutputImage object with buffer and optional metadata
+        info.GetReturnValue().Set(CreateOutputImage(outputData, outputLength, metadata, layout));
+        delete[] outputData;
+    }
+}
+
+NAN_METHOD(ConvertRawMulti) {
+    if (info.Length() < 2) {
+        Nan::ThrowTypeError("ConvertRawMulti requires 2 arguments: input, renditions");
+        return;
+    }
+
+    // Parse shared options if provided, then each rendition's options on top
+    InternalConversionOptions options;
+    if (info.Length() >= 3 && info[2]->IsObject()) {
+        ParseConversionOptions(info[2].As<Object>(), options);
+    }
+
+    std::vector<Rendition> renditions;
+    if (!ParseRenditions(info[1], options, renditions)) {
+        return;
+    }
+
+    // Determine input type
+    bool isFilePath = false;
+    std::string filePath;
+    char* bufferData = nullptr;
+    size_t bufferLength = 0;
+    if (!ReadInputArgument(info[0], &isFilePath, &filePath, &bufferData, &bufferLength)) {
+        return;
+    }
+
+    @autoreleasepool {
+        std::string error;
+        NSData* imageData = LoadRawData(isFilePath, filePath, bufferData, bufferLength, error);
+        if (!imageData) {
+            Nan::ThrowError(error.c_str());
             return;
         }
-        
-        // Create a color space
-        CGColorSpaceRef colorSpace = CGColorSpaceCreateDeviceRGB();
-        
-        // Render CIImage to CGImage
-        CGImageRef cgImage = [context createCGImage:outputImage fromRect:extent];
-        
-        if (!cgImage) {
-            CGColorSpaceRelease(colorSpace);
-            Nan::ThrowError("Failed to create CGImage from CIImage");
+
+        // Decode once with the shared options
+        CFDictionaryRef sourceMetadataRef = NULL;
+        CIImage* image = DecodeRawImage(imageData, filePath, options, nullptr, &sourceMetadataRef, error);
+        if (!image) {
+            Nan::ThrowError(error.c_str());
             return;
         }
-        
-        // Extract metadata if requested (for all formats)
-        Local<Object> metadata;
-        if (extractMetadata) {
-            metadata = ExtractImageMetadata(sourceMetadataRef, cgImage);
-        }
-        
-        // Handle RGB format separately (raw bitmap data)
-        if (format == "rgb") {
-            char* rgbData = nullptr;
-            size_t rgbLength = 0;
-            
-            if (ExtractRgbData(cgImage, colorSpace, &rgbData, &rgbLength)) {
-                // Create OutputImage object
-                Local<Object> rgbResult = Nan::New<Object>();
-                Nan::Set(rgbResult, Nan::New("buffer").ToLocalChecked(), Nan::CopyBuffer(rgbData, rgbLength).ToLocalChecked());
-                
-                // Add metadata if extracted
-                if (extractMetadata) {
-                    Nan::Set(rgbResult, Nan::New("metadata").ToLocalChecked(), metadata);
-                }
-                
-                delete[] rgbData;
-                CGColorSpaceRelease(colorSpace);
-                CGImageRelease(cgImage);
-                if (sourceMetadataRef) {
-                    CFRelease(sourceMetadataRef);
-                }
-                
-                info.GetReturnValue().Set(rgbResult);
-                return;
-            } else {
-                CGColorSpaceRelease(colorSpace);
-                CGImageRelease(cgImage);
+
+        CIContext* context = [CIContext context];
+        Local<Array> results = Nan::New<Array>(renditions.size());
+
+        for (uint32_t i = 0; i < renditions.size(); i++) {
+            const Rendition& rendition = renditions[i];
+            char* outputData = nullptr;
+            size_t outputLength = 0;
+            MetadataStorage metadata;
+            PixelLayout layout;
+
+            if (!RenderImage(context, ScaleImage(image, rendition.scale), rendition.format, rendition.options,
+                             sourceMetadataRef, nullptr, &outputData, &outputLength,
+                             rendition.options.extractMetadata ? &metadata : nullptr, &layout, error)) {
                 if (sourceMetadataRef) {
                     CFRelease(sourceMetadataRef);
                 }
-                Nan::ThrowError("Failed to extract RGB data from image");
+                Nan::ThrowError(error.c_str());
                 return;
             }
+
+            Nan::Set(results, i, CreateOutputImage(outputData, outputLength, metadata, layout));
+            delete[] outputData;
         }
-        
-        // Determine the UTI for the output format
-        CFStringRef outputUTI;
-        if (format == "jpeg" || format == "jpg") {
-            outputUTI = CFSTR("public.jpeg");
-        } else if (format == "png") {
-            outputUTI = CFSTR("public.png");
-        } else if (format == "tiff" || format == "tif") {
-            outputUTI = CFSTR("public.tiff");
-        } else if (format == "jpeg2000" || format == "jp2") {
-            outputUTI = CFSTR("public.jpeg-2000");
-        } else if (format == "heif" || format == "heic") {
-            outputUTI = CFSTR("public.heic");
-        } else {
-            CGColorSpaceRelease(colorSpace);
-            std::string errorMsg = "Unsupported output format: " + format + ". Supported formats: jpeg, jpg, png, tiff, tif, jpeg2000, jp2, heif, heic, rgb";
-            Nan::ThrowError(errorMsg.c_str());
-            return;
-        }
-        
-        // Create output data
-        NSMutableData* outputData = [NSMutableData data];
-        CGImageDestinationRef destination = CGImageDestinationCreateWithData(
-            (__bridge CFMutableDataRef)outputData,
-            outputUTI,
-            1,
-            NULL
-        );
-        
-        if (!destination) {
-            CGImageRelease(cgImage);
-            CGColorSpaceRelease(colorSpace);
-            Nan::ThrowError("Failed to create image destination");
-            return;
-        }
-        
-        // Set format-specific properties
-        NSMutableDictionary* properties = [NSMutableDictionary dictionary];
-        
-        // Set compression quality for lossy formats
-        if (format == "jpeg" || format == "jpg" || format == "heif" || format == "heic" || format == "jpeg2000" || format == "jp2") {
-            double compressionQuality = (quality >= 0.0) ? quality : 0.9; // Default to 0.9 if not specified
-            properties[(__bridge NSString*)kCGImageDestinationLossyCompressionQuality] = @(compressionQuality);
-        }
-        
-        // Set thumbnail embedding for JPEG and HEIF formats
-        if ((format == "jpeg" || format == "jpg" || format == "heif" || format == "heic") && embedThumbnail) {
-            properties[(__bridge NSString*)kCGImageDestinationEmbedThumbnail] = @YES;
-        }
-        
-        // Set optimize color for sharing for all formats
-        if (optimizeColorForSharing) {
-            properties[(__bridge NSString*)kCGImageDestinationOptimizeColorForSharing] = @YES;
-        }
-        
-        // Merge source metadata if preservation is requested
-        if (preserveExifData && sourceMetadata) {
-            NSMutableDictionary* mergedProperties = [NSMutableDictionary dictionaryWithDictionary:sourceMetadata];
-            
-            // Merge the format-specific properties
-            [mergedProperties addEntriesFromDictionary:properties];
-            
-            // Use the kCGImageDestinationMergeMetadata option to preserve metadata
-            mergedProperties[(__bridge NSString*)kCGImageDestinationMergeMetadata] = @YES;
-            
-            CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)mergedProperties);
-        } else {
-            CGImageDestinationAddImage(destination, cgImage, (__bridge CFDictionaryRef)properties);
-        }
-        
-        if (!CGImageDestinationFinalize(destination)) {
-            CFRelease(destination);
-            CGImageRelease(cgImage);
-            CGColorSpaceRelease(colorSpace);
-            Nan::ThrowError("Failed to finalize image destination");
-            return;
-        }
-        
-        // Create OutputImage object with buffer and optional metadata
-        Local<Object> result = Nan::New<Object>();
-        Nan::Set(result, Nan::New("buffer").ToLocalChecked(),
-                Nan::CopyBuffer((const char*)[outputData bytes], [outputData length]).ToLocalChecked());
-        
-        // Add metadata if extracted
-        if (extractMetadata) {
-            Nan::Set(result, Nan::New("metadata").ToLocalChecked(), metadata);
-        }
-        
-        // Cleanup
-        CFRelease(destination);
-        CGImageRelease(cgImage);
-        CGColorSpaceRelease(colorSpace);
+
         if (sourceMetadataRef) {
             CFRelease(sourceMetadataRef);
         }
-        
-        // Return the OutputImage object
-        info.GetReturnValue().Set(result);
+
+        // Return one OutputImage per rendition, in request order
+        info.GetReturnValue().Set(results);
     }
 }
 
@@ -1328,136 +2312,115 @@ NAN_METHOD(ConvertRawAsync) {
         Nan::ThrowTypeError("ConvertRawAsync requires 4 arguments: input, format, options, callback");
         return;
     }
-    
+
     // Check callback is function
     if (!info[3]->IsFunction()) {
         Nan::ThrowTypeError("Fourth argument must be a callback function");
         return;
     }
-    
-    Nan::Callback *callback = new Nan::Callback(info[3].As<Function>());
-    
+
     // Determine input type (Buffer or string)
     bool isFilePath = false;
     std::string filePath;
     char* bufferData = nullptr;
     size_t bufferLength = 0;
-    
-    if (info[0]->IsString()) {
-        // File path input
-        isFilePath = true;
-        Nan::Utf8String pathStr(info[0]);
-        filePath = std::string(*pathStr);
-        
-        if (filePath.empty()) {
-            delete callback;
-            Nan::ThrowError("File path cannot be empty");
-            return;
-        }
-    } else if (node::Buffer::HasInstance(info[0])) {
-        // Buffer input
-        isFilePath = false;
-        Local<Object> bufferObj = info[0].As<Object>();
-        bufferData = node::Buffer::Data(bufferObj);
-        bufferLength = node::Buffer::Length(bufferObj);
-        
-        if (bufferLength == 0) {
-            delete callback;
-            Nan::ThrowError("Input buffer is empty");
-            return;
-        }
-    } else {
-        delete callback;
-        Nan::ThrowTypeError("First argument must be a Buffer or file path string");
+    if (!ReadInputArgument(info[0], &isFilePath, &filePath, &bufferData, &bufferLength)) {
         return;
     }
-    
+
     // Get format
     if (!info[1]->IsString()) {
-        delete callback;
         Nan::ThrowTypeError("Second argument must be a string specifying the output format");
         return;
     }
-    
+
     Nan::Utf8String outputFormat(info[1]);
     std::string format = std::string(*outputFormat);
-    
+
     // Parse options (same as sync version)
     InternalConversionOptions options;
-    
     if (info[2]->IsObject()) {
-        Local<Object> optionsObj = info[2].As<Object>();
-        
-        // Helper lambda to extract boolean option
-        auto getBoolOption = [&](const char* key, bool& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(optionsObj, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(optionsObj, keyStr).ToLocalChecked();
-                if (value->IsBoolean()) {
-                    target = Nan::To<bool>(value).FromJust();
-                }
-            }
-        };
-        
-        // Helper lambda to extract number option
-        auto getNumberOption = [&](const char* key, double& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(optionsObj, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(optionsObj, keyStr).ToLocalChecked();
-                if (value->IsNumber()) {
-                    target = Nan::To<double>(value).FromJust();
-                }
-            }
-        };
-        
-        // Helper lambda to extract string option
-        auto getStringOption = [&](const char* key, std::string& target) {
-            Local<String> keyStr = Nan::New(key).ToLocalChecked();
-            if (Nan::Has(optionsObj, keyStr).FromJust()) {
-                Local<Value> value = Nan::Get(optionsObj, keyStr).ToLocalChecked();
-                if (value->IsString()) {
-                    Nan::Utf8String str(value);
-                    target = std::string(*str);
-                }
-            }
-        };
-        
-        // Extract all options
-        getBoolOption("lensCorrection", options.lensCorrection);
-        getNumberOption("exposure", options.exposure);
-        getNumberOption("boost", options.boost);
-        getNumberOption("boostShadowAmount", options.boostShadowAmount);
-        getNumberOption("baselineExposure", options.baselineExposure);
-        getNumberOption("neutralTemperature", options.neutralTemperature);
-        getNumberOption("neutralTint", options.neutralTint);
-        getBoolOption("disableGamutMap", options.disableGamutMap);
-        getBoolOption("allowDraftMode", options.allowDraftMode);
-        getBoolOption("ignoreImageOrientation", options.ignoreImageOrientation);
-        
-        // Extract new options
-        getNumberOption("colorNoiseReductionAmount", options.colorNoiseReductionAmount);
-        getNumberOption("luminanceNoiseReductionAmount", options.luminanceNoiseReductionAmount);
-        getNumberOption("contrastAmount", options.contrastAmount);
-        getNumberOption("sharpnessAmount", options.sharpnessAmount);
-        getNumberOption("noiseReductionAmount", options.noiseReductionAmount);
-        getNumberOption("localToneMapAmount", options.localToneMapAmount);
-        getNumberOption("scaleFactor", options.scaleFactor);
-        
-        // Extract quality options
-        getNumberOption("quality", options.quality);
-        getBoolOption("embedThumbnail", options.embedThumbnail);
-        getBoolOption("optimizeColorForSharing", options.optimizeColorForSharing);
-        getBoolOption("preserveExifData", options.preserveExifData);
-        getBoolOption("extractMetadata", options.extractMetadata);
-        getStringOption("inputFormat", options.inputFormat);
+        ParseConversionOptions(info[2].As<Object>(), options);
     }
-    
+
+    // Register a cancellation flag for the job
+    uint32_t jobId = nextJobId++;
+    auto cancelled = std::make_shared<std::atomic<bool>>(false);
+    cancellationFlags[jobId] = cancelled;
+
     // Create and queue the async worker
+    Nan::Callback *callback = new Nan::Callback(info[3].As<Function>());
     ConvertRawAsyncWorker* worker = new ConvertRawAsyncWorker(
-        callback, isFilePath, filePath, bufferData, bufferLength, format, options
+        callback, isFilePath, filePath, bufferData, bufferLength, format, options, jobId, cancelled
     );
-    
+
+    Nan::AsyncQueueWorker(worker);
+
+    // Return the job id for cancelConversion
+    info.GetReturnValue().Set(Nan::New<Number>(jobId));
+}
+
+NAN_METHOD(ConvertRawMultiAsync) {
+    if (info.Length() < 4) {
+        Nan::ThrowTypeError("ConvertRawMultiAsync requires 4 arguments: input, renditions, options, callback");
+        return;
+    }
+
+    // Check callback is function
+    if (!info[3]->IsFunction()) {
+        Nan::ThrowTypeError("Fourth argument must be a callback function");
+        return;
+    }
+
+    // Determine input type (Buffer or string)
+    bool isFilePath = false;
+    std::string filePath;
+    char* bufferData = nullptr;
+    size_t bufferLength = 0;
+    if (!ReadInputArgument(info[0], &isFilePath, &filePath, &bufferData, &bufferLength)) {
+        return;
+    }
+
+    // Parse shared options, then each rendition's options on top
+    InternalConversionOptions options;
+    if (info[2]->IsObject()) {
+        ParseConversionOptions(info[2].As<Object>(), options);
+    }
+
+    std::vector<Rendition> renditions;
+    if (!ParseRenditions(info[1], options, renditions)) {
+        return;
+    }
+
+    // Register a cancellation flag for the job
+    uint32_t jobId = nextJobId++;
+    auto cancelled = std::make_shared<std::atomic<bool>>(false);
+    cancellationFlags[jobId] = cancelled;
+
+    // Create and queue the async worker
+    Nan::Callback *callback = new Nan::Callback(info[3].As<Function>());
+    ConvertRawMultiAsyncWorker* worker = new ConvertRawMultiAsyncWorker(
+        callback, isFilePath, filePath, bufferData, bufferLength, renditions, options, jobId, cancelled
+    );
+
     Nan::AsyncQueueWorker(worker);
+
+    // Return the job id for cancelConversion
+    info.GetReturnValue().Set(Nan::New<Number>(jobId));
+}
+
+NAN_METHOD(CancelConversion) {
+    if (info.Length() < 1 || !info[0]->IsNumber()) {
+        Nan::ThrowTypeError("First argument must be a conversion id");
+        return;
+    }
+
+    uint32_t jobId = Nan::To<uint32_t>(info[0]).FromJust();
+    auto it = cancellationFlags.find(jobId);
+    // Unknown ids belong to conversions that have already completed
+    if (it != cancellationFlags.end()) {
+        it->second->store(true);
+    }
 }
 
 NAN_MODULE_INIT(Init) {
@@ -1465,6 +2428,12 @@ NAN_MODULE_INIT(Init) {
         Nan::GetFunction(Nan::New<FunctionTemplate>(ConvertRaw)).ToLocalChecked());
     Nan::Set(target, Nan::New("convertRawAsync").ToLocalChecked(),
         Nan::GetFunction(Nan::New<FunctionTemplate>(ConvertRawAsync)).ToLocalChecked());
+    Nan::Set(target, Nan::New("convertRawMulti").ToLocalChecked(),
+        Nan::GetFunction(Nan::New<FunctionTemplate>(ConvertRawMulti)).ToLocalChecked());
+    Nan::Set(target, Nan::New("convertRawMultiAsync").ToLocalChecked(),
+        Nan::GetFunction(Nan::New<FunctionTemplate>(ConvertRawMultiAsync)).ToLocalChecked());
+    Nan::Set(target, Nan::New("cancelConversion").ToLocalChecked(),
+        Nan::GetFunction(Nan::New<FunctionTemplate>(CancelConversion)).ToLocalChecked());
 }
 
-NODE_MODULE(raw_converter, Init)
\ No newline at end of file
+NODE_MODULE(raw_converter, Init)
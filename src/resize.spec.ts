@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+} from './index.js';
+import { resolveResize } from './resize.js';
+
+describe('resolveResize', () => {
+  it('should keep the aspect ratio when one dimension is set', () => {
+    expect(resolveResize(6000, 4000, { width: 1500 })).toMatchObject({
+      scaleX: 0.25,
+      scaleY: 0.25,
+      width: 1500,
+      height: 1000,
+    });
+    expect(
+      resolveResize(6000, 4000, { height: 500, fit: 'fill' })
+    ).toMatchObject({ width: 750, height: 500 });
+  });
+
+  it('should fit inside the box by default', () => {
+    expect(resolveResize(6000, 4000, { width: 1000, height: 1000 })).toEqual({
+      scaleX: 1 / 6,
+      scaleY: 1 / 6,
+      scaledWidth: 1000,
+      scaledHeight: 667,
+      width: 1000,
+      height: 667,
+    });
+  });
+
+  it('should cover the box and crop the overflow', () => {
+    expect(
+      resolveResize(6000, 4000, { width: 1000, height: 1000, fit: 'cover' })
+    ).toMatchObject({
+      scaledWidth: 1500,
+      scaledHeight: 1000,
+      width: 1000,
+      height: 1000,
+    });
+  });
+
+  it('should contain the image and pad it to the box', () => {
+    expect(
+      resolveResize(6000, 4000, { width: 1000, height: 1000, fit: 'contain' })
+    ).toMatchObject({
+      scaledWidth: 1000,
+      scaledHeight: 667,
+      width: 1000,
+      height: 1000,
+    });
+  });
+
+  it('should scale each axis independently to fill the box', () => {
+    expect(
+      resolveResize(6000, 4000, { width: 1000, height: 1000, fit: 'fill' })
+    ).toMatchObject({
+      scaleX: 1 / 6,
+      scaleY: 0.25,
+      width: 1000,
+      height: 1000,
+    });
+  });
+
+  it('should not enlarge when withoutEnlargement is set', () => {
+    expect(
+      resolveResize(600, 400, { width: 1200, withoutEnlargement: true })
+    ).toMatchObject({ scaleX: 1, width: 600, height: 400 });
+    expect(
+      resolveResize(600, 400, {
+        width: 1000,
+        height: 1000,
+        fit: 'cover',
+        withoutEnlargement: true,
+      })
+    ).toMatchObject({ width: 600, height: 400 });
+    expect(resolveResize(600, 400, { width: 1200 })).toMatchObject({
+      width: 1200,
+      height: 800,
+    });
+  });
+});
+
+describe('resize option', () => {
+  it('should report the resized dimensions in the output metadata', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 600, height: 400 }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+      inputFormat: 'arw',
+      extractMetadata: true,
+      resize: { width: 100, height: 100, fit: 'cover' },
+    });
+
+    expect(result.metadata).toMatchObject({ width: 100, height: 100 });
+    expect(result.buffer.length).toBe(100 * 100 * 3);
+  });
+
+  it('should resize relative to the image decoded at scaleFactor', () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 600, height: 400 }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      extractMetadata: true,
+      scaleFactor: 0.5,
+      resize: { width: 1000, withoutEnlargement: true },
+    });
+
+    expect(result.metadata).toMatchObject({ width: 300, height: 200 });
+  });
+
+  it('should validate resize options', () => {
+    const issues = validateOptions(OutputFormat.JPEG, {
+      resize: { width: 0, height: 10.5, fit: 'stretch', depth: 1 },
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'resize.width must be greater than 0, got 0',
+      'resize.height must be an integer, got 10.5',
+      'resize.fit must be one of: inside, cover, contain, fill',
+      'resize.depth is not a resize option',
+    ]);
+    expect(
+      validateOptions(OutputFormat.JPEG, { resize: { fit: 'cover' } })
+    ).toEqual([
+      {
+        code: 'WRONG_TYPE',
+        key: 'resize',
+        message: 'resize must set width or height',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import type { ResizeOptions } from './types.js';
+
+/**
+ * How an image is resized to satisfy ResizeOptions
+ */
+export interface ResizePlan {
+  /** Horizontal scale applied to the decoded image */
+  scaleX: number;
+  /** Vertical scale applied to the decoded image */
+  scaleY: number;
+  /** Width of the scaled image in pixels */
+  scaledWidth: number;
+  /** Height of the scaled image in pixels */
+  scaledHeight: number;
+  /** Width of the output: the scaled image cropped (cover) or padded (contain) */
+  width: number;
+  /** Height of the output: the scaled image cropped (cover) or padded (contain) */
+  height: number;
+}
+
+/**
+ * Work out the scale and final size for resizing an image. The native addon
+ * implements the same rules in ResolveResize.
+ * @param sourceWidth - Width of the decoded image in pixels
+ * @param sourceHeight - Height of the decoded image in pixels
+ * @param resize - Target dimensions and fit
+ * @returns The scale to apply and the resulting dimensions
+ */
+export function resolveResize(
+  sourceWidth: number,
+  sourceHeight: number,
+  resize: ResizeOptions
+): ResizePlan {
+  const fit = resize.fit ?? 'inside';
+  const ratioX =
+    resize.width !== undefined ? resize.width / sourceWidth : undefined;
+  const ratioY =
+    resize.height !== undefined ? resize.height / sourceHeight : undefined;
+
+  let scaleX: number;
+  let scaleY: number;
+  if (ratioX === undefined || ratioY === undefined) {
+    // A single dimension keeps the aspect ratio whatever the fit
+    scaleX = scaleY = ratioX ?? ratioY ?? 1;
+  } else if (fit === 'fill') {
+    scaleX = ratioX;
+    scaleY = ratioY;
+  } else if (fit === 'cover') {
+    scaleX = scaleY = Math.max(ratioX, ratioY);
+  } else {
+    scaleX = scaleY = Math.min(ratioX, ratioY);
+  }
+
+  if (resize.withoutEnlargement) {
+    scaleX = Math.min(scaleX, 1);
+    scaleY = Math.min(scaleY, 1);
+  }
+
+  const scaledWidth = Math.max(1, Math.round(sourceWidth * scaleX));
+  const scaledHeight = Math.max(1, Math.round(sourceHeight * scaleY));
+  const boxWidth =
+    resize.width !== undefined ? Math.round(resize.width) : scaledWidth;
+  const boxHeight =
+    resize.height !== undefined ? Math.round(resize.height) : scaledHeight;
+
+  if (fit === 'cover') {
+    return {
+      scaleX,
+      scaleY,
+      scaledWidth,
+      scaledHeight,
+      width: Math.min(boxWidth, scaledWidth),
+      height: Math.min(boxHeight, scaledHeight),
+    };
+  }
+  if (fit === 'contain') {
+    return {
+      scaleX,
+      scaleY,
+      scaledWidth,
+      scaledHeight,
+      width: boxWidth,
+      height: boxHeight,
+    };
+  }
+  return {
+    scaleX,
+    scaleY,
+    scaledWidth,
+    scaledHeight,
+    width: scaledWidth,
+    height: scaledHeight,
+  };
+}
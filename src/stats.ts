@@ -0,0 +1,33 @@
+/**
+ * Counters of conversion outcomes since the process started or the last reset
+ */
+export interface ConversionStats {
+  /** Async conversions rejected because timeoutMs expired */
+  timedOut: number;
+}
+
+const stats: ConversionStats = {
+  timedOut: 0,
+};
+
+/**
+ * Count a conversion that exceeded its timeout
+ */
+export function recordTimeout(): void {
+  stats.timedOut++;
+}
+
+/**
+ * Get a snapshot of the conversion counters
+ * @returns A copy of the current counters
+ */
+export function getConversionStats(): ConversionStats {
+  return { ...stats };
+}
+
+/**
+ * Reset every conversion counter to zero
+ */
+export function resetConversionStats(): void {
+  stats.timedOut = 0;
+}
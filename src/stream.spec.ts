@@ -0,0 +1,127 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createConvertStream,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+} from './index.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Writable that collects everything written to it
+ */
+function collect(chunks: Buffer[]): Writable {
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+}
+
+describe('createConvertStream', () => {
+  it('should convert a piped RAW stream and emit the output in chunks', async () => {
+    const stub = createStubBackend({ width: 40, height: 30 });
+    const converter = createConverter({ backend: stub });
+    const input = [Buffer.from('raw-'), Buffer.from('data')];
+    const output: Buffer[] = [];
+
+    await pipeline(
+      Readable.from(input),
+      createConvertStream(
+        OutputFormat.RGB,
+        { inputFormat: 'arw' },
+        { converter, chunkSize: 1000 }
+      ),
+      collect(output)
+    );
+
+    expect(stub.calls[0].input).toEqual(Buffer.from('raw-data'));
+    expect(output.length).toBe(4);
+    expect(output.slice(0, 3).every((chunk) => chunk.length === 1000)).toBe(
+      true
+    );
+    expect(Buffer.concat(output)).toEqual(Buffer.alloc(40 * 30 * 3, 0x80));
+  });
+
+  it('should emit metadata before the output', async () => {
+    const converter = createConverter({
+      backend: createStubBackend({ metadata: { cameraMake: 'SONY' } }),
+    });
+    const stream = createConvertStream(
+      OutputFormat.JPEG,
+      { inputFormat: 'arw', extractMetadata: true },
+      { converter }
+    );
+    const events: string[] = [];
+    stream.on('metadata', () => events.push('metadata'));
+    stream.on('data', () => events.push('data'));
+
+    stream.end(Buffer.from('raw'));
+    await new Promise((resolve) => stream.on('end', resolve));
+
+    expect(events[0]).toBe('metadata');
+    expect(events).toContain('data');
+    expect(stream.metadata).toMatchObject({ cameraMake: 'SONY', width: 4 });
+  });
+
+  it('should reject the pipeline when the conversion fails', async () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    const result = pipeline(
+      Readable.from([Buffer.from('not a raw file')]),
+      createConvertStream(OutputFormat.JPEG, {}, { converter }),
+      collect([])
+    );
+
+    await expect(result).rejects.toBeInstanceOf(RawConvertError);
+    await expect(result).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' });
+  });
+
+  it('should stop pushing output while the consumer is not reading', async () => {
+    const converter = createConverter({
+      backend: createStubBackend({ width: 100, height: 100 }),
+    });
+    const stream = createConvertStream(
+      OutputFormat.RGB,
+      { inputFormat: 'arw' },
+      { converter, chunkSize: 1024 }
+    );
+
+    stream.end(Buffer.from('raw'));
+    await new Promise((resolve) => stream.once('readable', resolve));
+
+    // Only up to the readable high water mark is buffered
+    expect(stream.readableLength).toBeLessThanOrEqual(
+      stream.readableHighWaterMark + 1024
+    );
+    expect(stream.readableLength).toBeLessThan(100 * 100 * 3);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).length).toBe(100 * 100 * 3);
+  });
+
+  it('should cancel the conversion when destroyed', async () => {
+    const stub = createStubBackend({ delayMs: 20 });
+    const stream = createConvertStream(
+      OutputFormat.JPEG,
+      { inputFormat: 'arw' },
+      { converter: createConverter({ backend: stub }) }
+    );
+    stream.on('error', () => {});
+
+    stream.end(Buffer.from('raw'));
+    await wait(1);
+    stream.destroy();
+
+    await wait(40);
+    expect(stub.calls).toHaveLength(0);
+  });
+});
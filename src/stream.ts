@@ -0,0 +1,143 @@
+import { Duplex } from 'stream';
+import { convertRawAsync, type Converter } from './convert.js';
+import type {
+  ConversionOptions,
+  FormatQualityOptions,
+  ImageMetadata,
+  OutputFormat,
+  RawImageDescriptor,
+} from './types.js';
+
+/**
+ * Options for createConvertStream
+ */
+export interface ConvertStreamOptions {
+  /** Size of the chunks the output is emitted in, in bytes (default: 65536) */
+  chunkSize?: number;
+  /** Converter that runs the conversion (default: the top-level convertRawAsync) */
+  converter?: Converter;
+}
+
+/**
+ * Duplex stream that converts the RAW data written to it and emits the
+ * encoded output. The RAW decoder needs the complete file, so input is
+ * collected until the writable side ends; the output is then emitted in
+ * chunks as the consumer reads them.
+ *
+ * Emits 'metadata' with the image metadata before the first output chunk
+ * when options.extractMetadata is set.
+ */
+export class ConvertStream extends Duplex {
+  /** Image metadata, available once the conversion has finished */
+  metadata?: ImageMetadata;
+  /** Pixel layout of raw pixel output, available once the conversion has finished */
+  raw?: RawImageDescriptor;
+
+  private readonly convert: () => ReturnType<Converter['convertRawAsync']>;
+  private readonly chunkSize: number;
+  private readonly abortController = new AbortController();
+  private chunks: Buffer[] = [];
+  private output?: Buffer;
+  private offset = 0;
+
+  constructor(
+    outputFormat: OutputFormat,
+    options: ConversionOptions = {},
+    streamOptions: ConvertStreamOptions = {}
+  ) {
+    super();
+    const convertRawAsyncFn =
+      streamOptions.converter?.convertRawAsync ?? convertRawAsync;
+    // Destroying the stream cancels the conversion
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, this.abortController.signal])
+      : this.abortController.signal;
+
+    this.chunkSize = streamOptions.chunkSize ?? 65536;
+    this.convert = () =>
+      convertRawAsyncFn(Buffer.concat(this.chunks), outputFormat, {
+        ...options,
+        signal,
+      });
+  }
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.chunks.push(chunk);
+    callback();
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    const conversion = this.convert();
+    // The input is no longer needed once it has been handed to the converter
+    this.chunks = [];
+
+    conversion.then(
+      (result) => {
+        this.output = result.buffer;
+        this.raw = result.raw;
+        if (result.metadata) {
+          this.metadata = result.metadata;
+          this.emit('metadata', result.metadata);
+        }
+        callback();
+        this.pushOutput();
+      },
+      (error) => callback(error)
+    );
+  }
+
+  _read(): void {
+    this.pushOutput();
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.abortController.abort(error ?? undefined);
+    this.chunks = [];
+    this.output = undefined;
+    callback(error);
+  }
+
+  /**
+   * Push output chunks until the consumer applies backpressure
+   */
+  private pushOutput(): void {
+    if (!this.output) {
+      return;
+    }
+
+    while (this.offset < this.output.length) {
+      const end = Math.min(this.offset + this.chunkSize, this.output.length);
+      const chunk = this.output.subarray(this.offset, end);
+      this.offset = end;
+      if (!this.push(chunk)) {
+        return;
+      }
+    }
+
+    this.output = undefined;
+    this.push(null);
+  }
+}
+
+/**
+ * Create a stream that converts RAW data piped into it, for use with
+ * stream.pipeline. Errors from the conversion are emitted on the stream.
+ * @param outputFormat - Output format (enum value)
+ * @param options - Format-specific conversion options
+ * @param streamOptions - Output chunk size and converter
+ * @returns ConvertStream accepting RAW data and emitting the encoded image
+ */
+export function createConvertStream<F extends OutputFormat>(
+  outputFormat: F,
+  options?: ConversionOptions & FormatQualityOptions[F],
+  streamOptions?: ConvertStreamOptions
+): ConvertStream {
+  return new ConvertStream(outputFormat, options, streamOptions);
+}
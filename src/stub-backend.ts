@@ -0,0 +1,327 @@
+import fs from 'fs';
+import type { ConverterBackend } from './backend.js';
+import { resolveCrop } from './crop.js';
+import { applyLut, readLut, type Rgb } from './lut.js';
+import { resolveResize } from './resize.js';
+import { resolveToneCurve } from './tone-curve.js';
+import { transformedSize, transformOrientation } from './transform.js';
+import type {
+  ColorSpace,
+  ImageMetadata,
+  InternalConversionOptions,
+  InternalRendition,
+  OutputImage,
+  RawImageDescriptor,
+} from './types.js';
+
+/**
+ * Options for the in-memory stub backend
+ */
+export interface StubBackendOptions {
+  /** Width of the simulated decoded image in pixels (default: 4) */
+  width?: number;
+  /** Height of the simulated decoded image in pixels (default: 3) */
+  height?: number;
+  /** Extra metadata returned when extractMetadata is enabled */
+  metadata?: ImageMetadata;
+  /** Delay before async conversions complete, in milliseconds (default: 0) */
+  delayMs?: number;
+}
+
+/**
+ * A conversion recorded by the stub backend
+ */
+export interface StubBackendCall {
+  input: Buffer | string;
+  /** Output format; for multi-output conversions, the rendition formats joined by commas */
+  format: string;
+  options: InternalConversionOptions;
+  /** Renditions of a multi-output conversion, which count as a single call */
+  renditions?: InternalRendition[];
+}
+
+/**
+ * Stub backend that records its calls for inspection
+ */
+export interface StubBackend extends ConverterBackend {
+  /** Every conversion requested so far, in order */
+  readonly calls: StubBackendCall[];
+}
+
+// Layout of each raw pixel format, with the value of a mid-grey sample and
+// the color space used when the colorSpace option is not set
+const PIXEL_FORMATS: Record<
+  string,
+  Omit<RawImageDescriptor, 'width' | 'height' | 'stride'> & { grey: number }
+> = {
+  rgb: {
+    channels: 3,
+    bitDepth: 8,
+    sampleFormat: 'uint',
+    colorSpace: 'srgb',
+    grey: 0x80,
+  },
+  rgba: {
+    channels: 4,
+    bitDepth: 8,
+    sampleFormat: 'uint',
+    colorSpace: 'srgb',
+    grey: 0x80,
+  },
+  rgb16: {
+    channels: 3,
+    bitDepth: 16,
+    sampleFormat: 'uint',
+    colorSpace: 'srgb',
+    grey: 0x8080,
+  },
+  rgbf32: {
+    channels: 3,
+    bitDepth: 32,
+    sampleFormat: 'float',
+    colorSpace: 'linear-srgb',
+    grey: 0.2,
+  },
+};
+
+// Minimal headers that identify each encoded format
+const FORMAT_SIGNATURES: Record<string, number[]> = {
+  jpeg: [0xff, 0xd8, 0xff, 0xe0, 0xff, 0xd9],
+  jpg: [0xff, 0xd8, 0xff, 0xe0, 0xff, 0xd9],
+  png: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  tiff: [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00],
+  tif: [0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00],
+  jpeg2000: [
+    0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+  ],
+  jp2: [0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a, 0x87, 0x0a],
+  heif: [
+    0x00, 0x00, 0x00, 0x10, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63,
+    0x00, 0x00, 0x00, 0x00,
+  ],
+  heic: [
+    0x00, 0x00, 0x00, 0x10, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63,
+    0x00, 0x00, 0x00, 0x00,
+  ],
+};
+
+const COLOR_SPACES: ColorSpace[] = [
+  'srgb',
+  'display-p3',
+  'adobe-rgb',
+  'prophoto',
+  'linear-srgb',
+  'rec2020',
+];
+
+/**
+ * Create an in-memory backend that mimics the native addon without decoding
+ * anything. Encoded formats return a minimal buffer carrying the format's
+ * signature, and the raw pixel formats return a mid-grey bitmap of the simulated
+ * dimensions.
+ * @param stubOptions - Simulated image dimensions, metadata and latency
+ * @returns A StubBackend usable with setBackend() or createConverter()
+ */
+export function createStubBackend(
+  stubOptions: StubBackendOptions = {}
+): StubBackend {
+  const calls: StubBackendCall[] = [];
+
+  // Check the input like the native addon and return the decoded dimensions,
+  // after any transforms, crop and resize
+  const decode = (
+    input: Buffer | string,
+    options: InternalConversionOptions
+  ) => {
+    if (typeof input === 'string') {
+      if (input === '') {
+        throw new Error('File path cannot be empty');
+      }
+      if (!fs.existsSync(input)) {
+        throw new Error('Failed to read file from path');
+      }
+    } else if (input.length === 0) {
+      throw new Error('Input buffer is empty');
+    }
+
+    const scale = options.scaleFactor ?? 1.0;
+    let width = (stubOptions.width ?? 4) * scale;
+    let height = (stubOptions.height ?? 3) * scale;
+    if (options.straighten || options.rotate) {
+      ({ width, height } = transformedSize(
+        Math.max(1, Math.round(width)),
+        Math.max(1, Math.round(height)),
+        options
+      ));
+    }
+    if (options.crop) {
+      const region = resolveCrop(width, height, options.crop, scale);
+      if (region.width === 0 || region.height === 0) {
+        throw new Error('Crop region is outside the image');
+      }
+      width = Math.max(1, Math.round(width * region.width));
+      height = Math.max(1, Math.round(height * region.height));
+    }
+    if (options.resize) {
+      return resolveResize(
+        Math.max(1, Math.round(width)),
+        Math.max(1, Math.round(height)),
+        options.resize
+      );
+    }
+    return { width, height };
+  };
+
+  const encode = (
+    format: string,
+    options: InternalConversionOptions,
+    decodedWidth: number,
+    decodedHeight: number
+  ): OutputImage => {
+    const width = Math.max(1, Math.round(decodedWidth));
+    const height = Math.max(1, Math.round(decodedHeight));
+    if (options.colorSpace && !COLOR_SPACES.includes(options.colorSpace)) {
+      throw new Error(
+        `Unsupported color space: ${options.colorSpace}. Supported color spaces: ${COLOR_SPACES.join(', ')}`
+      );
+    }
+    let colorSpace = options.colorSpace ?? 'srgb';
+    const lut = options.lut && readLut(options.lut);
+
+    let buffer: Buffer;
+    let raw: RawImageDescriptor | undefined;
+    if (format in PIXEL_FORMATS) {
+      const { grey, ...layout } = PIXEL_FORMATS[format];
+      colorSpace = options.colorSpace ?? layout.colorSpace;
+      const ArrayType =
+        layout.sampleFormat === 'float'
+          ? Float32Array
+          : layout.bitDepth === 16
+            ? Uint16Array
+            : Uint8Array;
+      const white =
+        layout.sampleFormat === 'float' ? 1 : 2 ** layout.bitDepth - 1;
+      // Grey through any tone curve and LUT, then opaque alpha
+      let color: Rgb = [grey / white, grey / white, grey / white];
+      if (options.toneCurve) {
+        const curves = resolveToneCurve(options.toneCurve);
+        color = color.map((value, channel) => curves[channel](value)) as Rgb;
+      }
+      if (lut) {
+        color = applyLut(
+          lut,
+          color,
+          options.lut?.interpolation,
+          options.lut?.strength
+        );
+      }
+      const pixel = color.map((value) =>
+        layout.sampleFormat === 'float'
+          ? value * white
+          : Math.round(Math.min(1, Math.max(0, value)) * white)
+      );
+      if (layout.channels === 4) {
+        pixel.push(white);
+      }
+      const samples = new ArrayType(width * height * layout.channels);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = pixel[i % layout.channels];
+      }
+      buffer = Buffer.from(samples.buffer);
+      raw = {
+        ...layout,
+        width,
+        height,
+        stride: (width * layout.channels * layout.bitDepth) / 8,
+        colorSpace,
+      };
+    } else if (format in FORMAT_SIGNATURES) {
+      buffer = Buffer.from(FORMAT_SIGNATURES[format]);
+    } else {
+      throw new Error(
+        `Unsupported output format: ${format}. Supported formats: jpeg, jpg, png, tiff, tif, jpeg2000, jp2, heif, heic, rgb, rgba, rgb16, rgbf32`
+      );
+    }
+
+    const result: OutputImage = { buffer };
+    if (raw) {
+      result.raw = raw;
+    }
+    if (options.extractMetadata) {
+      result.metadata = {
+        ...stubOptions.metadata,
+        width,
+        height,
+        colorSpace,
+      };
+      if (result.metadata.orientation !== undefined) {
+        result.metadata.orientation = transformOrientation(
+          result.metadata.orientation,
+          options
+        );
+      }
+    }
+    return result;
+  };
+
+  const convert = (
+    input: Buffer | string,
+    format: string,
+    options: InternalConversionOptions
+  ): OutputImage => {
+    calls.push({ input, format, options });
+    const { width, height } = decode(input, options);
+    return encode(format, options, width, height);
+  };
+
+  const convertMulti = (
+    input: Buffer | string,
+    renditions: InternalRendition[],
+    options: InternalConversionOptions
+  ): OutputImage[] => {
+    calls.push({
+      input,
+      format: renditions.map((rendition) => rendition.format).join(','),
+      options,
+      renditions,
+    });
+    const { width, height } = decode(input, options);
+    return renditions.map((rendition) =>
+      encode(
+        rendition.format,
+        rendition.options,
+        width * rendition.scale,
+        height * rendition.scale
+      )
+    );
+  };
+
+  // Complete a conversion after the configured delay, cancellable until then
+  const later = <T>(
+    run: () => T,
+    callback: (error: Error | null, result?: T) => void
+  ) => {
+    const timer = setTimeout(() => {
+      let result: T;
+      try {
+        result = run();
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
+      callback(null, result);
+    }, stubOptions.delayMs ?? 0);
+
+    return { cancel: () => clearTimeout(timer) };
+  };
+
+  return {
+    calls,
+    convertRaw: convert,
+    convertRawAsync: (input, format, options, callback) =>
+      later(() => convert(input, format, options), callback),
+    convertRawMulti: convertMulti,
+    convertRawMultiAsync: (input, renditions, options, callback) =>
+      later(() => convertMulti(input, renditions, options), callback),
+  };
+}
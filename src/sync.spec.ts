@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+  syncSettings,
+} from './index.js';
+import { buildExposureRaw } from './test-fixtures.js';
+
+describe('syncSettings', () => {
+  const reference = buildExposureRaw({
+    shutterSpeed: 1 / 125,
+    fNumber: 8,
+    iso: 100,
+  });
+
+  it('should compensate exposure for shutter speed, aperture and ISO', () => {
+    const brighter = buildExposureRaw({
+      shutterSpeed: 1 / 60,
+      fNumber: 8,
+      iso: 100,
+    });
+    const darker = buildExposureRaw({
+      shutterSpeed: 1 / 125,
+      fNumber: 11,
+      iso: 100,
+    });
+    const pushed = buildExposureRaw({
+      shutterSpeed: 1 / 250,
+      fNumber: 8,
+      iso: 400,
+    });
+
+    const settings = syncSettings(reference, [brighter, darker, pushed], {
+      exposure: 0.3,
+      whiteBalance: { temperature: 5200, tint: 4 },
+      boostShadowAmount: 0.5,
+    });
+
+    expect(settings.get(brighter)?.exposure).toBeCloseTo(0.3 - 1.06, 2);
+    expect(settings.get(darker)?.exposure).toBeCloseTo(0.3 + 0.92, 2);
+    expect(settings.get(pushed)?.exposure).toBeCloseTo(0.3 - 1, 2);
+    expect(settings.get(pushed)).toMatchObject({
+      whiteBalance: { temperature: 5200, tint: 4 },
+      boostShadowAmount: 0.5,
+    });
+  });
+
+  it('should fall back to the exposure bias', () => {
+    const metered = buildExposureRaw({ exposureBias: -0.7 });
+    const target = buildExposureRaw({ exposureBias: 0.3 });
+
+    expect(syncSettings(metered, [target]).get(target)).toEqual({
+      exposure: -1,
+    });
+  });
+
+  it('should reject targets without exposure metadata', () => {
+    const target = buildExposureRaw({ shutterSpeed: 1 / 125 });
+
+    expect(() => syncSettings(reference, [target])).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_INPUT',
+        input: `Buffer(${target.length} bytes)`,
+      })
+    );
+    expect(() => syncSettings(reference, [target])).toThrow(RawConvertError);
+  });
+
+  it('should produce options convertRawAsync accepts', async () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+    const target = buildExposureRaw({
+      shutterSpeed: 1 / 30,
+      fNumber: 8,
+      iso: 100,
+    });
+
+    const settings = syncSettings(reference, [target], { exposure: 1 });
+    for (const [input, options] of settings) {
+      await converter.convertRawAsync(input, OutputFormat.JPEG, {
+        ...options,
+        strict: true,
+      });
+    }
+
+    expect(stub.calls[0].input).toBe(target);
+    expect(stub.calls[0].options.exposure).toBeCloseTo(1 - 2.06, 2);
+  });
+});
@@ -0,0 +1,88 @@
+import { describeInput, RawConvertError } from './errors.js';
+import { readMetadata } from './metadata.js';
+import type { ConversionOptions, ImageMetadata } from './types.js';
+
+/**
+ * Work out how much light reached the sensor, in stops relative to 1 s at
+ * f/1 and ISO 100. The exposure bias is not added: the camera already applied
+ * it to the shutter speed, aperture or ISO.
+ * @returns The exposure in stops, or undefined if a setting was not recorded
+ */
+export function captureStops(metadata: ImageMetadata): number | undefined {
+  const { shutterSpeed, fNumber, iso } = metadata;
+  if (!shutterSpeed || !fNumber || !iso) {
+    return undefined;
+  }
+  return (
+    Math.log2(shutterSpeed) + Math.log2(iso / 100) - 2 * Math.log2(fNumber)
+  );
+}
+
+/**
+ * Work out the exposure change that renders a target as bright as the
+ * reference, from the shutter speed, aperture and ISO of both. Without them,
+ * the difference in exposure bias is used.
+ * @throws {RawConvertError} INVALID_INPUT if neither can be compared
+ */
+function exposureChange(
+  reference: ImageMetadata,
+  target: ImageMetadata,
+  input: Buffer | string
+): number {
+  const referenceStops = captureStops(reference);
+  const targetStops = captureStops(target);
+  if (referenceStops !== undefined && targetStops !== undefined) {
+    return referenceStops - targetStops;
+  }
+  if (
+    reference.exposureBias !== undefined &&
+    target.exposureBias !== undefined
+  ) {
+    return reference.exposureBias - target.exposureBias;
+  }
+  throw new RawConvertError(
+    'INVALID_INPUT',
+    'Cannot match exposure: shutter speed, aperture and ISO or exposure bias must be recorded in the reference and every target',
+    { input: describeInput(input) }
+  );
+}
+
+/**
+ * Work out conversion options that make a batch of RAW images match a
+ * hand-tuned reference image.
+ *
+ * Every target gets the reference's options, with exposure compensated for the
+ * difference in shutter speed, aperture and ISO, so frames shot at different
+ * settings render at the same brightness as the reference. White balance
+ * settings in referenceOptions (whiteBalance, neutralTemperature and
+ * neutralTint) are applied to every target unchanged; RAW metadata records
+ * only whether the camera's white balance was automatic, not its temperature,
+ * so without them each target keeps its as-shot white balance.
+ * @param reference - Buffer containing RAW image data or file path to the reference image
+ * @param targets - Buffers or file paths of the images to match to the reference
+ * @param referenceOptions - Options the reference is converted with
+ * @throws {RawConvertError} If an image cannot be read, or lacks the exposure
+ * metadata needed to compare it with the reference
+ * @returns Options for each target, keyed by its input
+ */
+export function syncSettings(
+  reference: Buffer | string,
+  targets: readonly (Buffer | string)[],
+  referenceOptions: ConversionOptions = {}
+): Map<Buffer | string, ConversionOptions> {
+  const referenceMetadata = readMetadata(reference);
+  const settings = new Map<Buffer | string, ConversionOptions>();
+
+  for (const target of targets) {
+    const change = exposureChange(
+      referenceMetadata,
+      readMetadata(target),
+      target
+    );
+    settings.set(target, {
+      ...referenceOptions,
+      exposure: (referenceOptions.exposure ?? 0) + change,
+    });
+  }
+  return settings;
+}
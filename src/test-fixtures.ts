@@ -0,0 +1,341 @@
+/**
+ * Builders for small synthetic RAW/TIFF files used by the parser tests
+ */
+
+import { TiffTag } from './tiff.js';
+
+/**
+ * An IFD entry to write
+ */
+export interface FixtureEntry {
+  tag: number;
+  /** TIFF field type: 1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL, 7 UNDEFINED, 10 SRATIONAL, 12 DOUBLE */
+  type: number;
+  values: number[] | string | Buffer;
+}
+
+/**
+ * An IFD to write, with optional child IFDs and data blobs
+ */
+export interface FixtureIfd {
+  entries: FixtureEntry[];
+  /** Child IFDs referenced by a pointer tag such as ExifIFD or SubIFDs */
+  children?: { tag: number; ifds: FixtureIfd[] }[];
+  /** Data written outside the IFD and referenced by offset/length tags */
+  blobs?: { offsetTag: number; lengthTag: number; data: Buffer }[];
+}
+
+export interface BuildTiffOptions {
+  /** Write big-endian ("MM") instead of little-endian ("II") */
+  bigEndian?: boolean;
+  /** Magic number after the byte order mark (default: 42) */
+  magic?: number;
+  /** Bytes written between the 8-byte header and IFD0 (e.g. the CR2 signature) */
+  afterHeader?: Buffer;
+}
+
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4];
+
+/**
+ * Serialize a chain of IFDs into a TIFF file
+ */
+export function buildTiff(
+  chain: FixtureIfd[],
+  options: BuildTiffOptions = {}
+): Buffer {
+  const le = !options.bigEndian;
+  let out = Buffer.alloc(4096);
+  let pos = 0;
+
+  const ensure = (size: number) => {
+    if (pos + size > out.length) {
+      const grown = Buffer.alloc(Math.max(out.length * 2, pos + size));
+      out.copy(grown);
+      out = grown;
+    }
+  };
+  const u16 = (value: number, at: number = pos) => {
+    le ? out.writeUInt16LE(value, at) : out.writeUInt16BE(value, at);
+  };
+  const u32 = (value: number, at: number = pos) => {
+    le
+      ? out.writeUInt32LE(value >>> 0, at)
+      : out.writeUInt32BE(value >>> 0, at);
+  };
+  const align = () => {
+    if (pos % 2 === 1) {
+      ensure(1);
+      pos++;
+    }
+  };
+
+  const encodeValue = (entry: FixtureEntry): Buffer => {
+    if (typeof entry.values === 'string') {
+      return Buffer.from(entry.values + '\0', 'latin1');
+    }
+    if (Buffer.isBuffer(entry.values)) {
+      return entry.values;
+    }
+    const size = TYPE_SIZES[entry.type];
+    const data = Buffer.alloc(size * entry.values.length);
+    entry.values.forEach((value, i) => {
+      const at = i * size;
+      switch (entry.type) {
+        case 1:
+          data.writeUInt8(value, at);
+          break;
+        case 3:
+          le ? data.writeUInt16LE(value, at) : data.writeUInt16BE(value, at);
+          break;
+        case 4:
+          le ? data.writeUInt32LE(value, at) : data.writeUInt32BE(value, at);
+          break;
+        case 5:
+        case 10: {
+          const numerator = Math.round(value * 10000);
+          if (entry.type === 5) {
+            le
+              ? data.writeUInt32LE(numerator, at)
+              : data.writeUInt32BE(numerator, at);
+          } else {
+            le
+              ? data.writeInt32LE(numerator, at)
+              : data.writeInt32BE(numerator, at);
+          }
+          le
+            ? data.writeUInt32LE(10000, at + 4)
+            : data.writeUInt32BE(10000, at + 4);
+          break;
+        }
+        case 12:
+          le ? data.writeDoubleLE(value, at) : data.writeDoubleBE(value, at);
+          break;
+        default:
+          throw new Error(`Unsupported fixture type ${entry.type}`);
+      }
+    });
+    return data;
+  };
+
+  const writeBytes = (data: Buffer): number => {
+    align();
+    ensure(data.length);
+    const offset = pos;
+    data.copy(out, pos);
+    pos += data.length;
+    return offset;
+  };
+
+  const writeIfd = (ifd: FixtureIfd, next: number): number => {
+    const entries = [...ifd.entries];
+
+    for (const child of ifd.children ?? []) {
+      const offsets = child.ifds.map((childIfd) => writeIfd(childIfd, 0));
+      entries.push({ tag: child.tag, type: 4, values: offsets });
+    }
+    for (const blob of ifd.blobs ?? []) {
+      const offset = writeBytes(blob.data);
+      entries.push({ tag: blob.offsetTag, type: 4, values: [offset] });
+      entries.push({
+        tag: blob.lengthTag,
+        type: 4,
+        values: [blob.data.length],
+      });
+    }
+    entries.sort((a, b) => a.tag - b.tag);
+
+    const values = entries.map(encodeValue);
+    const extra = values.map((value) =>
+      value.length > 4 ? writeBytes(value) : -1
+    );
+
+    align();
+    const offset = pos;
+    ensure(2 + entries.length * 12 + 4);
+    u16(entries.length);
+    pos += 2;
+    entries.forEach((entry, i) => {
+      const count =
+        typeof entry.values === 'string'
+          ? values[i].length
+          : Buffer.isBuffer(entry.values)
+            ? entry.values.length
+            : entry.values.length;
+      u16(entry.tag);
+      u16(entry.type, pos + 2);
+      u32(count, pos + 4);
+      if (extra[i] >= 0) {
+        u32(extra[i], pos + 8);
+      } else {
+        values[i].copy(out, pos + 8);
+      }
+      pos += 12;
+    });
+    u32(next);
+    pos += 4;
+    return offset;
+  };
+
+  ensure(8);
+  out.write(le ? 'II' : 'MM', 0, 'latin1');
+  u16(options.magic ?? 42, 2);
+  pos = 8;
+  if (options.afterHeader) {
+    ensure(options.afterHeader.length);
+    options.afterHeader.copy(out, pos);
+    pos += options.afterHeader.length;
+  }
+
+  // Write the chain back to front so each IFD knows its successor's offset
+  let next = 0;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    next = writeIfd(chain[i], next);
+  }
+  u32(next, 4);
+
+  return out.subarray(0, pos);
+}
+
+/**
+ * Exposure settings recorded by buildExposureRaw
+ */
+export interface FixtureExposure {
+  shutterSpeed?: number;
+  fNumber?: number;
+  iso?: number;
+  exposureBias?: number;
+}
+
+/**
+ * Build a TIFF-based RAW file whose IFD0 records only the camera and the
+ * given exposure settings
+ */
+export function buildExposureRaw(exposure: FixtureExposure): Buffer {
+  const tags: [keyof FixtureExposure, number, number][] = [
+    ['shutterSpeed', TiffTag.ExposureTime, 5],
+    ['fNumber', TiffTag.FNumber, 5],
+    ['iso', TiffTag.ISOSpeedRatings, 3],
+    ['exposureBias', TiffTag.ExposureBiasValue, 10],
+  ];
+  const entries: FixtureEntry[] = [
+    { tag: TiffTag.Make, type: 2, values: 'SONY' },
+    { tag: TiffTag.Model, type: 2, values: 'ZV-E10' },
+  ];
+  for (const [key, tag, type] of tags) {
+    const value = exposure[key];
+    if (value !== undefined) {
+      entries.push({ tag, type, values: [value] });
+    }
+  }
+  return buildTiff([{ entries }]);
+}
+
+/**
+ * Build a minimal JPEG with the given dimensions. The scan data is not
+ * decodable; only the markers are meaningful.
+ */
+export function buildJpeg(
+  width: number,
+  height: number,
+  options: { lossless?: boolean; payloadSize?: number } = {}
+): Buffer {
+  const sof = Buffer.from([
+    0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, 0x01, 0x22, 0x00, 0x02,
+    0x11, 0x01, 0x03, 0x11, 0x01,
+  ]);
+  if (options.lossless) {
+    sof[1] = 0xc3;
+  }
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    sof,
+    Buffer.from([0xff, 0xda, 0x00, 0x02]),
+    Buffer.alloc(options.payloadSize ?? 16, 0x55),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+/**
+ * Options for a synthetic matrix-based RGB ICC profile
+ */
+export interface FixtureIccProfile {
+  description: string;
+  /** Write a v4 profile with a multiLocalizedUnicode description (default: v2) */
+  version4?: boolean;
+  /** Rendering intent in the header (default: 0, perceptual) */
+  renderingIntent?: number;
+  /** rXYZ, gXYZ and bXYZ colorants */
+  primaries: [number, number, number][];
+  /** wtpt media white point (default: D50) */
+  whitePoint?: [number, number, number];
+}
+
+/**
+ * Build an RGB ICC profile with a description, colorant and white point tags
+ */
+export function buildIccProfile(options: FixtureIccProfile): Buffer {
+  const xyz = ([x, y, z]: [number, number, number]) => {
+    const tag = Buffer.alloc(20);
+    tag.write('XYZ ', 0, 'latin1');
+    [x, y, z].forEach((value, i) =>
+      tag.writeInt32BE(Math.round(value * 65536), 8 + i * 4)
+    );
+    return tag;
+  };
+
+  let description: Buffer;
+  if (options.version4) {
+    const text = Buffer.from(options.description, 'utf16le').swap16();
+    description = Buffer.alloc(28 + text.length);
+    description.write('mluc', 0, 'latin1');
+    description.writeUInt32BE(1, 8);
+    description.writeUInt32BE(12, 12);
+    description.write('enUS', 16, 'latin1');
+    description.writeUInt32BE(text.length, 20);
+    description.writeUInt32BE(28, 24);
+    text.copy(description, 28);
+  } else {
+    // ASCII text, then empty Unicode and ScriptCode descriptions
+    description = Buffer.alloc(12 + options.description.length + 1 + 78);
+    description.write('desc', 0, 'latin1');
+    description.writeUInt32BE(options.description.length + 1, 8);
+    description.write(options.description, 12, 'latin1');
+  }
+
+  const [red, green, blue] = options.primaries;
+  const tags: [string, Buffer][] = [
+    ['desc', description],
+    ['rXYZ', xyz(red)],
+    ['gXYZ', xyz(green)],
+    ['bXYZ', xyz(blue)],
+    ['wtpt', xyz(options.whitePoint ?? [0.9642, 1, 0.8249])],
+  ];
+
+  const header = Buffer.alloc(132 + tags.length * 12);
+  header.writeUInt32BE(options.version4 ? 0x04000000 : 0x02100000, 8);
+  header.write('mntr', 12, 'latin1');
+  header.write('RGB ', 16, 'latin1');
+  header.write('XYZ ', 20, 'latin1');
+  header.write('acsp', 36, 'latin1');
+  header.writeUInt32BE(options.renderingIntent ?? 0, 64);
+  header.writeUInt32BE(tags.length, 128);
+
+  const data: Buffer[] = [];
+  let offset = header.length;
+  tags.forEach(([signature, tag], i) => {
+    header.write(signature, 132 + i * 12, 'latin1');
+    header.writeUInt32BE(offset, 136 + i * 12);
+    header.writeUInt32BE(tag.length, 140 + i * 12);
+    // Tags start on four-byte boundaries
+    const padded = Buffer.alloc(Math.ceil(tag.length / 4) * 4);
+    tag.copy(padded);
+    data.push(padded);
+    offset += padded.length;
+  });
+
+  const profile = Buffer.concat([header, ...data]);
+  profile.writeUInt32BE(profile.length, 0);
+  return profile;
+}
@@ -3,7 +3,15 @@ import path from 'path';
 import sharp from 'sharp';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 import { loadArwImage, loadDngImage } from './examples/load-image.js';
-import { convertRaw, convertRawAsync, OutputFormat } from './index.js';
+import {
+  convertRaw,
+  convertRawAsync,
+  convertRawMulti,
+  isRawOutputImage,
+  OutputFormat,
+  readIccProfile,
+  type ToneCurvePoint,
+} from './index.js';
 
 const TEST_OUTPUT_DIR = 'test-output';
 
@@ -132,6 +140,14 @@ describe('CoreImage RAW Convert', () => {
         expect(fs.statSync(outputPath).size).toBe(jpegImage.buffer.length);
       });
 
+      it('should detect inputFormat when it is omitted for Buffer input', () => {
+        const jpegImage = convertRaw(rawBuffer, OutputFormat.JPEG);
+
+        expect(jpegImage.buffer).toBeInstanceOf(Buffer);
+        expect(jpegImage.buffer[0]).toBe(0xff);
+        expect(jpegImage.buffer[1]).toBe(0xd8);
+      });
+
       it('should handle error cases correctly', () => {
         // Invalid input type (neither buffer nor string)
         expect(() => {
@@ -211,6 +227,16 @@ describe('CoreImage RAW Convert', () => {
         expect(totalPixels).toBeGreaterThan(0);
         expect(rgbImage.buffer.length).toBe(dimensions.rgbBytes);
         expect(totalPixels).toBe(dimensions.pixels);
+        expect(rgbImage.raw).toEqual({
+          width: dimensions.width,
+          height: dimensions.height,
+          channels: 3,
+          bitDepth: 8,
+          sampleFormat: 'uint',
+          stride: dimensions.width * 3,
+          colorSpace: 'srgb',
+        });
+        expect(isRawOutputImage(rgbImage)).toBe(true);
 
         // Test metadata (RGB format has default extractMetadata: false, so no metadata expected)
         expect(rgbImage.metadata).toBeUndefined();
@@ -305,7 +331,7 @@ describe('CoreImage RAW Convert', () => {
       it('should handle invalid options', () => {
         expect(() => {
           convertRaw(rawBuffer, OutputFormat.JPEG, 'invalid options' as any);
-        }).toThrow('inputFormat is required when input is a Buffer');
+        }).toThrow('Options must be an object');
 
         // Test with proper inputFormat but invalid options type
         expect(() => {
@@ -348,6 +374,99 @@ describe('CoreImage RAW Convert', () => {
         expect(metadataWithoutExif.exif).toBeUndefined();
       });
 
+      it('should embed the ICC profile of the requested color space', () => {
+        const tiff = convertRaw(rawBuffer, OutputFormat.TIFF, {
+          inputFormat,
+          scaleFactor: 0.25,
+          colorSpace: 'adobe-rgb',
+          extractMetadata: true,
+        });
+
+        expect(tiff.metadata?.colorSpace).toBe('adobe-rgb');
+        expect(readIccProfile(tiff.buffer)).toMatchObject({
+          description: expect.stringContaining('Adobe RGB'),
+          colorSpace: 'RGB',
+        });
+      });
+
+      it('should apply a tone curve to RGB output', () => {
+        const rgb = convertRaw(rawBuffer, OutputFormat.RGB, {
+          inputFormat,
+          scaleFactor: 0.25,
+          toneCurve: {
+            blue: [
+              [0, 0],
+              [1, 0],
+            ],
+          },
+        });
+
+        const blue = rgb.buffer.filter((_, index) => index % 3 === 2);
+        expect(blue.every((sample) => sample === 0)).toBe(true);
+        expect(rgb.buffer.some((sample) => sample > 0)).toBe(true);
+      });
+
+      it('should apply a tone curve once in multi-output conversions', () => {
+        const options = {
+          inputFormat,
+          scaleFactor: 0.25,
+          toneCurve: [
+            [0, 0],
+            [0.25, 0.18],
+            [0.75, 0.85],
+            [1, 1],
+          ] as ToneCurvePoint[],
+        };
+        const single = convertRaw(rawBuffer, OutputFormat.RGB, options);
+        const [multi] = convertRawMulti(
+          rawBuffer,
+          [{ format: OutputFormat.RGB }],
+          options
+        );
+
+        expect(multi.buffer.length).toBe(single.buffer.length);
+        expect(
+          multi.buffer.every(
+            (sample, index) => Math.abs(sample - single.buffer[index]) <= 1
+          )
+        ).toBe(true);
+      });
+
+      it('should apply a LUT to RGB output', () => {
+        // 1D LUT that maps every input to a mid-grey
+        const rgb = convertRaw(rawBuffer, OutputFormat.RGB, {
+          inputFormat,
+          scaleFactor: 0.25,
+          lut: {
+            buffer: Buffer.from('LUT_1D_SIZE 2\n0.5 0.5 0.5\n0.5 0.5 0.5\n'),
+          },
+        });
+
+        expect(rgb.buffer.every((sample) => Math.abs(sample - 128) <= 1)).toBe(
+          true
+        );
+      });
+
+      it('should map LUT input through its domain', () => {
+        const options = { inputFormat, scaleFactor: 0.25 };
+        const plain = convertRaw(rawBuffer, OutputFormat.RGB, options);
+        // Identity table over 0-2, so every value is halved
+        const halved = convertRaw(rawBuffer, OutputFormat.RGB, {
+          ...options,
+          lut: {
+            buffer: Buffer.from(
+              'LUT_1D_SIZE 2\nLUT_1D_INPUT_RANGE 0 2\n0 0 0\n1 1 1\n'
+            ),
+          },
+        });
+
+        expect(
+          halved.buffer.every(
+            (sample, index) => Math.abs(sample - plain.buffer[index] / 2) <= 1
+          )
+        ).toBe(true);
+      });
+
       it('should convert RAW to JPEG using file path input', () => {
         const jpegImage = convertRaw(tempRawPath, OutputFormat.JPEG, {
           quality: 0.9,
@@ -0,0 +1,336 @@
+/**
+ * Minimal TIFF/EXIF structure reader shared by the pure-TypeScript parsers.
+ * Most RAW formats (ARW, DNG, NEF, CR2, ORF, RW2, PEF, SRW) are TIFF-based.
+ */
+
+/**
+ * Tag numbers used by the parsers
+ */
+export const TiffTag = {
+  NewSubfileType: 0x00fe,
+  ImageWidth: 0x0100,
+  ImageLength: 0x0101,
+  Compression: 0x0103,
+  Make: 0x010f,
+  Model: 0x0110,
+  StripOffsets: 0x0111,
+  Orientation: 0x0112,
+  StripByteCounts: 0x0117,
+  Software: 0x0131,
+  SubIFDs: 0x014a,
+  JPEGInterchangeFormat: 0x0201,
+  JPEGInterchangeFormatLength: 0x0202,
+  ExposureTime: 0x829a,
+  FNumber: 0x829d,
+  ExifIFD: 0x8769,
+  ICCProfile: 0x8773,
+  ISOSpeedRatings: 0x8827,
+  GPSIFD: 0x8825,
+  DateTimeOriginal: 0x9003,
+  ExposureBiasValue: 0x9204,
+  FocalLength: 0x920a,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  ExposureMode: 0xa402,
+  WhiteBalance: 0xa403,
+  FocalLengthIn35mmFilm: 0xa405,
+  LensMake: 0xa433,
+  LensModel: 0xa434,
+  DNGVersion: 0xc612,
+  DefaultCropSize: 0xc620,
+  GPSLatitudeRef: 0x0001,
+  GPSLatitude: 0x0002,
+  GPSLongitudeRef: 0x0003,
+  GPSLongitude: 0x0004,
+  GPSAltitudeRef: 0x0005,
+  GPSAltitude: 0x0006,
+} as const;
+
+/**
+ * A single IFD entry
+ */
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Absolute offset of the value data in the buffer */
+  valueOffset: number;
+}
+
+/**
+ * An image file directory
+ */
+export interface Ifd {
+  /** Absolute offset of the IFD in the buffer */
+  offset: number;
+  entries: Map<number, TiffEntry>;
+  /** Absolute offset of the next IFD in the chain, or 0 */
+  next: number;
+}
+
+// Byte size of each TIFF field type, indexed by type number
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4];
+
+// Magic numbers accepted after the byte order mark: TIFF, ORF and RW2
+const TIFF_MAGICS = [42, 0x4f52, 0x5352, 0x55];
+
+/**
+ * Check whether a TIFF header starts at the given offset
+ * @param buffer - Buffer to inspect
+ * @param offset - Offset of the candidate header
+ * @returns True if the bytes form a TIFF (or TIFF-derived RAW) header
+ */
+export function isTiff(buffer: Buffer, offset: number = 0): boolean {
+  if (buffer.length < offset + 8) {
+    return false;
+  }
+  const order = buffer.toString('latin1', offset, offset + 2);
+  if (order !== 'II' && order !== 'MM') {
+    return false;
+  }
+  const magic =
+    order === 'II'
+      ? buffer.readUInt16LE(offset + 2)
+      : buffer.readUInt16BE(offset + 2);
+  return TIFF_MAGICS.includes(magic);
+}
+
+/**
+ * Reader for a TIFF structure embedded in a buffer
+ */
+export class TiffReader {
+  readonly littleEndian: boolean;
+  readonly magic: number;
+  /** Absolute offset of IFD0 */
+  readonly firstIfdOffset: number;
+
+  /**
+   * @param buffer - Buffer containing the TIFF structure
+   * @param base - Offset of the TIFF header; IFD offsets are relative to it
+   * @throws {Error} If no TIFF header is found at base
+   */
+  constructor(
+    readonly buffer: Buffer,
+    readonly base: number = 0
+  ) {
+    if (!isTiff(buffer, base)) {
+      throw new Error('Not a TIFF-based file');
+    }
+    this.littleEndian = buffer.toString('latin1', base, base + 2) === 'II';
+    this.magic = this.readUInt16(base + 2);
+    this.firstIfdOffset = base + this.readUInt32(base + 4);
+  }
+
+  readUInt16(offset: number): number {
+    return this.littleEndian
+      ? this.buffer.readUInt16LE(offset)
+      : this.buffer.readUInt16BE(offset);
+  }
+
+  readUInt32(offset: number): number {
+    return this.littleEndian
+      ? this.buffer.readUInt32LE(offset)
+      : this.buffer.readUInt32BE(offset);
+  }
+
+  private readInt32(offset: number): number {
+    return this.littleEndian
+      ? this.buffer.readInt32LE(offset)
+      : this.buffer.readInt32BE(offset);
+  }
+
+  /**
+   * Read the IFD at an absolute offset
+   * @throws {Error} If the IFD lies outside the buffer
+   */
+  readIfd(offset: number): Ifd {
+    if (offset < this.base || offset + 2 > this.buffer.length) {
+      throw new Error(`IFD offset ${offset} is out of range`);
+    }
+
+    const count = this.readUInt16(offset);
+    const end = offset + 2 + count * 12;
+    if (end + 4 > this.buffer.length) {
+      throw new Error(`IFD at offset ${offset} is truncated`);
+    }
+
+    const entries = new Map<number, TiffEntry>();
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const tag = this.readUInt16(entryOffset);
+      const type = this.readUInt16(entryOffset + 2);
+      const entryCount = this.readUInt32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * entryCount;
+      const valueOffset =
+        size <= 4
+          ? entryOffset + 8
+          : this.base + this.readUInt32(entryOffset + 8);
+      entries.set(tag, { tag, type, count: entryCount, valueOffset });
+    }
+
+    const next = this.readUInt32(end);
+    return { offset, entries, next: next === 0 ? 0 : this.base + next };
+  }
+
+  /**
+   * Read IFD0 and every IFD chained after it
+   * @returns The IFDs in chain order, stopping at the first unreadable one
+   */
+  readIfdChain(offset: number = this.firstIfdOffset): Ifd[] {
+    const ifds: Ifd[] = [];
+    const visited = new Set<number>();
+
+    while (offset !== 0 && !visited.has(offset)) {
+      visited.add(offset);
+      let ifd: Ifd;
+      try {
+        ifd = this.readIfd(offset);
+      } catch {
+        break;
+      }
+      ifds.push(ifd);
+      offset = ifd.next;
+    }
+
+    return ifds;
+  }
+
+  /**
+   * Read the IFDs referenced by a pointer tag such as SubIFDs or ExifIFD
+   * @returns The referenced IFDs; unreadable ones are skipped
+   */
+  readChildIfds(ifd: Ifd, tag: number): Ifd[] {
+    const offsets = this.getNumbers(ifd, tag) ?? [];
+    const children: Ifd[] = [];
+
+    for (const offset of offsets) {
+      try {
+        children.push(this.readIfd(this.base + offset));
+      } catch {
+        // Ignore dangling pointers
+      }
+    }
+
+    return children;
+  }
+
+  /**
+   * Read the numeric values of an entry
+   * @returns The values, or undefined if the tag is missing, non-numeric or out of range
+   */
+  getNumbers(ifd: Ifd, tag: number): number[] | undefined {
+    const entry = ifd.entries.get(tag);
+    if (!entry) {
+      return undefined;
+    }
+
+    const size = TYPE_SIZES[entry.type] ?? 0;
+    if (
+      size === 0 ||
+      entry.type === 2 ||
+      entry.type === 7 ||
+      entry.valueOffset + size * entry.count > this.buffer.length
+    ) {
+      return undefined;
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const offset = entry.valueOffset + i * size;
+      switch (entry.type) {
+        case 1:
+          values.push(this.buffer.readUInt8(offset));
+          break;
+        case 6:
+          values.push(this.buffer.readInt8(offset));
+          break;
+        case 3:
+          values.push(this.readUInt16(offset));
+          break;
+        case 8:
+          values.push((this.readUInt16(offset) << 16) >> 16);
+          break;
+        case 4:
+        case 13:
+          values.push(this.readUInt32(offset));
+          break;
+        case 9:
+          values.push(this.readInt32(offset));
+          break;
+        case 5: {
+          const denominator = this.readUInt32(offset + 4);
+          values.push(
+            denominator === 0 ? 0 : this.readUInt32(offset) / denominator
+          );
+          break;
+        }
+        case 10: {
+          const denominator = this.readInt32(offset + 4);
+          values.push(
+            denominator === 0 ? 0 : this.readInt32(offset) / denominator
+          );
+          break;
+        }
+        case 11:
+          values.push(
+            this.littleEndian
+              ? this.buffer.readFloatLE(offset)
+              : this.buffer.readFloatBE(offset)
+          );
+          break;
+        case 12:
+          values.push(
+            this.littleEndian
+              ? this.buffer.readDoubleLE(offset)
+              : this.buffer.readDoubleBE(offset)
+          );
+          break;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Read the first numeric value of an entry
+   */
+  getNumber(ifd: Ifd, tag: number): number | undefined {
+    return this.getNumbers(ifd, tag)?.[0];
+  }
+
+  /**
+   * Read an ASCII entry, trimming trailing NULs and whitespace
+   */
+  getString(ifd: Ifd, tag: number): string | undefined {
+    const entry = ifd.entries.get(tag);
+    if (
+      !entry ||
+      entry.type !== 2 ||
+      entry.valueOffset + entry.count > this.buffer.length
+    ) {
+      return undefined;
+    }
+
+    const value = this.buffer
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0.*$/s, '')
+      .trim();
+    return value === '' ? undefined : value;
+  }
+
+  /**
+   * Get the raw bytes of an entry
+   */
+  getBytes(ifd: Ifd, tag: number): Buffer | undefined {
+    const entry = ifd.entries.get(tag);
+    if (!entry) {
+      return undefined;
+    }
+
+    const length = (TYPE_SIZES[entry.type] ?? 0) * entry.count;
+    if (entry.valueOffset + length > this.buffer.length) {
+      return undefined;
+    }
+    return this.buffer.subarray(entry.valueOffset, entry.valueOffset + length);
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  convertRawAsync,
+  createConverter,
+  createStubBackend,
+  getConversionStats,
+  OutputFormat,
+  resetConversionStats,
+  setBackend,
+  TimeoutError,
+  type ConverterBackend,
+  type OutputImage,
+} from './index.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Conversion timeouts', () => {
+  beforeEach(() => {
+    resetConversionStats();
+  });
+
+  afterEach(() => {
+    setBackend(undefined);
+  });
+
+  it('should reject with a TimeoutError when the conversion is too slow', async () => {
+    const stub = createStubBackend({ delayMs: 50 });
+    setBackend(stub);
+
+    const promise = convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      timeoutMs: 5,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(TimeoutError);
+    await expect(promise).rejects.toMatchObject({
+      name: 'TimeoutError',
+      code: 'TIMEOUT',
+      timeoutMs: 5,
+      message: 'Conversion timed out after 5 ms',
+    });
+    // The stub conversion was cancelled
+    await wait(60);
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should ignore a late result from a backend without cancellation', async () => {
+    let complete: ((result: OutputImage) => void) | undefined;
+    const backend: ConverterBackend = {
+      convertRaw() {
+        throw new Error('not used');
+      },
+      convertRawAsync(_input, _format, _options, callback) {
+        complete = (result) => callback(null, result);
+      },
+    };
+    const converter = createConverter({ backend });
+
+    const promise = converter.convertRawAsync(
+      '/photos/a.arw',
+      OutputFormat.PNG,
+      {
+        timeoutMs: 1,
+      }
+    );
+
+    await expect(promise).rejects.toMatchObject({ code: 'TIMEOUT' });
+    complete!({ buffer: Buffer.from('late') });
+  });
+
+  it('should resolve conversions that finish in time', async () => {
+    setBackend(createStubBackend());
+
+    const result = await convertRawAsync(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      timeoutMs: 1000,
+    });
+
+    expect(result.buffer.toString('ascii', 1, 4)).toBe('PNG');
+    expect(getConversionStats().timedOut).toBe(0);
+  });
+
+  it('should not start a timer for a backend that calls back synchronously', async () => {
+    const backend: ConverterBackend = {
+      convertRaw() {
+        throw new Error('not used');
+      },
+      convertRawAsync(_input, _format, _options, callback) {
+        callback(null, { buffer: Buffer.from('done') });
+      },
+    };
+    const converter = createConverter({ backend });
+    const controller = new AbortController();
+    const addEventListener = vi.spyOn(controller.signal, 'addEventListener');
+
+    const result = await converter.convertRawAsync(
+      '/photos/a.arw',
+      OutputFormat.PNG,
+      { timeoutMs: 5, signal: controller.signal }
+    );
+
+    expect(result.buffer.toString()).toBe('done');
+    expect(addEventListener).not.toHaveBeenCalled();
+    await wait(20);
+    expect(getConversionStats().timedOut).toBe(0);
+  });
+
+  it('should count timed-out conversions until reset', async () => {
+    setBackend(createStubBackend({ delayMs: 30 }));
+    const options = { inputFormat: 'arw', timeoutMs: 1 } as const;
+
+    await Promise.allSettled([
+      convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, options),
+      convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, options),
+    ]);
+
+    expect(getConversionStats()).toEqual({ timedOut: 2 });
+    resetConversionStats();
+    expect(getConversionStats()).toEqual({ timedOut: 0 });
+  });
+
+  it('should not pass timeoutMs to the backend', async () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+
+    await convertRawAsync(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      timeoutMs: 1000,
+    });
+
+    expect(stub.calls[0].options).toEqual({ inputFormat: 'arw' });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+  type ToneCurvePoint,
+} from './index.js';
+import { createCurve, resolveToneCurve } from './tone-curve.js';
+
+const S_CURVE: ToneCurvePoint[] = [
+  [0, 0],
+  [0.25, 0.18],
+  [0.75, 0.85],
+  [1, 1],
+];
+
+describe('createCurve', () => {
+  it('should pass through the control points', () => {
+    const curve = createCurve(S_CURVE);
+    for (const [input, output] of S_CURVE) {
+      expect(curve(input)).toBeCloseTo(output);
+    }
+  });
+
+  it('should be linear between two points', () => {
+    const curve = createCurve([
+      [0, 0.1],
+      [1, 0.9],
+    ]);
+    expect(curve(0.5)).toBeCloseTo(0.5);
+  });
+
+  it('should never reverse between points', () => {
+    const curve = createCurve([
+      [0, 0],
+      [0.2, 0.5],
+      [0.25, 0.52],
+      [1, 1],
+    ]);
+    let previous = curve(0);
+    for (let i = 1; i <= 100; i++) {
+      const value = curve(i / 100);
+      expect(value).toBeGreaterThanOrEqual(previous);
+      expect(value).toBeLessThanOrEqual(1);
+      previous = value;
+    }
+  });
+
+  it('should hold the end outputs outside the points', () => {
+    const curve = createCurve([
+      [0.1, 0.05],
+      [0.9, 0.95],
+    ]);
+    expect(curve(0)).toBe(0.05);
+    expect(curve(1)).toBe(0.95);
+  });
+});
+
+describe('resolveToneCurve', () => {
+  it('should apply channel curves before the master curve', () => {
+    const [red, green, blue] = resolveToneCurve({
+      master: [
+        [0, 0],
+        [1, 0.5],
+      ],
+      red: [
+        [0, 0.5],
+        [1, 1],
+      ],
+    });
+    expect(red(0)).toBeCloseTo(0.25);
+    expect(green(1)).toBeCloseTo(0.5);
+    expect(blue).toBe(green);
+  });
+});
+
+describe('toneCurve option', () => {
+  it('should apply the curve to RGB output', () => {
+    const converter = createConverter({ backend: createStubBackend() });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.RGB, {
+      inputFormat: 'arw',
+      toneCurve: {
+        red: [
+          [0, 0],
+          [1, 0.5],
+        ],
+      },
+    });
+
+    expect([...result.buffer.subarray(0, 3)]).toEqual([0x40, 0x80, 0x80]);
+  });
+
+  it('should pass the control points to the backend', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      toneCurve: S_CURVE,
+    });
+
+    expect(stub.calls[0].options.toneCurve).toEqual(S_CURVE);
+  });
+
+  it('should validate the control points', () => {
+    expect(validateOptions(OutputFormat.JPEG, { toneCurve: S_CURVE })).toEqual(
+      []
+    );
+
+    const issues = [
+      { toneCurve: [[0, 0]] },
+      {
+        toneCurve: [
+          [0, 0],
+          [0.5, 1.2],
+          [0.4, 0.5],
+          [1, 'x'],
+        ],
+      },
+      { toneCurve: { luma: S_CURVE } },
+    ].flatMap((options) =>
+      validateOptions(OutputFormat.JPEG, options as never)
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'toneCurve must be an array of at least 2 [input, output] points',
+      'toneCurve[1] must be between 0 and 1, got [0.5, 1.2]',
+      "toneCurve[2] input must be greater than the previous point's, got 0.4",
+      'toneCurve[3] must be an [input, output] pair of finite numbers',
+      'toneCurve.luma is not a toneCurve option',
+    ]);
+  });
+});
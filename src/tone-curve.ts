@@ -0,0 +1,85 @@
+import type { ConversionOptions, ToneCurvePoint } from './types.js';
+
+/**
+ * A tone curve as a function from input to output value
+ */
+export type CurveFunction = (value: number) => number;
+
+const IDENTITY: CurveFunction = (value) => value;
+
+/**
+ * Join control points with a monotone cubic spline (Fritsch-Butland), which
+ * passes through every point without overshooting between them, so an
+ * S-curve never reverses. Mirrors MonotoneCurve in raw_converter.mm.
+ * @param points - Control points with strictly increasing inputs
+ * @returns The curve, flat before the first and after the last point
+ */
+export function createCurve(points: readonly ToneCurvePoint[]): CurveFunction {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const last = points.length - 1;
+
+  const widths = xs.slice(1).map((x, k) => x - xs[k]);
+  const slopes = widths.map((width, k) => (ys[k + 1] - ys[k]) / width);
+
+  // Weighted harmonic mean of the neighbouring slopes, or flat at a peak
+  const tangents = xs.map((_, k) => {
+    if (k === 0) {
+      return slopes[0];
+    }
+    if (k === last) {
+      return slopes[last - 1];
+    }
+    const [before, after] = [slopes[k - 1], slopes[k]];
+    if (before * after <= 0) {
+      return 0;
+    }
+    const [h0, h1] = [widths[k - 1], widths[k]];
+    return (3 * (h0 + h1)) / ((2 * h1 + h0) / before + (h1 + 2 * h0) / after);
+  });
+
+  return (value) => {
+    if (value <= xs[0]) {
+      return ys[0];
+    }
+    if (value >= xs[last]) {
+      return ys[last];
+    }
+    let k = 0;
+    while (value > xs[k + 1]) {
+      k++;
+    }
+    // Cubic Hermite basis on the segment
+    const h = widths[k];
+    const t = (value - xs[k]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[k] +
+      (t3 - 2 * t2 + t) * h * tangents[k] +
+      (-2 * t3 + 3 * t2) * ys[k + 1] +
+      (t3 - t2) * h * tangents[k + 1]
+    );
+  };
+}
+
+/**
+ * Resolve the toneCurve option to a curve for each of the red, green and blue
+ * channels, applying the channel curve and then the master curve
+ * @param toneCurve - Master control points, or points per channel
+ * @returns Curves for red, green and blue
+ */
+export function resolveToneCurve(
+  toneCurve: NonNullable<ConversionOptions['toneCurve']>
+): [CurveFunction, CurveFunction, CurveFunction] {
+  const channels = Array.isArray(toneCurve) ? { master: toneCurve } : toneCurve;
+  const master = channels.master ? createCurve(channels.master) : IDENTITY;
+
+  return [channels.red, channels.green, channels.blue].map((points) => {
+    if (!points) {
+      return master;
+    }
+    const channel = createCurve(points);
+    return (value: number) => master(channel(value));
+  }) as [CurveFunction, CurveFunction, CurveFunction];
+}
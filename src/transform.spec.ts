@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+} from './index.js';
+import {
+  straightenedSize,
+  transformedSize,
+  transformOrientation,
+} from './transform.js';
+
+describe('transformOrientation', () => {
+  it('should report 1 once Core Image has applied the orientation', () => {
+    expect(transformOrientation(6, {})).toBe(1);
+    expect(transformOrientation(8, { rotate: 90, flop: true })).toBe(1);
+  });
+
+  it('should keep the source orientation without transforms', () => {
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      expect(
+        transformOrientation(orientation, { ignoreImageOrientation: true })
+      ).toBe(orientation);
+    }
+  });
+
+  it('should keep rotations under a rotate', () => {
+    expect(
+      transformOrientation(6, { ignoreImageOrientation: true, rotate: 90 })
+    ).toBe(6);
+  });
+
+  it('should reverse rotations and swap mirrors under a mirror', () => {
+    const options = { ignoreImageOrientation: true, flop: true };
+    expect(transformOrientation(6, options)).toBe(8);
+    expect(transformOrientation(3, options)).toBe(3);
+    expect(transformOrientation(5, options)).toBe(7);
+    expect(
+      transformOrientation(2, { ignoreImageOrientation: true, rotate: 90 })
+    ).toBe(4);
+  });
+});
+
+describe('straightenedSize', () => {
+  it('should keep the size when the angle is 0', () => {
+    expect(straightenedSize(600, 400, 0)).toEqual({ width: 600, height: 400 });
+  });
+
+  it('should shrink to the largest region with the same aspect ratio', () => {
+    const size = straightenedSize(600, 400, 5);
+    expect(size.width / size.height).toBeCloseTo(1.5, 2);
+    expect(size).toEqual({ width: 532, height: 354 });
+    expect(straightenedSize(600, 400, -5)).toEqual(size);
+  });
+});
+
+describe('transform options', () => {
+  it('should swap the dimensions for quarter turns', () => {
+    expect(transformedSize(600, 400, { rotate: 90 })).toEqual({
+      width: 400,
+      height: 600,
+    });
+    expect(transformedSize(600, 400, { rotate: 180, flip: true })).toEqual({
+      width: 600,
+      height: 400,
+    });
+  });
+
+  it('should report the transformed dimensions and orientation', () => {
+    const converter = createConverter({
+      backend: createStubBackend({
+        width: 600,
+        height: 400,
+        metadata: { orientation: 6 },
+      }),
+    });
+
+    const result = converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      extractMetadata: true,
+      rotate: 270,
+      crop: { left: 0, top: 0, width: 400, height: 300 },
+    });
+
+    expect(result.metadata).toEqual({
+      orientation: 1,
+      width: 400,
+      height: 300,
+      colorSpace: 'srgb',
+    });
+  });
+
+  it('should validate transform options', () => {
+    const issues = validateOptions(OutputFormat.JPEG, {
+      rotate: 45,
+      straighten: 60,
+      flip: 'yes',
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'rotate must be one of: 90, 180, 270',
+      'straighten must be between -45 and 45, got 60',
+      'flip must be a boolean',
+    ]);
+  });
+});
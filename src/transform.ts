@@ -0,0 +1,138 @@
+import type { InternalConversionOptions } from './types.js';
+
+/**
+ * An element of the eight orientations: quarter turns clockwise applied after
+ * an optional left-to-right mirror
+ */
+interface Orientation {
+  turns: number;
+  mirrored: boolean;
+}
+
+// EXIF orientations 1-8 as the transform that displays the stored pixels
+const EXIF_ORIENTATIONS: Orientation[] = [
+  { turns: 0, mirrored: false },
+  { turns: 0, mirrored: true },
+  { turns: 2, mirrored: false },
+  { turns: 2, mirrored: true },
+  { turns: 3, mirrored: true },
+  { turns: 1, mirrored: false },
+  { turns: 1, mirrored: true },
+  { turns: 3, mirrored: false },
+];
+
+// Mirroring reverses the direction of any turn applied before it
+function compose(outer: Orientation, inner: Orientation): Orientation {
+  const turns = outer.mirrored
+    ? outer.turns - inner.turns
+    : outer.turns + inner.turns;
+  return {
+    turns: ((turns % 4) + 4) % 4,
+    mirrored: outer.mirrored !== inner.mirrored,
+  };
+}
+
+function invert(orientation: Orientation): Orientation {
+  // Mirrored orientations are their own inverse
+  return orientation.mirrored
+    ? orientation
+    : { turns: (4 - orientation.turns) % 4, mirrored: false };
+}
+
+/**
+ * The rotate, flip and flop options as a single orientation, in the order
+ * they are applied
+ */
+function userTransform(options: InternalConversionOptions): Orientation {
+  let transform: Orientation = {
+    turns: (options.rotate ?? 0) / 90,
+    mirrored: false,
+  };
+  if (options.flip) {
+    transform = compose({ turns: 2, mirrored: true }, transform);
+  }
+  if (options.flop) {
+    transform = compose({ turns: 0, mirrored: true }, transform);
+  }
+  return transform;
+}
+
+/**
+ * Work out the EXIF orientation of a converted image. Core Image applies the
+ * source orientation unless ignoreImageOrientation is set, leaving 1. With
+ * ignoreImageOrientation the pixels keep their stored orientation and the
+ * transforms are applied to them, so the source orientation is adjusted to
+ * display the result as if the transforms had been applied to the displayed
+ * image. The native addon implements the same rules in OutputOrientation.
+ * @param orientation - EXIF orientation of the source (1-8)
+ * @param options - Conversion options with the transforms
+ * @returns EXIF orientation of the output (1-8)
+ */
+export function transformOrientation(
+  orientation: number,
+  options: InternalConversionOptions
+): number {
+  const source = EXIF_ORIENTATIONS[orientation - 1];
+  if (!options.ignoreImageOrientation || !source) {
+    return 1;
+  }
+
+  const transform = userTransform(options);
+  const result = compose(compose(transform, source), invert(transform));
+  return (
+    EXIF_ORIENTATIONS.findIndex(
+      (candidate) =>
+        candidate.turns === result.turns &&
+        candidate.mirrored === result.mirrored
+    ) + 1
+  );
+}
+
+/**
+ * Work out the size of an image after straightening: the largest centred
+ * region with the original aspect ratio inside the rotated image. The native
+ * addon implements the same rules in StraightenedSize.
+ * @param width - Width of the image in pixels
+ * @param height - Height of the image in pixels
+ * @param degrees - Rotation in degrees
+ * @returns Dimensions of the straightened image in pixels
+ */
+export function straightenedSize(
+  width: number,
+  height: number,
+  degrees: number
+): { width: number; height: number } {
+  const angle = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = Math.min(
+    width / (width * cos + height * sin),
+    height / (width * sin + height * cos)
+  );
+  return {
+    width: Math.max(1, Math.floor(width * scale)),
+    height: Math.max(1, Math.floor(height * scale)),
+  };
+}
+
+/**
+ * Work out the size of a decoded image after the straighten and rotate options
+ * @param width - Width of the decoded image in pixels
+ * @param height - Height of the decoded image in pixels
+ * @param options - Conversion options with the transforms
+ * @returns Dimensions of the transformed image in pixels
+ */
+export function transformedSize(
+  width: number,
+  height: number,
+  options: InternalConversionOptions
+): { width: number; height: number } {
+  let size = { width, height };
+  if (options.straighten) {
+    size = straightenedSize(width, height, options.straighten);
+  }
+  if (options.rotate === 90 || options.rotate === 270) {
+    size = { width: size.height, height: size.width };
+  }
+  return size;
+}
@@ -0,0 +1,572 @@
+/**
+ * Supported output formats for image conversion
+ */
+export enum OutputFormat {
+  JPEG = 'jpeg',
+  JPG = 'jpg',
+  PNG = 'png',
+  TIFF = 'tiff',
+  TIF = 'tif',
+  JPEG2000 = 'jpeg2000',
+  JP2 = 'jp2',
+  HEIF = 'heif',
+  HEIC = 'heic',
+  RGB = 'rgb',
+  RGBA = 'rgba',
+  RGB16 = 'rgb16',
+  RGBF32 = 'rgbf32',
+}
+
+/**
+ * Output formats that return raw pixels instead of an encoded file. Pixels
+ * are sRGB, or linear sRGB for rgbf32, unless the colorSpace option is set.
+ * - rgb: 8-bit
+ * - rgba: 8-bit with an alpha channel
+ * - rgb16: 16-bit
+ * - rgbf32: 32-bit float, keeping values outside 0-1
+ */
+export type RawPixelFormat =
+  | OutputFormat.RGB
+  | OutputFormat.RGBA
+  | OutputFormat.RGB16
+  | OutputFormat.RGBF32;
+
+/**
+ * Typed array over the samples of each raw pixel format
+ */
+export type PixelArrays = {
+  [OutputFormat.RGB]: Uint8Array;
+  [OutputFormat.RGBA]: Uint8Array;
+  [OutputFormat.RGB16]: Uint16Array;
+  [OutputFormat.RGBF32]: Float32Array;
+};
+
+/**
+ * RAW formats accepted as conversion input
+ */
+export type RawInputFormat =
+  | 'arw'
+  | 'dng'
+  | 'cr2'
+  | 'cr3'
+  | 'nef'
+  | 'raf'
+  | 'orf'
+  | 'rw2'
+  | 'pef'
+  | 'srw'
+  | 'x3f'
+  | 'raw';
+
+/**
+ * How resize fits the image to the requested width and height
+ * - inside: scale to fit within both, keeping the aspect ratio
+ * - cover: scale to cover both, then crop the overflow around the centre
+ * - contain: scale to fit within both, then pad to the exact size with black
+ * - fill: scale each axis independently to the exact size
+ */
+export type ResizeFit = 'inside' | 'cover' | 'contain' | 'fill';
+
+/**
+ * Target dimensions of the output image
+ */
+export interface ResizeOptions {
+  /** Target width in pixels */
+  width?: number;
+  /** Target height in pixels */
+  height?: number;
+  /** How the image fits when both width and height are set (default: 'inside') */
+  fit?: ResizeFit;
+  /** Never scale the image up (default: false) */
+  withoutEnlargement?: boolean;
+}
+
+/**
+ * Region to keep, measured from the top-left corner of the image as displayed
+ * (after orientation and transforms are applied). Parts of the region outside
+ * the image are ignored.
+ */
+export interface CropRegion {
+  /** Left edge of the region */
+  left: number;
+  /** Top edge of the region */
+  top: number;
+  /** Width of the region */
+  width: number;
+  /** Height of the region */
+  height: number;
+  /**
+   * Coordinates are fractions (0-1) of the image width and height instead of
+   * pixels of the full-size image (default: false)
+   */
+  normalized?: boolean;
+}
+
+/**
+ * Crop the largest centred region with an aspect ratio
+ */
+export interface AspectRatioCrop {
+  /** Width divided by height, e.g. 16 / 9 */
+  aspectRatio: number;
+}
+
+/**
+ * Region of the image to keep
+ */
+export type CropOptions = CropRegion | AspectRatioCrop;
+
+/**
+ * Color space of the output pixels, embedded as an ICC profile in encoded
+ * formats
+ * - srgb: standard web and display space
+ * - display-p3: wide gamut space of recent Apple displays
+ * - adobe-rgb: Adobe RGB (1998), common for print
+ * - prophoto: ProPhoto RGB (ROMM RGB), a very wide gamut editing space
+ * - linear-srgb: sRGB primaries without the transfer curve
+ * - rec2020: ITU-R BT.2020 wide gamut video space
+ */
+export type ColorSpace =
+  | 'srgb'
+  | 'display-p3'
+  | 'adobe-rgb'
+  | 'prophoto'
+  | 'linear-srgb'
+  | 'rec2020';
+
+/**
+ * Named white balance, as temperature (Kelvin) and tint
+ * - as-shot: the white balance recorded by the camera
+ * - daylight: 5500 K, tint +10
+ * - cloudy: 6500 K, tint +10
+ * - shade: 7500 K, tint +10
+ * - tungsten: 2850 K, tint 0
+ * - fluorescent: 3800 K, tint +21
+ * - flash: 5500 K, tint 0
+ */
+export type WhiteBalancePreset =
+  | 'as-shot'
+  | 'daylight'
+  | 'cloudy'
+  | 'shade'
+  | 'tungsten'
+  | 'fluorescent'
+  | 'flash';
+
+/**
+ * Custom white balance
+ */
+export interface WhiteBalanceSetting {
+  /** Color temperature of the light in Kelvin */
+  temperature: number;
+  /** Green (negative) to magenta (positive) shift (default: 0) */
+  tint?: number;
+}
+
+/**
+ * A tone curve control point: [input, output], both from 0 (black) to 1
+ * (white)
+ */
+export type ToneCurvePoint = [input: number, output: number];
+
+/**
+ * Tone curves for the individual channels and the master curve. The channel
+ * curves are applied first, then the master curve to all three channels.
+ */
+export interface ToneCurveChannels {
+  master?: ToneCurvePoint[];
+  red?: ToneCurvePoint[];
+  green?: ToneCurvePoint[];
+  blue?: ToneCurvePoint[];
+}
+
+/**
+ * How colors between the entries of a 3D LUT are interpolated
+ * - trilinear: from the eight corners of the enclosing cell
+ * - tetrahedral: from the four corners of the tetrahedron enclosing the
+ *   color, which keeps neutrals neutral and is smoother along the grey axis
+ */
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+/**
+ * A .cube LUT (Adobe or DaVinci Resolve format) applied to the rendered image
+ */
+export interface LutOptions {
+  /** Path to the .cube file */
+  path?: string;
+  /** Contents of the .cube file */
+  buffer?: Buffer;
+  /** Blend from the original (0) to the graded image (1) (default: 1) */
+  strength?: number;
+  /** Interpolation of 3D LUTs (default: 'tetrahedral') */
+  interpolation?: LutInterpolation;
+}
+
+/**
+ * How auto white balance finds the neutral color of the draft
+ * - grey-world: the average of the image, leaving out clipped pixels
+ * - white-patch: the average of the brightest unclipped pixels
+ */
+export type AutoWhiteBalanceMethod = 'grey-world' | 'white-patch';
+
+/**
+ * Adjustments estimated from a draft render before converting
+ */
+export interface AutoAdjustOptions {
+  /**
+   * Estimate neutralTemperature and neutralTint so the neutral of the image
+   * renders grey; true uses grey-world (default: false)
+   */
+  whiteBalance?: boolean | AutoWhiteBalanceMethod;
+  /** Estimate exposure so the mid-tones average middle grey (default: false) */
+  exposure?: boolean;
+}
+
+/**
+ * Quality settings for JPEG formats
+ */
+export interface JpegQualityOptions {
+  /** Compression quality (0.0-1.0, where 1.0 is highest quality) */
+  quality?: number;
+  /** Enable thumbnail embedding (default: false) */
+  embedThumbnail?: boolean;
+  /** Optimize color for sharing; ignored when colorSpace is set (default: false) */
+  optimizeColorForSharing?: boolean;
+}
+
+/**
+ * Quality settings for HEIF/HEIC formats
+ */
+export interface HeifQualityOptions {
+  /** Compression quality (0.0-1.0, where 1.0 is highest quality) */
+  quality?: number;
+  /** Enable thumbnail embedding (default: false) */
+  embedThumbnail?: boolean;
+  /** Optimize color for sharing; ignored when colorSpace is set (default: false) */
+  optimizeColorForSharing?: boolean;
+}
+
+/**
+ * Quality settings for JPEG2000 formats
+ */
+export interface Jpeg2000QualityOptions {
+  /** Compression quality (0.0-1.0, where 1.0 is highest quality) */
+  quality?: number;
+  /** Optimize color for sharing; ignored when colorSpace is set (default: false) */
+  optimizeColorForSharing?: boolean;
+}
+
+/**
+ * Quality settings for PNG format (lossless)
+ */
+export interface PngQualityOptions {
+  /** Optimize color for sharing; ignored when colorSpace is set (default: false) */
+  optimizeColorForSharing?: boolean;
+}
+
+/**
+ * Quality settings for TIFF format (lossless)
+ */
+export interface TiffQualityOptions {
+  /** Optimize color for sharing; ignored when colorSpace is set (default: false) */
+  optimizeColorForSharing?: boolean;
+}
+
+/**
+ * Quality settings for the raw pixel formats (RGB, RGBA, RGB16 and RGBF32)
+ */
+export interface RgbQualityOptions {
+  /** No options for raw pixel formats */
+}
+
+/**
+ * Image metadata extracted from RAW files using Core Image
+ */
+export interface ImageMetadata {
+  /** Image width in pixels */
+  width?: number;
+  /** Image height in pixels */
+  height?: number;
+  /** 35mm equivalent focal length in mm */
+  focalLength35mm?: number;
+  /** Actual focal length in mm */
+  focalLength?: number;
+  /** Shutter speed in seconds (e.g., 0.008 for 1/125s) */
+  shutterSpeed?: number;
+  /** F-number (aperture) */
+  fNumber?: number;
+  /** ISO speed rating */
+  iso?: number;
+  /** Exposure bias in EV */
+  exposureBias?: number;
+  /** Exposure mode (0=auto, 1=manual, 2=auto bracket) */
+  exposureMode?: number;
+  /** White balance mode (0=auto, 1=manual) */
+  whiteBalance?: number;
+  /** Camera make */
+  cameraMake?: string;
+  /** Camera model */
+  cameraModel?: string;
+  /** Lens make */
+  lensMake?: string;
+  /** Lens model */
+  lensModel?: string;
+  /** Original capture date/time (EXIF format: "YYYY:MM:DD HH:MM:SS") */
+  dateTimeOriginal?: string;
+  /** Software used to process the image */
+  software?: string;
+  /**
+   * Image orientation (1-8, EXIF orientation values). For converted images
+   * this is the orientation a viewer should apply to the output pixels: 1
+   * once Core Image has applied it, or the source orientation adjusted for
+   * any transforms when ignoreImageOrientation is set.
+   */
+  orientation?: number;
+  /** GPS latitude in decimal degrees (negative for South) */
+  latitude?: number;
+  /** GPS longitude in decimal degrees (negative for West) */
+  longitude?: number;
+  /** GPS altitude in meters */
+  altitude?: number;
+  /**
+   * Color space of a converted image's pixels, matching its embedded ICC
+   * profile. Not set by readMetadata.
+   */
+  colorSpace?: ColorSpace;
+}
+
+/**
+ * Pixel layout of raw bitmap output. Samples wider than a byte are in the
+ * platform's native byte order.
+ */
+export interface RawImageDescriptor {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Interleaved channels per pixel, in RGB or RGBA order */
+  channels: 3 | 4;
+  /** Bits per channel */
+  bitDepth: 8 | 16 | 32;
+  /** Unsigned integer samples, or floats for RGBF32 */
+  sampleFormat: 'uint' | 'float';
+  /** Bytes from the start of one row to the start of the next */
+  stride: number;
+  /** Color space of the pixel values; float values may fall outside 0-1 */
+  colorSpace: ColorSpace;
+}
+
+/**
+ * Output image with buffer and optional metadata
+ */
+export interface OutputImage<F extends OutputFormat = OutputFormat> {
+  /** Image buffer containing the converted data */
+  buffer: Buffer;
+  /** Image metadata (only populated if extractMetadata option is enabled) */
+  metadata?: ImageMetadata;
+  /** Pixel layout of the buffer, for raw pixel formats */
+  raw?: RawImageDescriptor;
+  /** Typed view of the samples in buffer, for raw pixel formats */
+  pixels?: F extends RawPixelFormat ? PixelArrays[F] : never;
+}
+
+/**
+ * Mapping from format to format-specific quality options
+ */
+export type FormatQualityOptions = {
+  [OutputFormat.JPEG]: JpegQualityOptions;
+  [OutputFormat.JPG]: JpegQualityOptions;
+  [OutputFormat.HEIF]: HeifQualityOptions;
+  [OutputFormat.HEIC]: HeifQualityOptions;
+  [OutputFormat.JPEG2000]: Jpeg2000QualityOptions;
+  [OutputFormat.JP2]: Jpeg2000QualityOptions;
+  [OutputFormat.PNG]: PngQualityOptions;
+  [OutputFormat.TIFF]: TiffQualityOptions;
+  [OutputFormat.TIF]: TiffQualityOptions;
+  [OutputFormat.RGB]: RgbQualityOptions;
+  [OutputFormat.RGBA]: RgbQualityOptions;
+  [OutputFormat.RGB16]: RgbQualityOptions;
+  [OutputFormat.RGBF32]: RgbQualityOptions;
+};
+
+/**
+ * One output of a multi-output conversion, with quality options typed for its format
+ */
+export type Rendition = {
+  [F in OutputFormat]: {
+    format: F;
+    /** Format-specific quality options for this output */
+    options?: FormatQualityOptions[F];
+    /** Scale relative to the decoded image (default: 1.0) */
+    scale?: number;
+  };
+}[OutputFormat];
+
+/**
+ * Configuration options for RAW image conversion
+ */
+export interface ConversionOptions {
+  /** Enable vendor lens correction (default: true) */
+  lensCorrection?: boolean;
+
+  /** Exposure adjustment in EV stops (default: 0.0) */
+  exposure?: number;
+
+  /** Boost amount (0.0-1.0, where 0 is linear response) (default: 1.0) */
+  boost?: number;
+
+  /** Amount to boost shadow areas (default: 0.0) */
+  boostShadowAmount?: number;
+
+  /** Baseline exposure adjustment (default: 0.0) */
+  baselineExposure?: number;
+
+  /** Color temperature in Kelvin for neutral white */
+  neutralTemperature?: number;
+
+  /** Tint adjustment for neutral white */
+  neutralTint?: number;
+
+  /**
+   * White balance as a preset or a custom temperature and tint. Replaces
+   * neutralTemperature and neutralTint when set.
+   */
+  whiteBalance?: WhiteBalancePreset | WhiteBalanceSetting;
+
+  /**
+   * Render a small draft first and estimate white balance and exposure from
+   * it. The estimated white balance replaces whiteBalance, neutralTemperature
+   * and neutralTint; the estimated exposure change is added to exposure.
+   */
+  autoAdjust?: AutoAdjustOptions;
+
+  /** Disable gamut mapping (default: false) */
+  disableGamutMap?: boolean;
+
+  /** Allow draft mode rendering for faster processing (default: false) */
+  allowDraftMode?: boolean;
+
+  /** Ignore image orientation metadata (default: false) */
+  ignoreImageOrientation?: boolean;
+
+  /** Amount of chroma noise reduction (0.0-1.0) */
+  colorNoiseReductionAmount?: number;
+
+  /** Amount of luminance noise reduction (0.0-1.0) */
+  luminanceNoiseReductionAmount?: number;
+
+  /** Amount of local contrast for edges */
+  contrastAmount?: number;
+
+  /** Amount of sharpness for edges */
+  sharpnessAmount?: number;
+
+  /** Amount of noise reduction */
+  noiseReductionAmount?: number;
+
+  /** Amount of local tone curve (macOS 11.1+) */
+  localToneMapAmount?: number;
+
+  /**
+   * Tone curve applied to the rendered pixels before encoding, as the control
+   * points of the master curve or of individual channels. Points are joined
+   * by a smooth curve that never reverses direction between them, and inputs
+   * outside the first and last points keep their outputs. Values are those
+   * encoded in the output color space.
+   */
+  toneCurve?: ToneCurvePoint[] | ToneCurveChannels;
+
+  /**
+   * 1D or 3D .cube LUT applied to the rendered pixels before encoding, after
+   * toneCurve. Values are those encoded in the output color space.
+   */
+  lut?: LutOptions;
+
+  /** Scale factor for output image (default: 1.0) */
+  scaleFactor?: number;
+
+  /**
+   * Straighten the image by rotating it clockwise by this many degrees
+   * (-45 to 45), then cropping to the largest centred region with the
+   * original aspect ratio. Applied before rotate.
+   */
+  straighten?: number;
+
+  /** Rotate the image clockwise by this many degrees, after the EXIF orientation */
+  rotate?: 90 | 180 | 270;
+
+  /** Mirror the image top to bottom, after rotate (default: false) */
+  flip?: boolean;
+
+  /** Mirror the image left to right, after rotate (default: false) */
+  flop?: boolean;
+
+  /**
+   * Color space to render into. Encoded formats embed its ICC profile and
+   * raw pixel formats return values in it. When omitted, output is sRGB,
+   * or linear sRGB for RGBF32.
+   */
+  colorSpace?: ColorSpace;
+
+  /**
+   * Crop the image. Applied after orientation and the straighten, rotate,
+   * flip and flop transforms, so coordinates match the image as displayed,
+   * and before resize.
+   */
+  crop?: CropOptions;
+
+  /**
+   * Resize the output to target dimensions. Applied to the image decoded at
+   * scaleFactor; the RAW decoder does as much of the downscaling as it can.
+   */
+  resize?: ResizeOptions;
+
+  /** Preserve EXIF metadata from the original RAW file (default: true) */
+  preserveExifData?: boolean;
+
+  /** Extract and include image metadata in the output (default: false) */
+  extractMetadata?: boolean;
+
+  /**
+   * Input RAW format. Detected from the data when omitted for a Buffer; for
+   * file paths it overrides the file extension.
+   */
+  inputFormat?: RawInputFormat;
+
+  /**
+   * Throw a RawConvertError with code INVALID_OPTIONS when validateOptions
+   * reports issues, instead of emitting a warning (default: false)
+   */
+  strict?: boolean;
+
+  /**
+   * Cancels an async conversion when aborted. The promise rejects with an
+   * AbortError and the result is discarded.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Reject an async conversion with a TimeoutError after this many
+   * milliseconds. The native worker is cancelled and a late result is ignored.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options passed to a conversion backend: conversion options combined with quality options
+ */
+export interface InternalConversionOptions extends ConversionOptions {
+  quality?: number;
+  embedThumbnail?: boolean;
+  optimizeColorForSharing?: boolean;
+  preserveExifData?: boolean;
+  extractMetadata?: boolean;
+}
+
+/**
+ * A rendition passed to a conversion backend, with the shared options merged in
+ */
+export interface InternalRendition {
+  format: OutputFormat;
+  options: InternalConversionOptions;
+  scale: number;
+}
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  convertRaw,
+  convertRawAsync,
+  createStubBackend,
+  OutputFormat,
+  RawConvertError,
+  setBackend,
+  validateOptions,
+} from './index.js';
+
+describe('validateOptions', () => {
+  it('should accept valid options', () => {
+    expect(
+      validateOptions(OutputFormat.JPEG, {
+        inputFormat: 'arw',
+        boost: 0.5,
+        exposure: -1.5,
+        scaleFactor: 0.25,
+        quality: 0.9,
+        embedThumbnail: true,
+        lensCorrection: false,
+        strict: true,
+      })
+    ).toEqual([]);
+    expect(validateOptions(OutputFormat.PNG, undefined)).toEqual([]);
+    expect(validateOptions(OutputFormat.PNG, { boost: undefined })).toEqual([]);
+  });
+
+  it('should report values outside the documented ranges', () => {
+    const issues = validateOptions(OutputFormat.JPEG, {
+      boost: 1.5,
+      colorNoiseReductionAmount: -0.1,
+      quality: 2,
+      scaleFactor: 0,
+      neutralTemperature: -5000,
+      timeoutMs: 2 ** 31,
+    });
+
+    expect(issues.map((issue) => [issue.code, issue.key])).toEqual([
+      ['OUT_OF_RANGE', 'boost'],
+      ['OUT_OF_RANGE', 'colorNoiseReductionAmount'],
+      ['OUT_OF_RANGE', 'quality'],
+      ['OUT_OF_RANGE', 'scaleFactor'],
+      ['OUT_OF_RANGE', 'neutralTemperature'],
+      ['OUT_OF_RANGE', 'timeoutMs'],
+    ]);
+    expect(issues[0].message).toBe('boost must be between 0 and 1, got 1.5');
+    expect(issues[3].message).toBe('scaleFactor must be greater than 0, got 0');
+  });
+
+  it('should report values of the wrong type', () => {
+    const issues = validateOptions(OutputFormat.TIFF, {
+      exposure: '1',
+      boost: NaN,
+      lensCorrection: 1,
+      inputFormat: 'bmp',
+      colorSpace: 'cmyk',
+    });
+
+    expect(issues.map((issue) => [issue.code, issue.key])).toEqual([
+      ['WRONG_TYPE', 'exposure'],
+      ['WRONG_TYPE', 'boost'],
+      ['WRONG_TYPE', 'lensCorrection'],
+      ['WRONG_TYPE', 'inputFormat'],
+      ['WRONG_TYPE', 'colorSpace'],
+    ]);
+  });
+
+  it('should report unknown keys', () => {
+    expect(validateOptions(OutputFormat.JPEG, { exposre: 1 })).toEqual([
+      {
+        code: 'UNKNOWN_KEY',
+        key: 'exposre',
+        message: 'exposre is not a conversion option',
+      },
+    ]);
+  });
+
+  it('should report quality options the format does not support', () => {
+    expect(validateOptions(OutputFormat.PNG, { quality: 0.8 })).toEqual([
+      {
+        code: 'UNSUPPORTED_FOR_FORMAT',
+        key: 'quality',
+        message: 'quality is not supported for png output',
+      },
+    ]);
+    expect(
+      validateOptions(OutputFormat.JPEG2000, { embedThumbnail: true })
+    ).toHaveLength(1);
+    expect(
+      validateOptions(OutputFormat.RGB, { optimizeColorForSharing: true })
+    ).toHaveLength(1);
+    expect(validateOptions(OutputFormat.JP2, { quality: 0.8 })).toEqual([]);
+  });
+
+  it('should report options that are not an object', () => {
+    expect(validateOptions(OutputFormat.JPEG, 'fast')).toEqual([
+      { code: 'WRONG_TYPE', key: '', message: 'Options must be an object' },
+    ]);
+  });
+});
+
+describe('option validation during conversion', () => {
+  afterEach(() => {
+    setBackend(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('should warn and still convert by default', () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+    const emitWarning = vi
+      .spyOn(process, 'emitWarning')
+      .mockImplementation(() => {});
+
+    convertRaw(Buffer.from('raw'), OutputFormat.PNG, {
+      inputFormat: 'arw',
+      boost: 2,
+      quality: 0.5,
+    } as any);
+
+    expect(emitWarning).toHaveBeenCalledWith(
+      'Invalid conversion options: boost must be between 0 and 1, got 2; quality is not supported for png output',
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+    expect(stub.calls).toHaveLength(1);
+  });
+
+  it('should throw INVALID_OPTIONS in strict mode', () => {
+    const stub = createStubBackend();
+    setBackend(stub);
+
+    let error: unknown;
+    try {
+      convertRaw('/photos/a.arw', OutputFormat.JPEG, {
+        boost: 2,
+        strict: true,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RawConvertError);
+    expect(error).toMatchObject({
+      code: 'INVALID_OPTIONS',
+      format: 'jpeg',
+      issues: [{ code: 'OUT_OF_RANGE', key: 'boost' }],
+    });
+    expect(stub.calls).toHaveLength(0);
+  });
+
+  it('should reject async conversions in strict mode', async () => {
+    setBackend(createStubBackend());
+
+    await expect(
+      convertRawAsync('/photos/a.arw', OutputFormat.JPEG, {
+        exposure: Infinity,
+        strict: true,
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+  });
+});
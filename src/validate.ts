@@ -0,0 +1,655 @@
+import {
+  OutputFormat,
+  type InternalConversionOptions,
+  type RawInputFormat,
+  type Rendition,
+} from './types.js';
+
+/**
+ * Kind of problem found in conversion options
+ */
+export type OptionIssueCode =
+  /** Number outside the documented range */
+  | 'OUT_OF_RANGE'
+  /** Value of the wrong type, or a non-finite number */
+  | 'WRONG_TYPE'
+  /** Key that is not a conversion option */
+  | 'UNKNOWN_KEY'
+  /** Quality option that the output format does not use */
+  | 'UNSUPPORTED_FOR_FORMAT';
+
+/**
+ * A problem found in conversion options
+ */
+export interface OptionIssue {
+  code: OptionIssueCode;
+  /** Option key, or an empty string when the options themselves are invalid */
+  key: string;
+  message: string;
+}
+
+type OptionRule =
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'buffer' }
+  | {
+      type: 'number';
+      min?: number;
+      max?: number;
+      exclusiveMin?: boolean;
+      integer?: boolean;
+    }
+  | { type: 'enum'; values: readonly (string | number | boolean)[] }
+  | { type: 'signal' }
+  | ObjectRule
+  | {
+      type: 'preset';
+      /** Named values */
+      values: readonly string[];
+      /** Rule for a custom value given as an object instead of a name */
+      custom: ObjectRule;
+    }
+  | {
+      type: 'curve';
+      /** Rule for curves per channel given as an object instead of points */
+      channels?: ObjectRule;
+    };
+
+type ObjectRule = {
+  type: 'object';
+  properties: Record<string, OptionRule>;
+  /** At least one of these properties must be set */
+  requireOneOf?: string[];
+  /** Checks across properties, run once every property is valid */
+  check?: (key: string, value: Record<string, unknown>) => OptionIssue[];
+};
+
+const RAW_INPUT_FORMATS: Record<RawInputFormat, true> = {
+  arw: true,
+  dng: true,
+  cr2: true,
+  cr3: true,
+  nef: true,
+  raf: true,
+  orf: true,
+  rw2: true,
+  pef: true,
+  srw: true,
+  x3f: true,
+  raw: true,
+};
+
+// Longest delay setTimeout accepts; longer ones fire at once
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const OPTION_RULES: Record<keyof InternalConversionOptions, OptionRule> = {
+  lensCorrection: { type: 'boolean' },
+  exposure: { type: 'number' },
+  boost: { type: 'number', min: 0, max: 1 },
+  boostShadowAmount: { type: 'number', min: 0 },
+  baselineExposure: { type: 'number' },
+  neutralTemperature: { type: 'number', min: 0, exclusiveMin: true },
+  neutralTint: { type: 'number' },
+  whiteBalance: {
+    type: 'preset',
+    values: [
+      'as-shot',
+      'daylight',
+      'cloudy',
+      'shade',
+      'tungsten',
+      'fluorescent',
+      'flash',
+    ],
+    custom: {
+      type: 'object',
+      properties: {
+        temperature: { type: 'number', min: 0, exclusiveMin: true },
+        tint: { type: 'number' },
+      },
+      requireOneOf: ['temperature'],
+    },
+  },
+  autoAdjust: {
+    type: 'object',
+    properties: {
+      whiteBalance: {
+        type: 'enum',
+        values: [true, false, 'grey-world', 'white-patch'],
+      },
+      exposure: { type: 'boolean' },
+    },
+  },
+  disableGamutMap: { type: 'boolean' },
+  allowDraftMode: { type: 'boolean' },
+  ignoreImageOrientation: { type: 'boolean' },
+  colorNoiseReductionAmount: { type: 'number', min: 0, max: 1 },
+  luminanceNoiseReductionAmount: { type: 'number', min: 0, max: 1 },
+  contrastAmount: { type: 'number' },
+  sharpnessAmount: { type: 'number' },
+  noiseReductionAmount: { type: 'number', min: 0, max: 1 },
+  localToneMapAmount: { type: 'number' },
+  toneCurve: {
+    type: 'curve',
+    channels: {
+      type: 'object',
+      properties: {
+        master: { type: 'curve' },
+        red: { type: 'curve' },
+        green: { type: 'curve' },
+        blue: { type: 'curve' },
+      },
+    },
+  },
+  lut: {
+    type: 'object',
+    properties: {
+      path: { type: 'string' },
+      buffer: { type: 'buffer' },
+      strength: { type: 'number', min: 0, max: 1 },
+      interpolation: { type: 'enum', values: ['trilinear', 'tetrahedral'] },
+    },
+    requireOneOf: ['path', 'buffer'],
+    check: checkLut,
+  },
+  scaleFactor: { type: 'number', min: 0, exclusiveMin: true },
+  straighten: { type: 'number', min: -45, max: 45 },
+  rotate: { type: 'enum', values: [90, 180, 270] },
+  flip: { type: 'boolean' },
+  flop: { type: 'boolean' },
+  colorSpace: {
+    type: 'enum',
+    values: [
+      'srgb',
+      'display-p3',
+      'adobe-rgb',
+      'prophoto',
+      'linear-srgb',
+      'rec2020',
+    ],
+  },
+  resize: {
+    type: 'object',
+    properties: {
+      width: { type: 'number', min: 0, exclusiveMin: true, integer: true },
+      height: { type: 'number', min: 0, exclusiveMin: true, integer: true },
+      fit: { type: 'enum', values: ['inside', 'cover', 'contain', 'fill'] },
+      withoutEnlargement: { type: 'boolean' },
+    },
+    requireOneOf: ['width', 'height'],
+  },
+  crop: {
+    type: 'object',
+    properties: {
+      left: { type: 'number', min: 0 },
+      top: { type: 'number', min: 0 },
+      width: { type: 'number', min: 0, exclusiveMin: true },
+      height: { type: 'number', min: 0, exclusiveMin: true },
+      normalized: { type: 'boolean' },
+      aspectRatio: { type: 'number', min: 0, exclusiveMin: true },
+    },
+    check: checkCrop,
+  },
+  preserveExifData: { type: 'boolean' },
+  extractMetadata: { type: 'boolean' },
+  inputFormat: { type: 'enum', values: Object.keys(RAW_INPUT_FORMATS) },
+  strict: { type: 'boolean' },
+  signal: { type: 'signal' },
+  timeoutMs: {
+    type: 'number',
+    min: 0,
+    exclusiveMin: true,
+    max: MAX_TIMEOUT_MS,
+  },
+  quality: { type: 'number', min: 0, max: 1 },
+  embedThumbnail: { type: 'boolean' },
+  optimizeColorForSharing: { type: 'boolean' },
+};
+
+// Quality options accepted by each output format (see FormatQualityOptions)
+const JPEG_OPTIONS = ['quality', 'embedThumbnail', 'optimizeColorForSharing'];
+const LOSSLESS_OPTIONS = ['optimizeColorForSharing'];
+
+const FORMAT_OPTIONS: Record<OutputFormat, string[]> = {
+  [OutputFormat.JPEG]: JPEG_OPTIONS,
+  [OutputFormat.JPG]: JPEG_OPTIONS,
+  [OutputFormat.HEIF]: JPEG_OPTIONS,
+  [OutputFormat.HEIC]: JPEG_OPTIONS,
+  [OutputFormat.JPEG2000]: ['quality', 'optimizeColorForSharing'],
+  [OutputFormat.JP2]: ['quality', 'optimizeColorForSharing'],
+  [OutputFormat.PNG]: LOSSLESS_OPTIONS,
+  [OutputFormat.TIFF]: LOSSLESS_OPTIONS,
+  [OutputFormat.TIF]: LOSSLESS_OPTIONS,
+  [OutputFormat.RGB]: [],
+  [OutputFormat.RGBA]: [],
+  [OutputFormat.RGB16]: [],
+  [OutputFormat.RGBF32]: [],
+};
+
+const FORMAT_SPECIFIC_OPTIONS = new Set(Object.values(FORMAT_OPTIONS).flat());
+
+/**
+ * Check whether an option can be set per rendition. Renditions only carry
+ * quality options; the rest apply to the shared decode.
+ */
+export function isRenditionOption(key: string): boolean {
+  return FORMAT_SPECIFIC_OPTIONS.has(key);
+}
+
+const SCALE_RULE: OptionRule = { type: 'number', min: 0, exclusiveMin: true };
+
+/**
+ * Check a single option value against its rule
+ */
+function checkValue(
+  key: string,
+  value: unknown,
+  rule: OptionRule
+): OptionIssue[] {
+  if (rule.type === 'boolean') {
+    return typeof value === 'boolean'
+      ? []
+      : [{ code: 'WRONG_TYPE', key, message: `${key} must be a boolean` }];
+  }
+
+  if (rule.type === 'string') {
+    return typeof value === 'string'
+      ? []
+      : [{ code: 'WRONG_TYPE', key, message: `${key} must be a string` }];
+  }
+
+  if (rule.type === 'buffer') {
+    return Buffer.isBuffer(value)
+      ? []
+      : [{ code: 'WRONG_TYPE', key, message: `${key} must be a Buffer` }];
+  }
+
+  if (rule.type === 'signal') {
+    return value instanceof AbortSignal
+      ? []
+      : [{ code: 'WRONG_TYPE', key, message: `${key} must be an AbortSignal` }];
+  }
+
+  if (rule.type === 'enum') {
+    return (typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean') &&
+      rule.values.includes(value)
+      ? []
+      : [
+          {
+            code: 'WRONG_TYPE',
+            key,
+            message: `${key} must be one of: ${rule.values.join(', ')}`,
+          },
+        ];
+  }
+
+  if (rule.type === 'object') {
+    return checkObject(key, value, rule);
+  }
+
+  if (rule.type === 'preset') {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      return checkObject(key, value, rule.custom);
+    }
+    return typeof value === 'string' && rule.values.includes(value)
+      ? []
+      : [
+          {
+            code: 'WRONG_TYPE',
+            key,
+            message: `${key} must be one of: ${rule.values.join(', ')}, or an object`,
+          },
+        ];
+  }
+
+  if (rule.type === 'curve') {
+    if (
+      rule.channels &&
+      value !== null &&
+      typeof value === 'object' &&
+      !Array.isArray(value)
+    ) {
+      return checkObject(key, value, rule.channels);
+    }
+    return checkCurve(key, value);
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return [
+      {
+        code: 'WRONG_TYPE',
+        key,
+        message: `${key} must be a finite number`,
+      },
+    ];
+  }
+
+  if (rule.integer && !Number.isInteger(value)) {
+    return [
+      {
+        code: 'WRONG_TYPE',
+        key,
+        message: `${key} must be an integer, got ${value}`,
+      },
+    ];
+  }
+
+  const { min, max, exclusiveMin } = rule;
+  const belowMin =
+    min !== undefined && (exclusiveMin ? value <= min : value < min);
+  const aboveMax = max !== undefined && value > max;
+  if (belowMin || aboveMax) {
+    const range =
+      max === undefined
+        ? exclusiveMin
+          ? `greater than ${min}`
+          : `at least ${min}`
+        : `between ${min} and ${max}`;
+    return [
+      {
+        code: 'OUT_OF_RANGE',
+        key,
+        message: `${key} must be ${range}, got ${value}`,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Check the properties of an object-valued option, keyed as option.property
+ */
+function checkObject(
+  key: string,
+  value: unknown,
+  rule: ObjectRule
+): OptionIssue[] {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ code: 'WRONG_TYPE', key, message: `${key} must be an object` }];
+  }
+
+  const issues: OptionIssue[] = [];
+  for (const [property, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+
+    const propertyKey = `${key}.${property}`;
+    const propertyRule = rule.properties[property];
+    if (!propertyRule) {
+      issues.push({
+        code: 'UNKNOWN_KEY',
+        key: propertyKey,
+        message: `${propertyKey} is not a ${key} option`,
+      });
+      continue;
+    }
+    issues.push(...checkValue(propertyKey, propertyValue, propertyRule));
+  }
+
+  const required = rule.requireOneOf;
+  if (
+    required &&
+    required.every(
+      (property) => (value as Record<string, unknown>)[property] === undefined
+    )
+  ) {
+    issues.push({
+      code: 'WRONG_TYPE',
+      key,
+      message: `${key} must set ${required.join(' or ')}`,
+    });
+  }
+
+  if (rule.check && issues.length === 0) {
+    issues.push(...rule.check(key, value as Record<string, unknown>));
+  }
+
+  return issues;
+}
+
+/**
+ * Check that a curve is at least two [input, output] points from 0 to 1, with
+ * increasing inputs
+ */
+function checkCurve(key: string, value: unknown): OptionIssue[] {
+  if (!Array.isArray(value) || value.length < 2) {
+    return [
+      {
+        code: 'WRONG_TYPE',
+        key,
+        message: `${key} must be an array of at least 2 [input, output] points`,
+      },
+    ];
+  }
+
+  const issues: OptionIssue[] = [];
+  let previous = -Infinity;
+  for (const [index, point] of value.entries()) {
+    const pointKey = `${key}[${index}]`;
+    if (
+      !Array.isArray(point) ||
+      point.length !== 2 ||
+      !point.every((n) => typeof n === 'number' && Number.isFinite(n))
+    ) {
+      issues.push({
+        code: 'WRONG_TYPE',
+        key: pointKey,
+        message: `${pointKey} must be an [input, output] pair of finite numbers`,
+      });
+      continue;
+    }
+
+    const [input, output] = point as [number, number];
+    if (input < 0 || input > 1 || output < 0 || output > 1) {
+      issues.push({
+        code: 'OUT_OF_RANGE',
+        key: pointKey,
+        message: `${pointKey} must be between 0 and 1, got [${input}, ${output}]`,
+      });
+    } else if (input <= previous) {
+      issues.push({
+        code: 'OUT_OF_RANGE',
+        key: pointKey,
+        message: `${pointKey} input must be greater than the previous point's, got ${input}`,
+      });
+    }
+    previous = input;
+  }
+  return issues;
+}
+
+/**
+ * Check that a LUT is read from either a path or a buffer
+ */
+function checkLut(key: string, lut: Record<string, unknown>): OptionIssue[] {
+  return lut.path !== undefined && lut.buffer !== undefined
+    ? [
+        {
+          code: 'WRONG_TYPE',
+          key,
+          message: `${key} must set either path or buffer, not both`,
+        },
+      ]
+    : [];
+}
+
+const CROP_REGION_KEYS = ['left', 'top', 'width', 'height'] as const;
+
+/**
+ * Check that a crop sets either a whole region or an aspect ratio, and that a
+ * normalized region fits in the image
+ */
+function checkCrop(key: string, crop: Record<string, unknown>): OptionIssue[] {
+  const regionKeys = CROP_REGION_KEYS.filter(
+    (property) => crop[property] !== undefined
+  );
+
+  if (crop.aspectRatio !== undefined) {
+    return regionKeys.length > 0 || crop.normalized !== undefined
+      ? [
+          {
+            code: 'WRONG_TYPE',
+            key,
+            message: `${key} must set either aspectRatio or a region, not both`,
+          },
+        ]
+      : [];
+  }
+
+  if (regionKeys.length < CROP_REGION_KEYS.length) {
+    return [
+      {
+        code: 'WRONG_TYPE',
+        key,
+        message: `${key} must set left, top, width and height, or aspectRatio`,
+      },
+    ];
+  }
+
+  if (!crop.normalized) {
+    return [];
+  }
+
+  const issues: OptionIssue[] = [];
+  for (const [start, size] of [
+    ['left', 'width'],
+    ['top', 'height'],
+  ] as const) {
+    const end = (crop[start] as number) + (crop[size] as number);
+    // Allow for rounding in sums such as 0.7 + 0.3
+    if (end > 1 + 1e-9) {
+      issues.push({
+        code: 'OUT_OF_RANGE',
+        key: `${key}.${size}`,
+        message: `${key}.${start} + ${key}.${size} must be at most 1 when normalized, got ${end}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check conversion options against their documented types and ranges
+ * @param format - Output format the options will be used with
+ * @param options - Conversion options including format-specific quality options
+ * @returns Every problem found, or an empty array if the options are valid
+ */
+export function validateOptions(
+  format: OutputFormat,
+  options: unknown
+): OptionIssue[] {
+  if (options === undefined) {
+    return [];
+  }
+  if (options === null || typeof options !== 'object') {
+    return [
+      { code: 'WRONG_TYPE', key: '', message: 'Options must be an object' },
+    ];
+  }
+
+  const issues: OptionIssue[] = [];
+  const formatOptions = FORMAT_OPTIONS[format] ?? [];
+
+  for (const [key, value] of Object.entries(options)) {
+    // Explicit undefined means "use the default"
+    if (value === undefined) {
+      continue;
+    }
+
+    const rule = OPTION_RULES[key as keyof InternalConversionOptions];
+    if (!rule) {
+      issues.push({
+        code: 'UNKNOWN_KEY',
+        key,
+        message: `${key} is not a conversion option`,
+      });
+      continue;
+    }
+
+    if (FORMAT_SPECIFIC_OPTIONS.has(key) && !formatOptions.includes(key)) {
+      issues.push({
+        code: 'UNSUPPORTED_FOR_FORMAT',
+        key,
+        message: `${key} is not supported for ${format} output`,
+      });
+      continue;
+    }
+
+    issues.push(...checkValue(key, value, rule));
+  }
+
+  return issues;
+}
+
+/**
+ * Check the renditions of a multi-output conversion and the options they
+ * share. Shared options are checked against every rendition's format;
+ * problems in a rendition are keyed by its position, e.g. renditions[1].quality.
+ * @param renditions - Renditions with their formats, quality options and scales
+ * @param options - Conversion options shared by every rendition
+ * @returns Every problem found, or an empty array if the renditions and options are valid
+ */
+export function validateRenditions(
+  renditions: readonly Rendition[],
+  options: unknown
+): OptionIssue[] {
+  // The same shared option problem is reported once, not once per rendition
+  const issues = new Map<string, OptionIssue>();
+  const add = (issue: OptionIssue) => issues.set(issue.message, issue);
+
+  renditions.forEach((rendition, index) => {
+    validateOptions(rendition.format, options).forEach(add);
+
+    const renditionIssues: OptionIssue[] = [];
+    const { options: renditionOptions, scale } = rendition as {
+      options?: unknown;
+      scale?: unknown;
+    };
+
+    if (
+      renditionOptions !== undefined &&
+      (renditionOptions === null || typeof renditionOptions !== 'object')
+    ) {
+      renditionIssues.push({
+        code: 'WRONG_TYPE',
+        key: 'options',
+        message: 'options must be an object',
+      });
+    } else if (renditionOptions) {
+      const qualityOptions: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(renditionOptions)) {
+        if (value !== undefined && !isRenditionOption(key)) {
+          renditionIssues.push({
+            code: 'UNKNOWN_KEY',
+            key,
+            message: `${key} is not a rendition option`,
+          });
+        } else {
+          qualityOptions[key] = value;
+        }
+      }
+      renditionIssues.push(
+        ...validateOptions(rendition.format, qualityOptions)
+      );
+    }
+
+    if (scale !== undefined) {
+      renditionIssues.push(...checkValue('scale', scale, SCALE_RULE));
+    }
+
+    const prefix = `renditions[${index}]`;
+    for (const issue of renditionIssues) {
+      add({
+        ...issue,
+        key: `${prefix}.${issue.key}`,
+        message: `${prefix}.${issue.message}`,
+      });
+    }
+  });
+
+  return [...issues.values()];
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createConverter,
+  createStubBackend,
+  OutputFormat,
+  validateOptions,
+} from './index.js';
+import { resolveWhiteBalance } from './white-balance.js';
+
+describe('resolveWhiteBalance', () => {
+  it('should resolve presets to temperature and tint', () => {
+    expect(resolveWhiteBalance({ whiteBalance: 'tungsten' })).toEqual({
+      neutralTemperature: 2850,
+      neutralTint: 0,
+    });
+    expect(
+      resolveWhiteBalance({ whiteBalance: 'shade', neutralTemperature: 4000 })
+    ).toEqual({ neutralTemperature: 7500, neutralTint: 10 });
+  });
+
+  it('should keep negative tints of a custom white balance', () => {
+    expect(
+      resolveWhiteBalance({ whiteBalance: { temperature: 4200, tint: -15 } })
+    ).toEqual({ neutralTemperature: 4200, neutralTint: -15 });
+    expect(
+      resolveWhiteBalance({ whiteBalance: { temperature: 4200 } })
+    ).toEqual({ neutralTemperature: 4200, neutralTint: 0 });
+  });
+
+  it("should leave the camera's white balance for as-shot", () => {
+    expect(
+      resolveWhiteBalance({
+        whiteBalance: 'as-shot',
+        neutralTemperature: 4000,
+        neutralTint: 5,
+        exposure: 1,
+      })
+    ).toEqual({ exposure: 1 });
+  });
+
+  it('should leave options without whiteBalance unchanged', () => {
+    const options = { neutralTemperature: 4000 };
+    expect(resolveWhiteBalance(options)).toBe(options);
+  });
+});
+
+describe('whiteBalance option', () => {
+  it('should pass the resolved native options to the backend', () => {
+    const stub = createStubBackend();
+    const converter = createConverter({ backend: stub });
+
+    converter.convertRaw(Buffer.from('raw'), OutputFormat.JPEG, {
+      inputFormat: 'arw',
+      whiteBalance: 'cloudy',
+    });
+
+    expect(stub.calls[0].options).toEqual({
+      inputFormat: 'arw',
+      neutralTemperature: 6500,
+      neutralTint: 10,
+    });
+  });
+
+  it('should validate presets and custom values', () => {
+    expect(
+      validateOptions(OutputFormat.JPEG, { whiteBalance: 'daylight' })
+    ).toEqual([]);
+
+    const issues = [
+      { whiteBalance: 'sunny' },
+      { whiteBalance: { tint: 5 } },
+      { whiteBalance: { temperature: -1 } },
+      { whiteBalance: 5500 },
+    ].flatMap((options) => validateOptions(OutputFormat.JPEG, options));
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'whiteBalance must be one of: as-shot, daylight, cloudy, shade, tungsten, fluorescent, flash, or an object',
+      'whiteBalance must set temperature',
+      'whiteBalance.temperature must be greater than 0, got -1',
+      'whiteBalance must be one of: as-shot, daylight, cloudy, shade, tungsten, fluorescent, flash, or an object',
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import type {
+  InternalConversionOptions,
+  WhiteBalancePreset,
+  WhiteBalanceSetting,
+} from './types.js';
+
+/**
+ * Temperature (Kelvin) and tint of each preset; as-shot keeps the white
+ * balance recorded by the camera
+ */
+export const WHITE_BALANCE_PRESETS: Record<
+  Exclude<WhiteBalancePreset, 'as-shot'>,
+  Required<WhiteBalanceSetting>
+> = {
+  daylight: { temperature: 5500, tint: 10 },
+  cloudy: { temperature: 6500, tint: 10 },
+  shade: { temperature: 7500, tint: 10 },
+  tungsten: { temperature: 2850, tint: 0 },
+  fluorescent: { temperature: 3800, tint: 21 },
+  flash: { temperature: 5500, tint: 0 },
+};
+
+/**
+ * Replace the whiteBalance option with the neutralTemperature and neutralTint
+ * options the backends understand. A preset or custom white balance replaces
+ * both; as-shot removes them, so the RAW decoder uses the camera's values.
+ * @param options - Conversion options that may set whiteBalance
+ * @returns The options without whiteBalance
+ */
+export function resolveWhiteBalance(
+  options: InternalConversionOptions
+): InternalConversionOptions {
+  const { whiteBalance, neutralTemperature, neutralTint, ...resolved } =
+    options;
+  if (whiteBalance === undefined) {
+    return options;
+  }
+  if (whiteBalance === 'as-shot') {
+    return resolved;
+  }
+
+  const setting =
+    typeof whiteBalance === 'string'
+      ? WHITE_BALANCE_PRESETS[whiteBalance]
+      : whiteBalance;
+  return {
+    ...resolved,
+    neutralTemperature: setting.temperature,
+    neutralTint: setting.tint ?? 0,
+  };
+}